@@ -8,16 +8,19 @@ import RewardsScreen from './screens/RewardsScreen';
 import SupportScreen from './screens/SupportScreen';
 import CirclesScreen from './screens/CirclesScreen';
 import BottomNav from './components/BottomNav';
+import WarningToast from './components/WarningToast';
 import WelcomeScreen from './screens/WelcomeScreen';
 import { signOut } from 'firebase/auth';
 import { auth } from './utils/firebase';
 import { userRepository } from './utils/userRepository';
 import { NavigationProvider } from './context/NavigationContext';
+import { useScoringMigration } from './hooks/useScoringMigration';
 
 const AppContent: React.FC = () => {
     const [activeScreen, setActiveScreen] = useState<Screen>('home');
     const [user, setUser] = useLocalStorage<User | null>('user', null);
     const [theme, setTheme] = useLocalStorage<'light'|'dark'>('theme', 'dark');
+    const scoringNotice = useScoringMigration(user);
 
     // Apply Theme to DOM
     useEffect(() => {
@@ -134,6 +137,8 @@ const AppContent: React.FC = () => {
                 </div>
                 {renderOverlay()}
             </main>
+
+            <WarningToast warning={scoringNotice ?? undefined} />
             
             {activeScreen !== 'support' && activeScreen !== 'circles' && (
                 <BottomNav activeScreen={activeScreen} setActiveScreen={setActiveScreen} />
@@ -0,0 +1,173 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { DrivingEvent, EmergencyContact } from '../types';
+import { VIOLATION_CONFIG } from '../utils/config';
+import { getEmergencyNumber, callEmergencyNumber, escalateEmergency, shareLocationWithContacts, buildEmergencyMessage } from '../utils/emergency';
+import { AlertTriangleIcon, CallIcon, SendIcon, MicIcon } from './icons';
+
+interface CrashAlertModalProps {
+    crash: DrivingEvent;
+    contacts: EmergencyContact[];
+    userName: string;
+    speak: (text: string, force?: boolean) => void;
+    onCancel: () => void; // Driver answered: no event is recorded
+    onEscalate: () => void; // Countdown ran out: record the crash
+    onClose: () => void;
+}
+
+// Anything that sounds like the driver telling us they're fine. Kept out of the spoken prompt
+// so the recogniser can't cancel on our own voice.
+const CANCEL_PHRASES = /\b(ok|okay|fine|cancel|stop|alright|all right)\b/i;
+
+// The slice of the Web Speech API used here; browsers expose it prefixed, if at all
+interface SpeechRecognitionResultEvent {
+    resultIndex: number;
+    results: ArrayLike<ArrayLike<{ transcript: string }>>;
+}
+
+interface SpeechRecognitionLike {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    onstart: (() => void) | null;
+    onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+    onend: (() => void) | null;
+    onerror: (() => void) | null;
+    start(): void;
+    stop(): void;
+}
+
+declare global {
+    interface Window {
+        SpeechRecognition?: new () => SpeechRecognitionLike;
+        webkitSpeechRecognition?: new () => SpeechRecognitionLike;
+    }
+}
+
+const CrashAlertModal: React.FC<CrashAlertModalProps> = ({ crash, contacts, userName, speak, onCancel, onEscalate, onClose }) => {
+    const [secondsLeft, setSecondsLeft] = useState(VIOLATION_CONFIG.CRASH.COUNTDOWN_SECONDS);
+    const [phase, setPhase] = useState<'countdown' | 'escalated'>('countdown');
+    const [isListening, setIsListening] = useState(false);
+
+    const emergencyNumber = getEmergencyNumber(crash.lat, crash.lng);
+    const message = buildEmergencyMessage(userName, crash.lat, crash.lng);
+
+    // The parent re-renders on every fix; the timers below read the latest props from here
+    // rather than restarting whenever a callback or the contact list changes identity
+    const latestRef = useRef({ speak, onCancel, onEscalate, contacts, emergencyNumber, message });
+    useEffect(() => {
+        latestRef.current = { speak, onCancel, onEscalate, contacts, emergencyNumber, message };
+    });
+
+    useEffect(() => {
+        const { speak, emergencyNumber } = latestRef.current;
+        speak(`Possible crash detected. Calling ${emergencyNumber.split('').join(' ')} in ${VIOLATION_CONFIG.CRASH.COUNTDOWN_SECONDS} seconds unless you respond.`, true);
+        if ('vibrate' in navigator) navigator.vibrate([500, 200, 500, 200, 500]);
+    }, []);
+
+    // Countdown: escalate on the tick that would take it to zero
+    useEffect(() => {
+        if (phase !== 'countdown') return;
+        const timer = setTimeout(() => {
+            setSecondsLeft(secondsLeft - 1);
+            if (secondsLeft > 1) return;
+            const { onEscalate, contacts, emergencyNumber, message } = latestRef.current;
+            setPhase('escalated');
+            onEscalate();
+            escalateEmergency(emergencyNumber, contacts, message);
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [secondsLeft, phase]);
+
+    // Voice cancel: keep the recogniser alive for as long as the countdown runs
+    useEffect(() => {
+        if (phase !== 'countdown') return;
+        const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
+        if (!SpeechRecognition) return;
+
+        let active = true;
+        const recognition = new SpeechRecognition();
+        recognition.lang = 'en-US';
+        recognition.continuous = true;
+        recognition.interimResults = true;
+
+        recognition.onstart = () => setIsListening(true);
+        recognition.onresult = event => {
+            for (let i = event.resultIndex; i < event.results.length; i++) {
+                if (CANCEL_PHRASES.test(event.results[i][0].transcript)) {
+                    active = false;
+                    recognition.stop();
+                    latestRef.current.onCancel();
+                    return;
+                }
+            }
+        };
+        recognition.onend = () => {
+            setIsListening(false);
+            if (active) {
+                try { recognition.start(); } catch { /* Already restarting */ }
+            }
+        };
+        recognition.onerror = () => setIsListening(false);
+
+        // Give the spoken prompt a head start before listening
+        const startTimer = setTimeout(() => {
+            try { recognition.start(); } catch (e) { console.error("Voice cancel unavailable:", e); }
+        }, 4000);
+
+        return () => {
+            active = false;
+            clearTimeout(startTimer);
+            recognition.stop();
+        };
+    }, [phase]);
+
+    const progress = secondsLeft / VIOLATION_CONFIG.CRASH.COUNTDOWN_SECONDS;
+
+    return (
+        <div className="fixed inset-0 z-[9000] bg-red-700 flex flex-col items-center justify-center p-6 text-white text-center animate-fade-in-up" data-safe="true">
+            {phase === 'countdown' ? (
+                <>
+                    <AlertTriangleIcon className="w-16 h-16 mb-4 animate-pulse" />
+                    <h1 className="text-4xl font-black font-display uppercase tracking-wide">Are you OK?</h1>
+                    <p className="text-sm font-bold opacity-90 mt-2 max-w-xs">We detected a possible crash. Emergency services ({emergencyNumber}) will be called when the timer runs out.</p>
+
+                    <div className="relative w-48 h-48 my-10">
+                        <svg className="w-full h-full -rotate-90" viewBox="0 0 100 100">
+                            <circle cx="50" cy="50" r="45" fill="none" stroke="rgba(255,255,255,0.2)" strokeWidth="8" />
+                            <circle cx="50" cy="50" r="45" fill="none" stroke="white" strokeWidth="8" strokeLinecap="round" strokeDasharray={`${progress * 283} 283`} className="transition-all duration-1000 ease-linear" />
+                        </svg>
+                        <span className="absolute inset-0 flex items-center justify-center text-6xl font-black font-display">{secondsLeft}</span>
+                    </div>
+
+                    <button onClick={onCancel} className="w-full max-w-xs py-6 bg-white text-red-700 text-2xl font-black rounded-3xl shadow-2xl active:scale-95 transition-transform">
+                        I&apos;m OK
+                    </button>
+                    {isListening && (
+                        <p className="flex items-center text-xs font-bold mt-4 opacity-90"><MicIcon className="w-4 h-4 mr-1 animate-pulse" /> Or say &quot;I&apos;m OK&quot;</p>
+                    )}
+                </>
+            ) : (
+                <>
+                    <CallIcon className="w-16 h-16 mb-4" />
+                    <h1 className="text-3xl font-black font-display uppercase tracking-wide">Getting Help</h1>
+                    <p className="text-sm font-bold opacity-90 mt-2 max-w-xs">
+                        Your crash has been recorded with its location.{contacts.length > 0 && ' Your contacts will be texted where you are once the call ends.'}
+                    </p>
+
+                    <div className="w-full max-w-xs space-y-3 mt-8">
+                        <button onClick={() => callEmergencyNumber(emergencyNumber)} className="w-full py-4 bg-white text-red-700 text-lg font-black rounded-2xl flex items-center justify-center">
+                            <CallIcon className="w-5 h-5 mr-2" /> Call {emergencyNumber}
+                        </button>
+                        <button onClick={() => shareLocationWithContacts(contacts, message)} className="w-full py-4 bg-white/20 text-white font-bold rounded-2xl flex items-center justify-center">
+                            <SendIcon className="w-5 h-5 mr-2" />
+                            {contacts.length > 0 ? `Text location to ${contacts.length} contact${contacts.length > 1 ? 's' : ''}` : 'Share my location'}
+                        </button>
+                        <button onClick={onClose} className="w-full py-3 text-sm font-bold opacity-80">I&apos;m safe, close</button>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default CrashAlertModal;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import type { Route, LatLng } from '../types';
+import { locationProviders } from '../utils/locationProvider';
+import { SimulatedLocationProvider } from '../utils/simulatedLocationProvider';
+import { RouteDriveSimulator } from '../utils/routeSimulator';
+import { sensorSession } from '../utils/sensorSession';
+import { XIcon, WrenchIcon, UploadIcon, DownloadIcon } from './icons';
+
+// Dev builds only (FEATURE_FLAGS.SENSOR_DEV_TOOLS). Picks the location provider the next trip
+// will use, so the HUD, voice guidance and scoring can be exercised without driving.
+
+interface DeveloperMenuProps {
+    activeRoute: Route | null;
+    currentLocation: LatLng | null;
+    onClose: () => void;
+}
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; unit: string; onChange: (v: number) => void }> = ({ label, value, min, max, step, unit, onChange }) => (
+    <label className="block">
+        <div className="flex justify-between text-[10px] font-bold uppercase tracking-wide text-slate-400 mb-1">
+            <span>{label}</span>
+            <span className="text-white">{value}{unit}</span>
+        </div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="w-full accent-cyan-400" />
+    </label>
+);
+
+const DeveloperMenu: React.FC<DeveloperMenuProps> = ({ activeRoute, currentLocation, onClose }) => {
+    const [selected, setSelected] = useState(locationProviders.getOverride()?.id ?? 'device');
+    const [isRecording, setIsRecording] = useState(sensorSession.getRecorder() !== null);
+
+    // Route drive parameters
+    const [cruiseSpeedKmh, setCruiseSpeedKmh] = useState(60);
+    const [speedingPercent, setSpeedingPercent] = useState(20);
+    const [harshEventsPerKm, setHarshEventsPerKm] = useState(0.5);
+    const [gpsNoiseM, setGpsNoiseM] = useState(4);
+    const [dropoutsPerHour, setDropoutsPerHour] = useState(6);
+
+    const selectDevice = () => {
+        sensorSession.clearReplay();
+        locationProviders.setOverride(null);
+        setSelected('device');
+    };
+
+    const selectRouteDrive = () => {
+        if (!activeRoute) return;
+        locationProviders.setOverride(new RouteDriveSimulator({ route: activeRoute, cruiseSpeedKmh, speedingPercent, harshEventsPerKm, gpsNoiseM, dropoutsPerHour }));
+        setSelected('route');
+    };
+
+    const selectCircleDrive = () => {
+        if (!currentLocation) return;
+        locationProviders.setOverride(new SimulatedLocationProvider({ origin: currentLocation, speedKmh: 50, turnRateDegPerSec: 3 }));
+        setSelected('simulated');
+    };
+
+    const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        try {
+            sensorSession.loadReplay(await file.text(), 1);
+            setSelected('replay');
+        } catch (err) {
+            alert(`Could not load session: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    };
+
+    const toggleRecording = () => {
+        if (isRecording) {
+            const recorder = sensorSession.stopRecording();
+            if (recorder && recorder.sampleCount > 0) sensorSession.download(recorder);
+            setIsRecording(false);
+        } else {
+            sensorSession.startRecording();
+            setIsRecording(true);
+        }
+    };
+
+    const optionClass = (id: string, disabled = false) =>
+        `w-full text-left p-3 rounded-xl border text-sm font-bold transition-all ${disabled ? 'opacity-40 cursor-not-allowed border-white/5 text-slate-500' : selected === id ? 'bg-brand-cyan/10 border-brand-cyan/50 text-brand-cyan' : 'bg-white/5 border-white/10 text-white hover:bg-white/10'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/80 z-[2000] flex items-end sm:items-center justify-center p-4 backdrop-blur-md" data-safe="true">
+            <div className="bg-dark-900 border border-white/10 rounded-3xl p-6 max-w-sm w-full max-h-[85vh] overflow-y-auto space-y-5 animate-fade-in-up shadow-2xl">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-white flex items-center"><WrenchIcon className="w-5 h-5 mr-2 text-brand-cyan" /> Developer</h2>
+                    <button onClick={onClose} className="p-2 rounded-full bg-white/10 text-slate-400 hover:text-white"><XIcon className="w-5 h-5" /></button>
+                </div>
+
+                <div className="space-y-2">
+                    <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Location Source</h3>
+                    <button onClick={selectDevice} className={optionClass('device')}>Device GPS</button>
+                    <button onClick={selectRouteDrive} disabled={!activeRoute} className={optionClass('route', !activeRoute)}>
+                        Simulated route drive
+                        {!activeRoute && <span className="block text-[10px] font-medium text-slate-500">Pick a destination first</span>}
+                    </button>
+                    <button onClick={selectCircleDrive} disabled={!currentLocation} className={optionClass('simulated', !currentLocation)}>Simulated loop from here</button>
+                    <label className={`${optionClass('replay')} flex items-center cursor-pointer`}>
+                        <UploadIcon className="w-4 h-4 mr-2" /> Replay recorded session
+                        <input type="file" accept=".ndjson,application/x-ndjson" onChange={handleReplayFile} className="hidden" />
+                    </label>
+                </div>
+
+                {activeRoute && (
+                    <div className="space-y-3 p-4 bg-white/5 rounded-2xl border border-white/5">
+                        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-500">Route Drive</h3>
+                        <Slider label="Cruise speed" value={cruiseSpeedKmh} min={20} max={130} step={5} unit=" km/h" onChange={setCruiseSpeedKmh} />
+                        <Slider label="Speeding" value={speedingPercent} min={0} max={100} step={5} unit="%" onChange={setSpeedingPercent} />
+                        <Slider label="Harsh events" value={harshEventsPerKm} min={0} max={3} step={0.25} unit="/km" onChange={setHarshEventsPerKm} />
+                        <Slider label="GPS noise" value={gpsNoiseM} min={0} max={30} step={1} unit=" m" onChange={setGpsNoiseM} />
+                        <Slider label="GPS dropouts" value={dropoutsPerHour} min={0} max={60} step={2} unit="/h" onChange={setDropoutsPerHour} />
+                        <button onClick={selectRouteDrive} className="w-full py-2 bg-brand-cyan text-black text-xs font-bold rounded-xl">Apply</button>
+                    </div>
+                )}
+
+                <button onClick={toggleRecording} className={`w-full py-3 rounded-xl text-xs font-bold flex items-center justify-center ${isRecording ? 'bg-red-500 text-white' : 'bg-white/10 text-white'}`}>
+                    {isRecording ? <><DownloadIcon className="w-4 h-4 mr-2" /> Stop & download recording</> : 'Record sensor session'}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default DeveloperMenu;
@@ -15,6 +15,8 @@ const GarageModal: React.FC<GarageModalProps> = ({ onClose, user }) => {
     const isGuest = user.isGuest;
     const { data: cloudVehicles } = useFirestoreCollection<Vehicle>('vehicles', [], 'vehicles');
     const [localVehicles, setLocalVehicles] = useLocalStorage<Vehicle[]>('vehicles', []);
+    // Trips are tagged with this vehicle and use its stored phone mount alignment
+    const [activeVehicleId, setActiveVehicleId] = useLocalStorage<string | null>('active-vehicle-id', null);
     
     const allVehicles = isGuest ? localVehicles : cloudVehicles;
     const vehicles = allVehicles.filter(v => !v.deletedAt);
@@ -89,6 +91,7 @@ const GarageModal: React.FC<GarageModalProps> = ({ onClose, user }) => {
                 if (!auth.currentUser) throw new Error("Not authenticated");
                 await syncService.update('vehicles', id, deleteMetadata);
             }
+            if (activeVehicleId === id) setActiveVehicleId(null);
             setDeleteConfirmId(null);
         } catch (error) {
             console.error("Delete failed:", error);
@@ -186,7 +189,15 @@ const GarageModal: React.FC<GarageModalProps> = ({ onClose, user }) => {
                                             <h3 className="text-xl font-black text-slate-900 dark:text-white leading-tight font-display">{v.make} <span className="font-normal text-slate-500 dark:text-slate-400 font-sans">{v.model}</span></h3>
                                             <p className="text-xs font-mono text-slate-500 mt-1">{v.odometer.toLocaleString()} km</p>
                                         </div>
-                                        <button onClick={() => setDeleteConfirmId(v.id)} className="p-2 text-slate-400 hover:text-red-500 dark:text-slate-600 dark:hover:text-red-500 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                                        <div className="flex items-center space-x-1">
+                                            <button
+                                                onClick={() => setActiveVehicleId(activeVehicleId === v.id ? null : v.id)}
+                                                className={`px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest transition-colors ${activeVehicleId === v.id ? 'bg-brand-cyan text-white' : 'bg-slate-100 dark:bg-white/5 text-slate-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white'}`}
+                                            >
+                                                {activeVehicleId === v.id ? 'Driving' : 'Drive this'}
+                                            </button>
+                                            <button onClick={() => setDeleteConfirmId(v.id)} className="p-2 text-slate-400 hover:text-red-500 dark:text-slate-600 dark:hover:text-red-500 transition-colors"><TrashIcon className="w-4 h-4" /></button>
+                                        </div>
                                     </div>
 
                                     <div className="grid grid-cols-2 gap-3 mb-4">
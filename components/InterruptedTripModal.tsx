@@ -0,0 +1,51 @@
+import React from 'react';
+import type { TripCheckpoint } from '../utils/tripCheckpoint';
+import { TRIP_CHECKPOINT_CONFIG } from '../utils/config';
+import { clock } from '../utils/clock';
+import { formatDistance } from '../utils/helpers';
+import { CarIcon } from './icons';
+
+interface InterruptedTripModalProps {
+    checkpoint: TripCheckpoint;
+    onResume: () => void;
+    onFinalise: () => void; // Save it as it stood at the checkpoint
+}
+
+const InterruptedTripModal: React.FC<InterruptedTripModalProps> = ({ checkpoint, onResume, onFinalise }) => {
+    const awayMs = clock.now() - checkpoint.savedAt;
+    const minutesAway = Math.max(0, Math.round(awayMs / 60000));
+    // After a long break the car has long since parked; carrying on would join two different drives
+    const canResume = awayMs <= TRIP_CHECKPOINT_CONFIG.MAX_RESUME_GAP_MS;
+    const startedAt = new Date(checkpoint.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="fixed inset-0 z-[8000] bg-black/80 backdrop-blur-md flex items-center justify-center p-4 animate-fade-in-up">
+            <div className="bg-dark-900 p-6 rounded-3xl border border-white/10 shadow-2xl w-full max-w-sm text-center">
+                <CarIcon className="w-12 h-12 text-brand-cyan mx-auto mb-4" />
+                <h3 className="text-xl font-bold text-white mb-2">Trip Interrupted</h3>
+                <p className="text-slate-400 mb-6 text-sm">
+                    Your drive from {startedAt} ({formatDistance(checkpoint.distance)} km) stopped recording {minutesAway > 0 ? `${minutesAway} min ago` : 'just now'}.
+                    {canResume ? ' Carry on with it, or save it as it was?' : ' It has been too long to carry on, but it can be saved as it was.'}
+                </p>
+                <div className="flex space-x-3">
+                    <button
+                        onClick={onFinalise}
+                        className="flex-1 py-3 bg-white/10 rounded-xl text-slate-300 font-bold hover:bg-white/20 transition-colors"
+                    >
+                        Save Trip
+                    </button>
+                    {canResume && (
+                        <button
+                            onClick={onResume}
+                            className="flex-1 py-3 bg-gradient-aurora text-white rounded-xl font-bold hover:shadow-lg transition-all"
+                        >
+                            Resume
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default InterruptedTripModal;
@@ -46,11 +46,22 @@ const createNavigationArrow = (rotation: number) => {
     return container;
 };
 
+const mapOptionsFor = (theme: 'light' | 'dark', center: any, zoom: number) => ({
+    center,
+    zoom,
+    disableDefaultUI: true,
+    backgroundColor: theme === 'dark' ? '#0F172A' : '#F8FAFC',
+    colorScheme: theme === 'dark' ? 'DARK' : 'LIGHT',
+    gestureHandling: 'greedy',
+    mapId: "SAFE_DRIVE_MAP_ID"
+});
+
 const MapView = forwardRef<MapViewHandle, MapViewProps>(({ location, start, destination, onRoutesFound, onError, isNavigating, activeRoute, activeRouteIndex = 0, theme = 'dark', onUserInteraction }, ref) => {
     const mapRef = useRef<HTMLDivElement>(null);
     const googleMapRef = useRef<any>(null);
     const directionsRendererRef = useRef<any>(null);
     const userMarkerRef = useRef<any>(null);
+    const mapThemeRef = useRef<'light' | 'dark' | null>(null);
     const hasCenteredRef = useRef(false);
     
     // Smart Recenter
@@ -89,16 +100,10 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ location, start, dest
     useEffect(() => {
         loadGoogleMaps().then(() => {
             if (mapRef.current && !googleMapRef.current) {
-                const mapOptions = {
-                    center: { lat: -33.8688, lng: 151.2093 }, 
-                    zoom: 17,
-                    disableDefaultUI: true,
-                    backgroundColor: '#0F172A',
-                    gestureHandling: 'greedy',
-                    mapId: "SAFE_DRIVE_MAP_ID" 
-                };
+                const mapOptions = mapOptionsFor(theme, { lat: -33.8688, lng: 151.2093 }, 17);
 
                 googleMapRef.current = new google.maps.Map(mapRef.current, mapOptions);
+                mapThemeRef.current = theme;
                 const DirectionsService = new google.maps.DirectionsService();
                 
                 directionsRendererRef.current = new google.maps.DirectionsRenderer({
@@ -156,6 +161,11 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ location, start, dest
                         this.rotation = rotation;
                         this.draw(); 
                     }
+
+                    // Dead-reckoned (no GPS) positions render a faded puck
+                    setEstimated(estimated: boolean) {
+                        if (this.div) this.div.style.opacity = estimated ? '0.5' : '1';
+                    }
                 }
 
                 userMarkerRef.current = new HTMLMarker(mapOptions.center);
@@ -163,6 +173,15 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ location, start, dest
                 
                 // Expose Directions Service via closure for calculating routes
                 (window as any).safeDriveDirectionsService = DirectionsService;
+            } else if (mapRef.current && googleMapRef.current && mapThemeRef.current !== theme) {
+                // The colour scheme is fixed when a map is created, so a theme change means a new
+                // map in the same element, keeping the view and moving the overlays across
+                const previous = googleMapRef.current;
+                googleMapRef.current = new google.maps.Map(mapRef.current, mapOptionsFor(theme, previous.getCenter(), previous.getZoom()));
+                mapThemeRef.current = theme;
+                googleMapRef.current.addListener('dragstart', handleUserInteraction);
+                directionsRendererRef.current?.setMap(googleMapRef.current);
+                userMarkerRef.current?.setMap(googleMapRef.current);
             }
         });
     }, [theme]);
@@ -235,6 +254,8 @@ const MapView = forwardRef<MapViewHandle, MapViewProps>(({ location, start, dest
                 bearing: 0 // Not used directly, calculated in animate loop based on mode
             };
 
+            userMarkerRef.current?.setEstimated(!!location.isEstimated);
+
             // Initial Snap
             if (!hasCenteredRef.current && googleMapRef.current) {
                 currentRenderState.current = { ...targetState.current };
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { XIcon, UploadIcon, TrashIcon, MapPinIcon } from './icons';
+import { ImportedRoadRegion, roadCache } from '../utils/roadCache';
+import { importRoadFile } from '../utils/roadImport';
+
+// Road extracts stored on the device, so speed limits keep working without signal. Lookups use
+// these before asking Overpass.
+
+interface OfflineRoadDataModalProps {
+    onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const OfflineRoadDataModal: React.FC<OfflineRoadDataModalProps> = ({ onClose }) => {
+    const [regions, setRegions] = useState<ImportedRoadRegion[]>([]);
+    const [isImporting, setIsImporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = () => roadCache.listImportedRegions().then(setRegions).catch(err => setError(err.message));
+
+    useEffect(() => {
+        refresh();
+    }, []);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setError(null);
+        setIsImporting(true);
+        try {
+            await importRoadFile(file);
+            await refresh();
+        } catch (err) {
+            setError((err instanceof Error ? err.message : String(err)) || 'Import failed.');
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const handleDelete = async (region: ImportedRoadRegion) => {
+        if (!confirm(`Delete offline roads for ${region.name}?`)) return;
+        try {
+            await roadCache.deleteImportedRegion(region.id);
+            await refresh();
+        } catch (err) {
+            setError((err instanceof Error ? err.message : String(err)) || 'Delete failed.');
+        }
+    };
+
+    const totalBytes = regions.reduce((sum, r) => sum + r.sizeBytes, 0);
+
+    return (
+        <div className="fixed inset-0 z-[6000] bg-black/60 dark:bg-black/90 backdrop-blur-xl flex items-end sm:items-center justify-center p-0 sm:p-4 animate-fade-in-up">
+            <div className="bg-white dark:bg-dark-900 w-full sm:max-w-md max-h-[95dvh] sm:max-h-[85vh] rounded-t-[32px] sm:rounded-3xl border border-slate-200 dark:border-white/10 shadow-2xl flex flex-col overflow-hidden transition-colors duration-300">
+                <div className="p-6 border-b border-slate-100 dark:border-white/10 flex justify-between items-center bg-slate-50 dark:bg-white/5 flex-shrink-0">
+                    <div>
+                        <h2 className="text-xl font-black text-slate-900 dark:text-white font-display">Offline Road Data</h2>
+                        <p className="text-xs text-slate-500 dark:text-slate-400">{regions.length} region{regions.length === 1 ? '' : 's'} · {formatBytes(totalBytes)}</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 rounded-full bg-slate-100 dark:bg-white/10 hover:bg-slate-200 dark:hover:bg-white/20 text-slate-900 dark:text-white transition-colors">
+                        <XIcon className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-4 bg-slate-50 dark:bg-dark-950/50">
+                    <p className="text-xs text-slate-500">
+                        Import a GeoJSON road file for areas with poor signal. From an OSM extract: <code className="font-mono">osmium export region.osm.pbf -o region.geojson</code>
+                    </p>
+
+                    <label className={`w-full py-3 rounded-xl text-sm font-bold flex items-center justify-center cursor-pointer transition-colors ${isImporting ? 'bg-slate-200 dark:bg-white/10 text-slate-400' : 'bg-brand-cyan text-black hover:bg-cyan-400'}`}>
+                        <UploadIcon className="w-4 h-4 mr-2" /> {isImporting ? 'Importing…' : 'Import Road File'}
+                        <input type="file" accept=".geojson,.json,.geojsonseq,application/geo+json,application/json" onChange={handleFile} disabled={isImporting} className="hidden" />
+                    </label>
+
+                    {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+
+                    {regions.length === 0 && !isImporting && (
+                        <p className="text-center text-sm text-slate-400 py-6">No offline regions yet. Speed limits are fetched online as you drive.</p>
+                    )}
+
+                    {regions.map(region => (
+                        <div key={region.id} className="flex items-center justify-between p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl">
+                            <div className="flex items-center space-x-3 min-w-0">
+                                <MapPinIcon className="w-5 h-5 text-brand-cyan flex-shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-slate-900 dark:text-white truncate">{region.name}</p>
+                                    <p className="text-xs text-slate-500">
+                                        {formatBytes(region.sizeBytes)} · {region.wayCount.toLocaleString()} roads · {region.schoolCount.toLocaleString()} schools
+                                    </p>
+                                    <p className="text-[10px] text-slate-400">Imported {new Date(region.importedAt).toLocaleDateString()}</p>
+                                </div>
+                            </div>
+                            <button onClick={() => handleDelete(region)} className="p-2 text-slate-400 hover:text-red-500">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default OfflineRoadDataModal;
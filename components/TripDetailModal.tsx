@@ -1,14 +1,19 @@
 
 import React, { useEffect, useState, useRef } from 'react';
-import type { Trip, DrivingEvent, SeverityLevel } from '../types';
+import type { Trip, DrivingEvent, SeverityLevel, SpeedingEpisode, IntersectionPassage, TripSegment } from '../types';
 import { XIcon, ClockIcon, RouteIcon, TrophyIcon, AlertTriangleIcon, GaugeIcon, StarIcon, MapPinIcon, ArrowRightIcon, UploadIcon, BriefcaseIcon, UserIcon } from './icons';
 import { formatDuration, formatDistance } from '../utils/helpers';
 import { syncService } from '../utils/sync';
+import { CONTESTABLE_VALIDITIES } from '../utils/tripClassifier';
+import { TRIP_CLASSIFIER_CONFIG } from '../utils/config';
+import { tripScores } from '../utils/scoringModel';
 import { auth } from '../utils/firebase';
 
 interface TripDetailModalProps {
     trip: Trip;
     onClose: () => void;
+    onReview?: (keep: boolean) => void; // Keep or discard an auto-recorded trip
+    onContest?: () => void; // "I was driving" against a bus / train / passenger call
 }
 
 const ProgressBar: React.FC<{ label: string; percent: number; color: string; delay: number }> = ({ label, percent, color, delay }) => {
@@ -31,7 +36,7 @@ const ProgressBar: React.FC<{ label: string; percent: number; color: string; del
     );
 };
 
-const EventRow: React.FC<{ label: string; points: number; type?: string; time?: string; disputed?: boolean; severityLevel?: SeverityLevel; onDispute?: (file?: File) => void }> = ({ label, points, type, time, disputed, severityLevel, onDispute }) => {
+const EventRow: React.FC<{ label: string; points: number; type?: string; time?: string; detail?: string; disputed?: boolean; severityLevel?: SeverityLevel; onDispute?: (file?: File) => void; children?: React.ReactNode }> = ({ label, points, type, time, detail, disputed, severityLevel, onDispute, children }) => {
     const isPositive = points >= 0;
     const [hasDisputed, setHasDisputed] = useState(disputed || false);
     const [showUpload, setShowUpload] = useState(false);
@@ -83,6 +88,7 @@ const EventRow: React.FC<{ label: string; points: number; type?: string; time?:
                              )}
                         </div>
                         {time && <p className="text-[10px] text-slate-500 dark:text-slate-400 font-mono mt-0.5">{time}</p>}
+                        {detail && <p className="text-[10px] text-slate-400 mt-0.5">{detail}</p>}
                     </div>
                 </div>
                 <div className="flex items-center space-x-3">
@@ -99,6 +105,8 @@ const EventRow: React.FC<{ label: string; points: number; type?: string; time?:
                     </span>
                 </div>
             </div>
+
+            {children}
             
             {showUpload && (
                 <div className="mt-4 p-4 bg-slate-50 dark:bg-dark-900/50 rounded-xl border border-slate-200 dark:border-white/10 animate-fade-in-up">
@@ -129,7 +137,234 @@ const EventRow: React.FC<{ label: string; points: number; type?: string; time?:
     );
 };
 
-const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose }) => {
+// Speed against the limit across one speeding episode
+const EpisodeChart: React.FC<{ episode: SpeedingEpisode }> = ({ episode }) => {
+    const { trace, durationMs } = episode;
+    if (trace.length < 2 || durationMs <= 0) return null;
+
+    const width = 240, height = 48;
+    const values = trace.flatMap(p => [p.speed, p.limit]);
+    const low = Math.min(...values) - 5;
+    const high = Math.max(...values) + 5;
+    const x = (t: number) => (t / durationMs) * width;
+    const y = (speed: number) => height - ((speed - low) / (high - low)) * height;
+    const speedLine = trace.map(p => `${x(p.t).toFixed(1)},${y(p.speed).toFixed(1)}`).join(' ');
+    // Limits change in steps, not gradually
+    const limitLine = trace.map((p, i) => {
+        const prev = trace[i - 1];
+        const step = prev && prev.limit !== p.limit ? `${x(p.t).toFixed(1)},${y(prev.limit).toFixed(1)} ` : '';
+        return `${step}${x(p.t).toFixed(1)},${y(p.limit).toFixed(1)}`;
+    }).join(' ');
+
+    return (
+        <div className="mt-3">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-12" preserveAspectRatio="none">
+                <polyline points={limitLine} fill="none" strokeWidth="1.5" strokeDasharray="4 3" className="stroke-slate-400" vectorEffect="non-scaling-stroke" />
+                <polyline points={speedLine} fill="none" strokeWidth="2" className="stroke-red-500" vectorEffect="non-scaling-stroke" />
+            </svg>
+            <div className="flex justify-between text-[9px] font-bold uppercase tracking-wide text-slate-400 mt-1">
+                <span><span className="text-red-500">—</span> Speed · <span>- -</span> Limit</span>
+                <span>{Math.round(durationMs / 1000)}s</span>
+            </div>
+        </div>
+    );
+};
+
+const episodeDetail = (event: DrivingEvent) => {
+    const episode = event.episode!;
+    const summary = `Peak +${Math.round(episode.peakOverSpeed)} · avg +${Math.round(episode.meanOverSpeed)} km/h`;
+    return event.speedLimitReason ? `${summary} · ${event.speedLimitReason}` : summary;
+};
+
+const curveDetail = (event: DrivingEvent) => `Bend radius ${event.curve!.radiusM} m · comfortable at ${event.curve!.advisorySpeed} km/h`;
+
+const formatEventTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit', second:'2-digit'});
+
+const HANDLING_LABELS: Partial<Record<DrivingEvent['type'], string>> = {
+    HARSH_BRAKING: 'Harsh braking',
+    HARSH_ACCELERATION: 'Harsh acceleration',
+    UNSAFE_CORNERING: 'Unsafe cornering',
+    SHARP_TURN: 'Sharp turns',
+    AGGRESSIVE_LANE_CHANGE: 'Lane changes',
+    CURVE_SPEEDING: 'Fast into bends'
+};
+
+const SEVERITY_ORDER: SeverityLevel[] = ['MINOR', 'MODERATE', 'SEVERE', 'CRITICAL'];
+
+// One line per handling event type, with a per-severity split so a single violent lane change
+// reads differently from several brisk ones
+const HandlingBreakdown: React.FC<{ events: DrivingEvent[] }> = ({ events }) => {
+    const rows = (Object.keys(HANDLING_LABELS) as DrivingEvent['type'][])
+        .map(type => ({ type, matching: events.filter(e => e.type === type) }))
+        .filter(row => row.matching.length > 0);
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="-mt-2 mb-4 space-y-1.5">
+            {rows.map(({ type, matching }) => (
+                <div key={type} className="flex items-center justify-between text-[11px]">
+                    <span className="font-bold text-slate-600 dark:text-slate-300">{HANDLING_LABELS[type]} <span className="text-slate-400">×{matching.length}</span></span>
+                    <div className="flex space-x-1">
+                        {SEVERITY_ORDER.map(level => {
+                            const count = matching.filter(e => e.severityLevel === level).length;
+                            return count > 0 && (
+                                <span key={level} className="text-[8px] px-1.5 py-0.5 rounded font-black uppercase text-slate-500 bg-slate-200 dark:bg-slate-700 dark:text-slate-300">
+                                    {count} {level}
+                                </span>
+                            );
+                        })}
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const POSITIVE_LABELS: Partial<Record<DrivingEvent['type'], string>> = {
+    SMOOTH_BRAKING: 'Smooth stops',
+    SMOOTH_LAUNCH: 'Smooth launches',
+    STEADY_CRUISING: 'Steady cruising',
+    REST_BREAK: 'Rest breaks',
+    CLEAN_STOP: 'Full stops',
+    SAFE_DISTANCE: 'Safe driving bonus'
+};
+
+const PositiveHighlights: React.FC<{ events: DrivingEvent[] }> = ({ events }) => {
+    const rows = (Object.keys(POSITIVE_LABELS) as DrivingEvent['type'][])
+        .map(type => {
+            const matching = events.filter(e => e.type === type);
+            return { type, count: matching.length, points: matching.reduce((acc, e) => acc + e.points, 0) };
+        })
+        .filter(row => row.count > 0);
+    if (rows.length === 0) return null;
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2 px-1">What You Did Right</h3>
+            <div className="grid grid-cols-2 gap-3">
+                {rows.map(({ type, count, points }) => (
+                    <div key={type} className="p-4 bg-green-50 dark:bg-green-500/10 rounded-2xl border border-green-100 dark:border-green-500/20">
+                        <div className="flex items-center justify-between">
+                            <StarIcon className="w-4 h-4 text-green-500" />
+                            <span className="text-xs font-black text-green-600 dark:text-green-400">+{points}</span>
+                        </div>
+                        <p className="text-2xl font-black text-slate-900 dark:text-white font-display mt-2">{count}</p>
+                        <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wide">{POSITIVE_LABELS[type]}</p>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const INTERSECTION_LABELS: Record<IntersectionPassage['kind'], string> = {
+    stop: 'Stop signs',
+    give_way: 'Give way',
+    traffic_signals: 'Traffic signals'
+};
+
+// Counts per kind of controlled intersection. Only stop signs are scored; for the others the
+// stops are shown for context.
+const IntersectionSummary: React.FC<{ passages?: IntersectionPassage[] }> = ({ passages }) => {
+    if (!passages || passages.length === 0) return null;
+    const rows = (Object.keys(INTERSECTION_LABELS) as IntersectionPassage['kind'][])
+        .map(kind => ({ kind, matching: passages.filter(p => p.kind === kind) }))
+        .filter(row => row.matching.length > 0);
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2 px-1">Intersections</h3>
+            <div className="p-4 bg-slate-50 dark:bg-white/5 rounded-3xl border border-slate-100 dark:border-white/5 space-y-1.5">
+                {rows.map(({ kind, matching }) => {
+                    const stopped = matching.filter(p => p.kind === 'stop' ? p.outcome === 'stopped' : p.stoppedMs > 0).length;
+                    return (
+                        <div key={kind} className="flex items-center justify-between text-[11px]">
+                            <span className="font-bold text-slate-600 dark:text-slate-300">{INTERSECTION_LABELS[kind]} <span className="text-slate-400">×{matching.length}</span></span>
+                            <span className="text-slate-400">{stopped} stopped</span>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+// Each stretch between pauses on its own; only shown when the trip was paused at all
+const SegmentBreakdown: React.FC<{ segments?: TripSegment[]; events: DrivingEvent[] }> = ({ segments, events }) => {
+    if (!segments || segments.length < 2) return null;
+    const timeOf = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="space-y-2">
+            <h3 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2 px-1">Segments</h3>
+            <div className="p-4 bg-slate-50 dark:bg-white/5 rounded-3xl border border-slate-100 dark:border-white/5 space-y-3">
+                {segments.map((segment, i) => {
+                    const seconds = (segment.endTime - segment.startTime) / 1000;
+                    const averageSpeed = seconds > 0 ? segment.distance / (seconds / 3600) : 0;
+                    const issues = events.filter(e => e.points < 0 && !e.disputed && e.timestamp >= segment.startTime && e.timestamp <= segment.endTime).length;
+                    return (
+                        <div key={segment.startTime} className="text-[11px]">
+                            <div className="flex items-center justify-between">
+                                <span className="font-bold text-slate-600 dark:text-slate-300">Segment {i + 1} <span className="text-slate-400">{timeOf(segment.startTime)}–{timeOf(segment.endTime)}</span></span>
+                                <span className={issues > 0 ? 'font-bold text-orange-500' : 'text-slate-400'}>{issues} {issues === 1 ? 'issue' : 'issues'}</span>
+                            </div>
+                            <p className="text-slate-400">
+                                {formatDistance(segment.distance)} km · {formatDuration(seconds)} · avg {averageSpeed.toFixed(0)} km/h · max {segment.maxSpeed.toFixed(0)} km/h
+                            </p>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const CLASSIFICATION_LABELS: Record<Trip['validity'], string> = {
+    VALID: 'Driven trip',
+    INVALID_TRAIN: 'Train journey',
+    INVALID_BUS: 'Bus journey',
+    INVALID_PASSENGER: 'Passenger trip',
+    INVALID_HANDHELD: 'Handheld phone use'
+};
+
+// What the classifier decided and why, with the way to contest it
+const ClassificationCard: React.FC<{ trip: Trip; onContest?: () => void }> = ({ trip, onContest }) => {
+    const classification = trip.classification;
+    if (!classification) return null;
+    const label = trip.modeOfTransport === 'walk' ? 'Walk' : CLASSIFICATION_LABELS[trip.validity];
+    const isContestable = !classification.contest && CONTESTABLE_VALIDITIES.includes(trip.validity);
+    const isDoubtful = classification.confidence < TRIP_CLASSIFIER_CONFIG.CONTEST_ACCEPT_BELOW;
+
+    return (
+        <div className="bg-slate-50 dark:bg-white/5 rounded-3xl p-5 border border-slate-100 dark:border-white/5">
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="text-xs font-black uppercase tracking-widest text-slate-400">Detected As</h3>
+                <span className="text-[10px] font-bold text-slate-400">{Math.round(classification.confidence * 100)}% sure</span>
+            </div>
+            <p className="text-lg font-black text-slate-900 dark:text-white font-display">{label}</p>
+            <ul className="mt-2 space-y-1">
+                {classification.reasons.map(reason => (
+                    <li key={reason} className="text-xs text-slate-500 dark:text-slate-400">• {reason}</li>
+                ))}
+            </ul>
+            {classification.contest === 'reinstated' && (
+                <p className="mt-3 text-xs font-bold text-green-600 dark:text-green-400">
+                    {trip.validity === 'VALID' ? 'Contest accepted: counted as a driven trip.' : 'Contest accepted, but repeated handheld phone use still rules the trip out.'}
+                </p>
+            )}
+            {isContestable && !isDoubtful && (
+                <p className="mt-3 text-xs text-slate-400">The evidence is too clear for this call to be contested.</p>
+            )}
+            {onContest && isContestable && isDoubtful && (
+                <button onClick={onContest} className="mt-4 w-full py-3 bg-white dark:bg-white/10 border border-slate-200 dark:border-transparent rounded-xl font-bold text-slate-900 dark:text-white text-xs">
+                    Not right? I was driving
+                </button>
+            )}
+        </div>
+    );
+};
+
+const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose, onReview, onContest }) => {
     const totalEventPoints = trip.events.reduce((acc, e) => acc + e.points, 0);
     const baseDistancePoints = trip.points - totalEventPoints;
 
@@ -137,8 +372,9 @@ const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose }) => {
     const [notes, setNotes] = useState(trip.notes || '');
     const [isSavingLog, setIsSavingLog] = useState(false);
 
-    // Calculate Grade
-    const score = trip.complianceScore;
+    // Calculate Grade (overall and sub-scores come from the same model, so they always agree)
+    const scores = tripScores(trip);
+    const score = scores.overall;
     let grade = 'F';
     let gradeColor = 'text-red-500';
     let gradeGradient = 'from-red-500 to-orange-600';
@@ -148,12 +384,6 @@ const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose }) => {
     else if (score >= 80) { grade = 'B'; gradeColor = 'text-yellow-400'; gradeGradient = 'from-yellow-400 to-orange-500'; }
     else if (score >= 70) { grade = 'C'; gradeColor = 'text-orange-400'; gradeGradient = 'from-orange-400 to-red-500'; }
 
-    const speedEvents = trip.events.filter(e => e.type.includes('SPEED')).length;
-    const handlingEvents = trip.events.filter(e => e.type.includes('TURN') || e.type.includes('ACCEL') || e.type.includes('BRAKE') || e.type.includes('CORNERING') || e.type.includes('LANE')).length;
-    
-    const speedScore = Math.max(0, 100 - (speedEvents * 10));
-    const handlingScore = Math.max(0, 100 - (handlingEvents * 10));
-    const focusScore = Math.max(0, 100 - (trip.events.filter(e => e.type.includes('PHONE')).length * 20));
 
     const handleSaveClassification = async () => {
         if (!auth.currentUser) return;
@@ -229,7 +459,21 @@ const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose }) => {
 
                 {/* Scrollable Content */}
                 <div className="flex-1 overflow-y-auto p-6 space-y-8 bg-white dark:bg-dark-900">
+
+                    {/* Auto-Recorded Review */}
+                    {trip.autoRecorded && !trip.reviewed && onReview && (
+                        <div className="bg-amber-50 dark:bg-amber-500/10 rounded-3xl p-5 border border-amber-200 dark:border-amber-500/20">
+                            <h3 className="text-xs font-black uppercase tracking-widest text-amber-600 dark:text-amber-400 mb-1">Recorded Automatically</h3>
+                            <p className="text-sm text-slate-600 dark:text-slate-300 mb-4">Were you driving? Keep this trip to earn its points, or discard it if you were a passenger or it wasn&apos;t a drive.</p>
+                            <div className="flex space-x-2">
+                                <button onClick={() => onReview(false)} className="flex-1 py-3 bg-white dark:bg-white/10 border border-slate-200 dark:border-transparent rounded-xl font-bold text-slate-900 dark:text-white text-xs">Discard</button>
+                                <button onClick={() => onReview(true)} className="flex-1 py-3 bg-green-500 text-white font-bold rounded-xl text-xs shadow-lg">Keep Trip</button>
+                            </div>
+                        </div>
+                    )}
                     
+                    <ClassificationCard trip={trip} onContest={onContest} />
+
                     {/* Logbook Classification */}
                     <div className="bg-slate-50 dark:bg-white/5 rounded-3xl p-5 border border-slate-100 dark:border-white/5">
                         <div className="flex justify-between items-center mb-4">
@@ -289,16 +533,32 @@ const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose }) => {
                         </div>
                     </div>
 
+                    {trip.recordingGaps && (
+                        <p className="-mt-4 text-[10px] font-bold uppercase tracking-wide text-amber-500 text-center">
+                            Recording interrupted {trip.recordingGaps.length === 1 ? 'once' : `${trip.recordingGaps.length} times`} · {Math.round(trip.recordingGaps.reduce((sum, g) => sum + g.to - g.from, 0) / 60000)} min not recorded
+                        </p>
+                    )}
+
                     {/* Analysis Bars */}
                     <div className="space-y-2">
                         <h3 className="text-xs font-black uppercase tracking-widest text-slate-400 mb-2 px-1">Driving Analysis</h3>
                         <div className="p-6 bg-slate-50 dark:bg-dark-800 rounded-3xl border border-slate-100 dark:border-white/5 shadow-inner">
-                            <ProgressBar label="Speed Control" percent={speedScore} color="bg-brand-cyan" delay={100} />
-                            <ProgressBar label="Smooth Handling" percent={handlingScore} color="bg-purple-500" delay={300} />
-                            <ProgressBar label="Focus & Stability" percent={focusScore} color="bg-green-500" delay={500} />
+                            <ProgressBar label="Speed Control" percent={scores.speed} color="bg-brand-cyan" delay={100} />
+                            <ProgressBar label="Smooth Handling" percent={scores.handling} color="bg-purple-500" delay={300} />
+                            <HandlingBreakdown events={trip.events} />
+                            <ProgressBar label="Focus & Stability" percent={scores.focus} color="bg-green-500" delay={500} />
+                            <p className="text-[10px] font-bold uppercase tracking-wide text-slate-400 text-center">
+                                {scores.eventsPer100Km.toFixed(1)} events / 100 km · {scores.eventsPerHour.toFixed(1)} / hour
+                            </p>
                         </div>
                     </div>
 
+                    <PositiveHighlights events={trip.events} />
+
+                    <IntersectionSummary passages={trip.intersections} />
+
+                    <SegmentBreakdown segments={trip.segments} events={trip.events} />
+
                     {/* Points Breakdown */}
                     <div>
                         <div className="flex items-center justify-between mb-4 px-1">
@@ -326,11 +586,14 @@ const TripDetailModal: React.FC<TripDetailModalProps> = ({ trip, onClose }) => {
                                         key={`${event.timestamp}-${idx}`}
                                         label={event.description || event.type.replace(/_/g, ' ')}
                                         points={event.points}
-                                        time={new Date(event.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit', second:'2-digit'})}
+                                        time={event.episode ? `${formatEventTime(event.episode.startTime)} – ${formatEventTime(event.episode.endTime)}` : formatEventTime(event.timestamp)}
+                                        detail={event.episode ? episodeDetail(event) : event.curve ? curveDetail(event) : event.speedLimitReason}
                                         disputed={event.disputed}
                                         severityLevel={event.severityLevel}
                                         onDispute={(file) => handleDisputeSubmit(event, file)}
-                                    />
+                                    >
+                                        {event.episode && <EpisodeChart episode={event.episode} />}
+                                    </EventRow>
                                 ))
                             ) : (
                                 baseDistancePoints <= 0 && (
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from 'react';
+import type { AutoTripSettings, GeolocationData, DeviceMotionData } from '../types';
+import { AutoTripDetector } from '../utils/autoTripDetector';
+import { clock } from '../utils/clock';
+
+interface UseAutoTripDetectionProps {
+    settings: AutoTripSettings;
+    isIdle: boolean; // Home screen is not in the middle of a search or a manual trip
+    isTripActive: boolean;
+    isAutoTrip: boolean; // Only trips this hook started are ended by it
+    location: GeolocationData | null;
+    motion: DeviceMotionData | null;
+    startTracking: () => void;
+    stopTracking: () => void;
+    onAutoStart: (startedAt: number) => void; // When the driving-like movement began
+    onAutoStop: (stoppedAt: number) => void;
+}
+
+export const useAutoTripDetection = ({ settings, isIdle, isTripActive, isAutoTrip, location, motion, startTracking, stopTracking, onAutoStart, onAutoStop }: UseAutoTripDetectionProps) => {
+    const detectorRef = useRef(new AutoTripDetector(settings.startAfterSeconds * 1000, settings.stopAfterSeconds * 1000));
+    const isWatching = settings.enabled && isIdle && !isTripActive;
+    const isTripActiveRef = useRef(isTripActive);
+    isTripActiveRef.current = isTripActive;
+
+    useEffect(() => {
+        detectorRef.current.configure(settings.startAfterSeconds * 1000, settings.stopAfterSeconds * 1000);
+    }, [settings.startAfterSeconds, settings.stopAfterSeconds]);
+
+    // Keep the location watch running between trips so movement can be noticed at all
+    useEffect(() => {
+        if (!isWatching) return;
+        detectorRef.current.reset();
+        startTracking();
+        return () => {
+            // Trip start keeps the same watch alive; only stand down when auto mode is switched off
+            if (!isTripActiveRef.current) stopTracking();
+        };
+    }, [isWatching]);
+
+    useEffect(() => {
+        if (motion && settings.enabled) detectorRef.current.addMotion(motion);
+    }, [motion, settings.enabled]);
+
+    useEffect(() => {
+        if (!settings.enabled || !location || location.isEstimated) return;
+        if (!isWatching && !isAutoTrip) return;
+
+        const signal = detectorRef.current.update(location.speed || 0, isTripActive, clock.now());
+        if (signal?.type === 'start' && isWatching) onAutoStart(signal.since);
+        else if (signal?.type === 'stop' && isAutoTrip) onAutoStop(signal.since);
+    }, [location]);
+};
@@ -1,170 +1,284 @@
-
 import { useState, useEffect, useRef } from 'react';
-import type { GeolocationData, DeviceMotionData, DrivingEvent, SetupMode, DeviceOrientationData, WeatherCondition, SeverityLevel } from '../types';
-import { fetchRoadData } from '../utils/osm';
-import { MovingAverage } from '../utils/smoothing';
-import { NAV_CONFIG, VIOLATION_CONFIG } from '../utils/config';
+import type { LatLng, GeolocationData, DeviceMotionData, DrivingEvent, SetupMode, DeviceOrientationData, WeatherCondition, SeverityLevel, IntersectionPassage } from '../types';
+import { RoadData, fetchRoadData, lookupCachedRoad, prefetchRouteCorridor } from '../utils/osm';
+import { fetchLocalWeather } from '../utils/weather';
+import { calculateDistance } from '../utils/helpers';
+import { clock } from '../utils/clock';
+import { VIOLATION_CONFIG } from '../utils/config';
+import { VehicleFrameAligner, VehicleFrameCalibration, calibrationKey } from '../utils/vehicleFrame';
+import { DrivingEventEngine, SensorInput } from '../utils/drivingEventEngine';
+import { createDefaultDetectors, weatherAdjustedLimit, StopSignDetector, FatigueDetector } from '../utils/detectors';
+import { useLocalStorage } from './useLocalStorage';
+import { useRegionProfile } from './useRegionProfile';
+import { isSchoolZoneInForce } from '../utils/regions';
 
 interface UseDrivingAnalyticsProps {
     location: GeolocationData | null;
     motion: DeviceMotionData | null;
     orientation: DeviceOrientationData | null;
     isTripActive: boolean;
+    isPaused?: boolean; // Trip paused by the user: nothing is sampled or scored until it resumes
     setupMode: SetupMode | null;
-    baseOrientation: DeviceOrientationData | null; 
+    baseOrientation: DeviceOrientationData | null;
     isSignalLost?: boolean; // Injected from useGeolocation
+    vehicleId?: string | null; // Selects the stored phone-to-vehicle alignment
+    route?: LatLng[] | null; // Planned route; its road tiles are fetched up front and its bends judged
+    onEvent?: (event: DrivingEvent) => void; // Called for every event, even several raised by one sample
 }
 
-export const useDrivingAnalytics = ({ location, motion, orientation, isTripActive, setupMode, isSignalLost = false }: UseDrivingAnalyticsProps) => {
+const isSpeedingEvent = (event: DrivingEvent) => event.type === 'SPEEDING' || event.type === 'SCHOOL_ZONE_SPEEDING';
+
+const warningFor = (event: DrivingEvent): string | null => {
+    if (event.type === 'FATIGUE_RISK') return `☕ ${event.description}`;
+    if (event.points >= 0) return null;
+    if (isSpeedingEvent(event)) return `⚠️ Speeding ${Math.round((event.speed || 0) - (event.roadSpeedLimit || 0))}km/h over for ${Math.round((event.episode?.durationMs || 0) / 1000)}s`;
+    if (event.type === 'PHONE_TOUCH') return `⚠️ Distraction (${event.points} pts)`;
+    return event.description || null;
+};
+
+// React adapter around DrivingEventEngine: turns hook inputs into timestamped samples, and the
+// events that come back into HUD state. All detection rules live in utils/detectors.
+export const useDrivingAnalytics = ({ location, motion, orientation, isTripActive, isPaused = false, setupMode, baseOrientation, isSignalLost = false, vehicleId = null, route = null, onEvent }: UseDrivingAnalyticsProps) => {
     const [points, setPoints] = useState(0); // This is DELTA points to apply (usually negative)
     const [demerits, setDemerits] = useState(0);
     const [warnings, setWarnings] = useState<{message: string, severity: SeverityLevel}[]>([]);
     const [lastEvent, setLastEvent] = useState<DrivingEvent | null>(null);
     const [speedLimit, setSpeedLimit] = useState<number | null>(null);
     const [isPassenger, setIsPassenger] = useState(false);
-    
+
     // Context States
     const [weather, setWeather] = useState<WeatherCondition>('unknown');
+    const [weatherSpeedLimit, setWeatherSpeedLimit] = useState<number | null>(null); // Set only while conditions tighten the limit
     const [isSchoolZone, setIsSchoolZone] = useState(false);
     const [activeSchoolTime, setActiveSchoolTime] = useState(false);
-
-    // Logic States
-    const isVehicleStoppedRef = useRef(true); 
-    const stopTimerRef = useRef<number | null>(null);
     const [driverConfidence, setDriverConfidence] = useState(0.5);
-    
-    const lastWarningTimeRef = useRef(0);
-    const lastRewardTimeRef = useRef(0);
-    
-    // OVERSPEED STATE MACHINE
-    const speedingStartTimeRef = useRef<number | null>(null);
-    const isSpeedingEventActiveRef = useRef(false);
-    const lastSpeedingPenaltyTimeRef = useRef<number>(0);
-    
+    const [pendingCrash, setPendingCrash] = useState<DrivingEvent | null>(null); // Awaiting the driver's "I'm OK"
+    const [fatigueRisk, setFatigueRisk] = useState<SeverityLevel | null>(null); // Latest reminder level until a break
+
+    const engineRef = useRef(new DrivingEventEngine(createDefaultDetectors()));
+    const isRecording = isTripActive && !isPaused;
+    const onEventRef = useRef(onEvent);
+    onEventRef.current = onEvent;
+    const region = useRegionProfile(location);
+    const regionRef = useRef(region);
+    regionRef.current = region;
+    const weatherRef = useRef(weather);
+    weatherRef.current = weather;
+
     // API Throttling
-    const lastOsmCallTimeRef = useRef(0);
-    const lastApiCoordsRef = useRef<{lat: number, lng: number} | null>(null);
-    
-    // Smoothers
-    const accelXRef = useRef(new MovingAverage(10));
-    const accelYRef = useRef(new MovingAverage(10));
-    const accelZRef = useRef(new MovingAverage(10));
-    
+    const roadFetchPendingRef = useRef(false);
+    const lastRoadKeyRef = useRef<string | null>(null);
+    const lastWeatherFetchRef = useRef<{ time: number, latitude: number, longitude: number } | null>(null);
+    // Bumped whenever a trip starts or ends, so a fetch that outlives its trip is dropped on arrival
+    const tripGenerationRef = useRef(0);
+
+    // Phone-to-vehicle alignment, remembered per vehicle + mount
+    const alignerRef = useRef(new VehicleFrameAligner());
+    const frameKeyRef = useRef<string | null>(null);
+    const [frameCalibrations, setFrameCalibrations] = useLocalStorage<Record<string, VehicleFrameCalibration>>('vehicle-frame-calibrations', {});
+
+    const dispatch = (input: SensorInput) => {
+        const events = engineRef.current.process(input);
+        const state = engineRef.current.getState();
+        setSpeedLimit(state.speedLimit);
+        setWeatherSpeedLimit(weatherAdjustedLimit(state.speedLimit, state.weather));
+
+        // A crash is held back until the driver fails to answer; see confirmCrash / dismissCrash
+        const crash = events.find(e => e.type === 'CRASH');
+        if (crash) setPendingCrash(prev => prev ?? crash);
+
+        const recorded = events.filter(e => e.type !== 'CRASH');
+        if (recorded.length === 0) return;
+
+        let delta = 0;
+        for (const event of recorded) {
+            delta += event.points;
+            if (isSpeedingEvent(event)) setDemerits(prev => prev + Math.abs(event.points));
+            if (event.type === 'PHONE_TOUCH') setDriverConfidence(prev => Math.max(0, prev - 0.25));
+            if (event.type === 'FATIGUE_RISK') setFatigueRisk(event.severityLevel || 'MODERATE');
+            if (event.type === 'REST_BREAK') setFatigueRisk(null);
+
+            const message = warningFor(event);
+            if (message) setWarnings(prev => [...prev.slice(-2), { message, severity: event.severityLevel || 'MINOR' }]);
+            onEventRef.current?.(event);
+        }
+        setLastEvent(recorded[recorded.length - 1]);
+        setPoints(delta);
+
+        if ('vibrate' in navigator) {
+            if (recorded.some(e => e.type === 'PHONE_TOUCH')) navigator.vibrate([100, 50, 100]);
+            else if (recorded.some(isSpeedingEvent)) navigator.vibrate(200);
+        }
+    };
+
+    const confirmCrash = () => {
+        if (!pendingCrash) return;
+        setLastEvent(pendingCrash);
+        onEventRef.current?.(pendingCrash);
+        setPendingCrash(null);
+    };
+
+    const dismissCrash = () => setPendingCrash(null);
+
+    // For the trip's owner to call as it stops: closes anything still open (a speeding episode
+    // the driver was in when they ended the trip). Returned rather than sent through onEvent,
+    // which would land after the trip has been saved.
+    const flushEvents = (): DrivingEvent[] => engineRef.current.flush();
+
+    // Stop signs, give-way signs and signals passed this trip, for the saved trip. Read it as
+    // the trip stops, like flushEvents, before the engine is reset.
+    const getIntersections = (): IntersectionPassage[] =>
+        [...(engineRef.current.getDetector<StopSignDetector>('stop-sign')?.getPassages() ?? [])];
+
+    // For the trip's owner to call on resume: nothing is sampled while paused, so fatigue tracking
+    // is told how long the pause lasted and may take it as a rest
+    const recordPause = (from: number, to: number) => {
+        if (engineRef.current.getDetector<FatigueDetector>('fatigue')?.recordPause(from, to)) setFatigueRisk(null);
+    };
+
+    // Road context only reaches the engine when something about it changed
+    const applyRoad = (data: RoadData) => {
+        const at = clock.now();
+        const isTime = isSchoolZoneInForce(regionRef.current, at);
+        const key = `${data.maxSpeed}|${data.speedLimitReason}|${data.isSchoolZone}|${isTime}|${data.controls.map(c => c.id).join(',')}`;
+        if (key === lastRoadKeyRef.current) return;
+        lastRoadKeyRef.current = key;
+        setIsSchoolZone(data.isSchoolZone);
+        setActiveSchoolTime(isTime);
+        dispatch({
+            type: 'road',
+            timestamp: at,
+            road: {
+                speedLimit: data.maxSpeed,
+                isSchoolZone: data.isSchoolZone,
+                isSchoolZoneActive: data.isSchoolZone && isTime,
+                limitReason: data.speedLimitReason,
+                controls: data.controls
+            }
+        });
+    };
+
     // Reset state
     useEffect(() => {
+        tripGenerationRef.current++;
         if (!isTripActive) {
+            // Persist what this trip learned before the next one starts from scratch
+            const calibration = alignerRef.current.getCalibration();
+            const key = frameKeyRef.current;
+            if (calibration && key) setFrameCalibrations(prev => ({ ...prev, [key]: calibration }));
+            frameKeyRef.current = null;
+
             setIsPassenger(false);
-            isVehicleStoppedRef.current = true;
-            stopTimerRef.current = Date.now();
             setWeather('unknown');
+            setWeatherSpeedLimit(null);
+            lastWeatherFetchRef.current = null;
             setIsSchoolZone(false);
-            speedingStartTimeRef.current = null;
-            isSpeedingEventActiveRef.current = false;
             setDriverConfidence(0.5);
+            setPendingCrash(null);
+            setFatigueRisk(null);
+            lastRoadKeyRef.current = null;
+            engineRef.current.reset(null);
         } else {
             let confidence = 0.5;
-            if (setupMode === 'mount') confidence += 0.3; 
+            if (setupMode === 'mount') confidence += 0.3;
             if (setupMode === 'passenger') confidence = 0.1;
             setDriverConfidence(confidence);
             setIsPassenger(setupMode === 'passenger');
+            engineRef.current.reset(setupMode);
+
+            const key = calibrationKey(vehicleId, setupMode);
+            frameKeyRef.current = key;
+            alignerRef.current.reset();
+            if (frameCalibrations[key]) alignerRef.current.load(frameCalibrations[key]);
+            alignerRef.current.seedOrientation(baseOrientation);
         }
     }, [isTripActive, setupMode]);
 
-    // --- ZERO-SPEED SAFE MODE LOGIC ---
-    // Rule: Speed must be < 1.5 km/h for 4 seconds to be "Safe".
-    // Exit Safe Mode only when Speed > 5 km/h (Hysteresis to prevent flicking at traffic lights).
     useEffect(() => {
-        if (!isTripActive || !location) return;
+        engineRef.current.setSignalLost(isSignalLost);
+    }, [isSignalLost]);
 
-        const speed = location.speed || 0;
-        const now = Date.now();
+    useEffect(() => {
+        engineRef.current.setRegion(region);
+    }, [region]);
 
-        if (isVehicleStoppedRef.current) {
-            // Logic to EXIT stopped state
-            if (speed > SAFE_RESUME_SPEED_THRESHOLD) {
-                isVehicleStoppedRef.current = false;
-                stopTimerRef.current = null;
-            }
-        } else {
-            // Logic to ENTER stopped state
-            if (speed < SAFE_STOP_SPEED_THRESHOLD) {
-                if (!stopTimerRef.current) {
-                    stopTimerRef.current = now;
-                } else if (now - stopTimerRef.current > VIOLATION_CONFIG.SAFE_STOP.DURATION_MS) {
-                    isVehicleStoppedRef.current = true;
-                }
-            } else {
-                stopTimerRef.current = null;
-            }
+    // Fetch the whole corridor while there's signal, rather than a road at a time on the way.
+    // Runs after the reset above, so a new trip starts with the route it is navigating.
+    useEffect(() => {
+        if (!isTripActive) return;
+        dispatch({ type: 'route', timestamp: clock.now(), route });
+        if (!route || route.length < 2) return;
+        prefetchRouteCorridor(route).catch(error => console.warn('Route corridor prefetch failed', error));
+    }, [isTripActive, route]);
+
+    // --- VEHICLE FRAME ALIGNMENT ---
+    // Every motion sample is rotated into forward/right/up before any G-force rule sees it.
+    useEffect(() => {
+        setPoints(0);
+        if (!isRecording || !motion) return;
+        const aligned = alignerRef.current.addMotion(motion);
+        if (aligned) dispatch({ type: 'motion', timestamp: clock.now(), motion: aligned });
+    }, [motion, isRecording]);
+
+    useEffect(() => {
+        if (isTripActive) alignerRef.current.seedOrientation(orientation);
+    }, [orientation, isTripActive]);
+
+    // --- LOCATION + ROAD / WEATHER CONTEXT ---
+    useEffect(() => {
+        setPoints(0); // Reset points delta each tick to avoid infinite accumulation loop
+        if (!isRecording || !location) return;
+        const now = clock.now();
+        const generation = tripGenerationRef.current;
+        const isCurrentTrip = () => tripGenerationRef.current === generation;
+
+        // Dead-reckoned speed is itself derived from the accelerometer, so it can't teach the axis
+        if (!location.isEstimated) alignerRef.current.addSpeed(location.speed || 0, location.heading, now);
+
+        // Resolved locally on every fix; the network is only involved when the cells around us
+        // aren't cached yet (free drive, or off the planned route)
+        const roadOptions = { region: regionRef.current, heading: location.heading, at: now, weather: weatherRef.current };
+        const cachedRoad = lookupCachedRoad(location.latitude, location.longitude, roadOptions);
+        if (cachedRoad) {
+            applyRoad(cachedRoad);
+        } else if (!roadFetchPendingRef.current) {
+            roadFetchPendingRef.current = true;
+            fetchRoadData(location.latitude, location.longitude, roadOptions)
+                .then(road => { if (isCurrentTrip()) applyRoad(road); })
+                .finally(() => { roadFetchPendingRef.current = false; });
+        }
+
+        const lastWeather = lastWeatherFetchRef.current;
+        const shouldFetchWeather = !lastWeather ||
+            now - lastWeather.time > VIOLATION_CONFIG.WEATHER.FETCH_INTERVAL_MS ||
+            calculateDistance(lastWeather, location) > VIOLATION_CONFIG.WEATHER.REFETCH_DISTANCE_M;
+        if (shouldFetchWeather) {
+            lastWeatherFetchRef.current = { time: now, latitude: location.latitude, longitude: location.longitude };
+            fetchLocalWeather(location.latitude, location.longitude).then(condition => {
+                if (!isCurrentTrip()) return;
+                setWeather(condition);
+                dispatch({ type: 'weather', timestamp: clock.now(), weather: condition });
+            });
         }
-    }, [location, isTripActive]);
 
-    const SAFE_STOP_SPEED_THRESHOLD = VIOLATION_CONFIG.SAFE_STOP.SPEED_THRESHOLD;
-    const SAFE_RESUME_SPEED_THRESHOLD = 5.0;
+        dispatch({ type: 'location', timestamp: now, location });
+    }, [location, isRecording]);
 
     // --- PHONE INTERACTION MONITORING ---
+    // Only the DOM-level safe harbour is decided here; speed, stop and debounce rules are the engine's.
     useEffect(() => {
-        if (!isTripActive || setupMode === 'passenger') return;
+        if (!isRecording || setupMode === 'passenger') return;
 
         const handleInteraction = (e: Event) => {
-            // 1. Safe Harbor: Vehicle is confirmed stopped
-            if (isVehicleStoppedRef.current) return;
-
-            // 2. Safe Harbor: Explicit safe zones (UI buttons)
             const target = e.target as HTMLElement;
-            if (target && (target.closest('[data-safe="true"]') || target.closest('.gm-style') || target.tagName === 'CANVAS')) {
+            if (target && typeof target.closest === 'function' && (target.closest('[data-safe="true"]') || target.closest('.gm-style') || target.tagName === 'CANVAS')) {
                 return;
             }
 
-            // 3. Penalty Logic
-            let isViolation = false;
-            let description = '';
-
-            // Handle Backgrounding
             if (e.type === 'visibilitychange') {
-                if (document.hidden) {
-                    // CRITICAL FIX: Only penalize backgrounding if speed > 0 AND Signal is NOT Lost.
-                    // This prevents penalties during tunnels/GPS loss where speed might freeze.
-                    const currentSpeed = location?.speed || 0;
-                    if (currentSpeed > 5 && !isSignalLost) { 
-                        isViolation = true;
-                        description = 'App Backgrounded while Driving';
-                    }
-                }
-            } 
-            // Handle Touches
-            else if (e.type === 'touchstart' || e.type === 'click') {
-                isViolation = true;
-                description = 'Phone Interaction while Driving';
-            }
-
-            if (isViolation) {
-                const now = Date.now();
-                // Debounce slightly
-                if (now - lastWarningTimeRef.current < 2000) return;
-
-                const event: DrivingEvent = { 
-                    type: 'PHONE_TOUCH', 
-                    timestamp: now, 
-                    points: -30, 
-                    severity: 0.8,
-                    severityLevel: 'SEVERE',
-                    value: location?.speed || 0,
-                    description,
-                    lat: location?.latitude,
-                    lng: location?.longitude,
-                    speed: location?.speed || 0
-                };
-                
-                setLastEvent(event);
-                // We don't set Points directly here, we let the hook consumer handle the 'event'
-                // But for compatibility with existing useTrip, we set points state which triggers accumulation
-                setPoints(-30);
-                setWarnings(prev => [...prev.slice(-2), { message: "⚠️ Distraction (-30 pts)", severity: 'SEVERE' }]);
-                setDriverConfidence(prev => Math.max(0, prev - 0.25));
-                lastWarningTimeRef.current = now;
-                
-                if ('vibrate' in navigator) navigator.vibrate([100, 50, 100]);
+                if (document.hidden) dispatch({ type: 'interaction', timestamp: clock.now(), interaction: 'background' });
+            } else {
+                dispatch({ type: 'interaction', timestamp: clock.now(), interaction: 'touch' });
             }
         };
 
@@ -174,160 +288,7 @@ export const useDrivingAnalytics = ({ location, motion, orientation, isTripActiv
             window.removeEventListener('touchstart', handleInteraction);
             document.removeEventListener('visibilitychange', handleInteraction);
         };
-    }, [isTripActive, location, setupMode, isSignalLost]);
-
-    // --- MAIN LOOP (Speeding + G-Force) ---
-    useEffect(() => {
-        setPoints(0); // Reset points delta each tick to avoid infinite accumulation loop
-        
-        if (!isTripActive || !location || !motion) return;
-        
-        const now = Date.now();
-        const rawX = motion.acceleration.x || 0;
-        const rawY = motion.acceleration.y || 0;
-        const rawZ = motion.acceleration.z || 0;
-        
-        const smoothX = accelXRef.current.add(rawX);
-        const smoothY = accelYRef.current.add(rawY);
-        const smoothZ = accelZRef.current.add(rawZ);
-
-        // Fetch Road Data
-        const shouldFetchOsm = !lastApiCoordsRef.current || (now - lastOsmCallTimeRef.current > 30000) || (Math.abs(location.latitude - lastApiCoordsRef.current.lat) > 0.005); 
-        if (shouldFetchOsm) {
-            lastOsmCallTimeRef.current = now;
-            lastApiCoordsRef.current = { lat: location.latitude, lng: location.longitude };
-            fetchRoadData(location.latitude, location.longitude).then(data => {
-                setIsSchoolZone(data.isSchoolZone);
-                // Simple Time Check for School Zone
-                const date = new Date();
-                const h = date.getHours() + (date.getMinutes()/60);
-                const isTime = (date.getDay() >= 1 && date.getDay() <= 5) && ((h >= 8 && h <= 9.5) || (h >= 14.5 && h <= 16));
-                setActiveSchoolTime(isTime);
-                setSpeedLimit(data.isSchoolZone && isTime ? 40 : data.maxSpeed);
-            });
-        }
-
-        // --- SPEEDING LOGIC ---
-        if (!isPassenger && setupMode !== 'passenger') {
-            const currentSpeed = location.speed || 0;
-            const accuracy = location.accuracy;
-
-            // Only enforce if GPS is reliable
-            if (speedLimit && accuracy < NAV_CONFIG.GPS_ACCURACY_THRESHOLD_M) {
-                if (currentSpeed > speedLimit + NAV_CONFIG.SPEED_TOLERANCE_KMH) {
-                    if (!speedingStartTimeRef.current) {
-                        speedingStartTimeRef.current = now;
-                    } 
-                    
-                    const duration = now - speedingStartTimeRef.current;
-                    const overSpeed = currentSpeed - speedLimit;
-
-                    // Trigger penalty if sustained > 3s
-                    if (duration > NAV_CONFIG.SPEED_SUSTAIN_TIME_MS) {
-                        // Check if we need to apply a NEW penalty (Recurring every 5s)
-                        if (!isSpeedingEventActiveRef.current || (now - lastSpeedingPenaltyTimeRef.current > VIOLATION_CONFIG.SPEEDING.RECURRING_PENALTY_SECONDS * 1000)) {
-                            
-                            isSpeedingEventActiveRef.current = true;
-                            lastSpeedingPenaltyTimeRef.current = now;
-
-                            // Determine Severity
-                            let penaltyPoints = VIOLATION_CONFIG.SPEEDING.POINTS.MINOR;
-                            let severityVal = 0.3;
-                            let level: SeverityLevel = 'MINOR';
-
-                            if (overSpeed > VIOLATION_CONFIG.SPEEDING.CRITICAL_THRESHOLD) {
-                                penaltyPoints = VIOLATION_CONFIG.SPEEDING.POINTS.CRITICAL;
-                                level = 'CRITICAL';
-                            } else if (overSpeed > VIOLATION_CONFIG.SPEEDING.SERIOUS_THRESHOLD) {
-                                penaltyPoints = VIOLATION_CONFIG.SPEEDING.POINTS.SERIOUS;
-                                level = 'SEVERE';
-                            } else if (overSpeed > VIOLATION_CONFIG.SPEEDING.MODERATE_THRESHOLD) {
-                                penaltyPoints = VIOLATION_CONFIG.SPEEDING.POINTS.MODERATE;
-                                level = 'MODERATE';
-                            }
-
-                            // Ongoing Penalty (Reduced points for subsequent ticks to avoid draining score too fast)
-                            if (duration > 5000) {
-                                penaltyPoints = VIOLATION_CONFIG.SPEEDING.POINTS.RECURRING;
-                            }
-
-                            if (isSchoolZone && activeSchoolTime) {
-                                penaltyPoints *= 2;
-                                level = 'CRITICAL';
-                            }
-                            
-                            const event: DrivingEvent = { 
-                                type: isSchoolZone ? 'SCHOOL_ZONE_SPEEDING' : 'SPEEDING', 
-                                timestamp: now, 
-                                value: currentSpeed, 
-                                points: penaltyPoints,
-                                severity: severityVal,
-                                severityLevel: level,
-                                description: `Speeding: ${Math.round(currentSpeed)} in ${speedLimit}`,
-                                lat: location.latitude,
-                                lng: location.longitude,
-                                speed: currentSpeed,
-                                roadSpeedLimit: speedLimit
-                            };
-                            
-                            setPoints(penaltyPoints); // Trigger point reduction in parent hook
-                            setDemerits(prev => prev + Math.abs(penaltyPoints));
-                            setLastEvent(event);
-                            setWarnings(prev => [...prev.slice(-2), { message: `⚠️ Speeding ${Math.round(overSpeed)}km/h over`, severity: level }]);
-                            
-                            if ('vibrate' in navigator) navigator.vibrate(200);
-                        }
-                    }
-                } else {
-                    // Reset if speed drops below limit
-                    speedingStartTimeRef.current = null;
-                    isSpeedingEventActiveRef.current = false;
-                    
-                    // Reward Safe Driving
-                    if (currentSpeed > 20 && currentSpeed < speedLimit && !isSchoolZone) {
-                         if (now - lastRewardTimeRef.current > 60000) { 
-                             setLastEvent({ 
-                                 type: 'SAFE_DISTANCE', 
-                                 timestamp: now, 
-                                 value: currentSpeed, 
-                                 points: 5, 
-                                 severityLevel: 'MINOR',
-                                 description: 'Safe Driving Bonus'
-                             }); 
-                             setPoints(5);
-                             lastRewardTimeRef.current = now;
-                         }
-                    }
-                }
-            } else {
-                // If GPS bad or no limit, reset timers
-                speedingStartTimeRef.current = null;
-                isSpeedingEventActiveRef.current = false;
-            }
-        }
-
-        // --- G-FORCE LOGIC ---
-        if (now - lastWarningTimeRef.current > 3000 && !isVehicleStoppedRef.current && !isSpeedingEventActiveRef.current) {
-             const totalG = Math.sqrt(smoothX*smoothX + smoothY*smoothY + smoothZ*smoothZ);
-             let gEvent: DrivingEvent | null = null;
-
-             if (smoothY < VIOLATION_CONFIG.G_FORCE.HARSH_BRAKING) {
-                 gEvent = { type: 'HARSH_BRAKING', points: -7, severityLevel: 'MODERATE', description: 'Harsh Braking' } as any;
-             } else if (smoothY > VIOLATION_CONFIG.G_FORCE.HARSH_ACCEL) {
-                 gEvent = { type: 'HARSH_ACCELERATION', points: -7, severityLevel: 'MODERATE', description: 'Aggressive Acceleration' } as any;
-             } else if (Math.abs(smoothX) > VIOLATION_CONFIG.G_FORCE.CORNERING) {
-                 gEvent = { type: 'UNSAFE_CORNERING', points: -15, severityLevel: 'SEVERE', description: 'Unsafe Cornering' } as any;
-             }
-
-             if (gEvent) {
-                 setLastEvent({ ...gEvent, timestamp: now, value: totalG });
-                 setPoints(gEvent.points);
-                 setWarnings(prev => [...prev.slice(-2), { message: gEvent!.description!, severity: gEvent!.severityLevel }]);
-                 lastWarningTimeRef.current = now;
-             }
-        }
-
-    }, [location, motion, speedLimit, isTripActive, setupMode]);
+    }, [isRecording, setupMode]);
 
-    return { points, demerits, warnings, lastEvent, speedLimit, isPassenger, driverConfidence, weather, isSchoolZone, activeSchoolTime };
+    return { points, demerits, warnings, lastEvent, speedLimit, isPassenger, driverConfidence, weather, weatherSpeedLimit, isSchoolZone, activeSchoolTime, pendingCrash, confirmCrash, dismissCrash, fatigueRisk, flushEvents, getIntersections, recordPause };
 };
@@ -1,8 +1,12 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import type { GeolocationData, DeviceMotionData, DeviceOrientationData } from '../types';
-import { SpeedEstimator, HeadingEstimator } from '../utils/smoothing';
+import type { GeolocationData, DeviceMotionData, DeviceOrientationData, PositionSample, MotionSample, OrientationSample, LatLng } from '../types';
+import { KalmanPositionFilter, HeadingEstimator } from '../utils/smoothing';
 import { NAV_CONFIG } from '../utils/config';
+import { clock } from '../utils/clock';
+import { DeadReckoner } from '../utils/deadReckoning';
+import { sensorSession } from '../utils/sensorSession';
+import { locationProviders, LocationProvider, LocationProviderHandlers, LocationErrorCode } from '../utils/locationProvider';
 
 const getPlatformSpecificInstructions = (): string => {
   const ua = navigator.userAgent.toLowerCase();
@@ -10,7 +14,12 @@ const getPlatformSpecificInstructions = (): string => {
   return "Please enable location services in your browser settings.";
 };
 
-export const useGeolocation = () => {
+interface UseGeolocationOptions {
+    // Active navigation route; dead reckoning follows it through GPS outages
+    route?: LatLng[] | null;
+}
+
+export const useGeolocation = ({ route = null }: UseGeolocationOptions = {}) => {
   const [isTracking, setIsTracking] = useState(false);
   const [location, setLocation] = useState<GeolocationData | null>(null); 
   const [motion, setMotion] = useState<DeviceMotionData | null>(null);
@@ -19,20 +28,27 @@ export const useGeolocation = () => {
   const [isSignalLost, setIsSignalLost] = useState(false);
 
   const lastUpdateRef = useRef<number>(0);
-  const watchIdRef = useRef<number | null>(null);
   const compassHeadingRef = useRef<number | null>(null);
+  const providerRef = useRef<LocationProvider | null>(null);
+  const handlersRef = useRef<LocationProviderHandlers>({ onPosition: () => {}, onMotion: () => {}, onOrientation: () => {}, onError: () => {} });
   
   // Screen Orientation for Compass Compensation
   const screenOrientationRef = useRef<number>(0);
 
   // Estimators
-  const speedEstimatorRef = useRef(new SpeedEstimator(NAV_CONFIG.SPEED_SMOOTHING_FACTOR));
+  const kalmanFilterRef = useRef(new KalmanPositionFilter(NAV_CONFIG.KALMAN_ACCEL_NOISE));
   const headingEstimatorRef = useRef(new HeadingEstimator(NAV_CONFIG.HEADING_SMOOTHING_FACTOR));
+  const deadReckonerRef = useRef(new DeadReckoner());
+
+  useEffect(() => { deadReckonerRef.current.setRoute(route); }, [route]);
 
   // --- 1. GPS Handler ---
-  const handleSuccess = useCallback((position: GeolocationPosition) => {
-    const { latitude, longitude, speed, accuracy, heading } = position.coords;
-    const now = Date.now();
+  // Works on raw samples so every provider (browser, native, simulated, replay) shares one path.
+  const handlePosition = useCallback((sample: PositionSample) => {
+    sensorSession.getRecorder()?.recordPosition(sample);
+
+    const { latitude, longitude, speed, accuracy, heading } = sample;
+    const now = clock.now();
     
     lastUpdateRef.current = now;
     if (isSignalLost) setIsSignalLost(false);
@@ -40,29 +56,39 @@ export const useGeolocation = () => {
     // Filter massive jumps (bad GPS glitch)
     if (location && accuracy > 200) return;
 
-    // A. Calibrate Speed
-    const fusedSpeedKmh = speedEstimatorRef.current.update(latitude, longitude, speed, accuracy);
+    // A. Kalman Filter (Position + Speed), GPS accuracy used as measurement noise
+    const estimate = kalmanFilterRef.current.update(latitude, longitude, speed, accuracy, heading, sample.timestamp);
+    const fusedSpeedKmh = estimate.speedKmh;
 
     // B. Calibrate Heading (Fuse GPS Course + Compass)
     // If moving fast (>5kmh), GPS heading is trusted. 
     // If slow, we rely on the compass updates below, but we sync the estimator here too.
     const fusedHeading = headingEstimatorRef.current.update(heading, compassHeadingRef.current, fusedSpeedKmh);
 
-    setLocation(prev => ({
-      latitude,
-      longitude,
+    // C. Re-anchor Dead Reckoning (blends out estimate error right after an outage)
+    const published = deadReckonerRef.current.correct(
+      { latitude: estimate.latitude, longitude: estimate.longitude, speedKmh: fusedSpeedKmh, heading: fusedHeading, accuracy },
+      sample.timestamp
+    );
+
+    setLocation(() => ({
+      latitude: published.lat,
+      longitude: published.lng,
       speed: fusedSpeedKmh,
       accuracy,
       heading: fusedHeading,
+      speedConfidence: estimate.speedConfidence,
+      isEstimated: false,
     }));
     setError(null);
   }, [location, isSignalLost]); 
 
-  const handleError = useCallback((err: GeolocationPositionError) => {
+  const handleError = useCallback((code: LocationErrorCode) => {
     let message = "Could not retrieve your location.";
-    if (err.code === err.PERMISSION_DENIED) message = getPlatformSpecificInstructions();
-    else if (err.code === err.POSITION_UNAVAILABLE) message = "Location unavailable.";
-    else if (err.code === err.TIMEOUT) message = "Location request timed out.";
+    if (code === 'PERMISSION_DENIED') message = getPlatformSpecificInstructions();
+    else if (code === 'POSITION_UNAVAILABLE') message = "Location unavailable.";
+    else if (code === 'TIMEOUT') message = "Location request timed out.";
+    else if (code === 'UNSUPPORTED') message = "Geolocation is not supported.";
     setError(message);
   }, []);
 
@@ -71,7 +97,7 @@ export const useGeolocation = () => {
       let interval: ReturnType<typeof setInterval>;
       if (isTracking) {
           interval = setInterval(() => {
-              if (lastUpdateRef.current > 0 && (Date.now() - lastUpdateRef.current > NAV_CONFIG.GPS_TIMEOUT_MS)) {
+              if (lastUpdateRef.current > 0 && (clock.now() - lastUpdateRef.current > NAV_CONFIG.GPS_TIMEOUT_MS)) {
                   setIsSignalLost(true);
               }
           }, 2000);
@@ -79,20 +105,48 @@ export const useGeolocation = () => {
       return () => clearInterval(interval);
   }, [isTracking]);
 
+  // --- 2b. Dead Reckoning while the signal is lost ---
+  // Keeps the puck, distance and path moving through tunnels. Estimates carry zero speed
+  // confidence so analytics never penalise speeding on an extrapolated speed.
+  useEffect(() => {
+      if (!isTracking || !isSignalLost) return;
+      const interval = setInterval(() => {
+          const fix = deadReckonerRef.current.step(clock.now());
+          if (!fix) return;
+          setLocation({
+              latitude: fix.latitude,
+              longitude: fix.longitude,
+              speed: fix.speedKmh,
+              accuracy: fix.accuracy,
+              heading: fix.heading,
+              speedConfidence: 0,
+              isEstimated: true,
+          });
+      }, NAV_CONFIG.DEAD_RECKONING_STEP_MS);
+      return () => clearInterval(interval);
+  }, [isTracking, isSignalLost]);
+
   const requestLocation = useCallback(() => {
-    if (navigator.geolocation) {
-      setError(null);
-      navigator.geolocation.getCurrentPosition(handleSuccess, handleError, {
-        enableHighAccuracy: true, timeout: 10000, maximumAge: 0, 
-      });
-    }
-  }, [handleSuccess, handleError]);
+    const provider = locationProviders.resolve();
+    // Replays have no "current" position; a one-shot fix only makes sense for live sources
+    if (!provider.getCurrentPosition || !provider.isAvailable()) return;
+    setError(null);
+    provider.getCurrentPosition()
+      .then(sample => handlersRef.current.onPosition(sample))
+      .catch((code: LocationErrorCode) => handlersRef.current.onError(code));
+  }, []);
 
   useEffect(() => { requestLocation(); }, [requestLocation]);
 
   // --- 3. Motion & Orientation Handlers ---
-  const handleDeviceMotion = useCallback((event: DeviceMotionEvent) => {
-    setMotion({ acceleration: event.acceleration, rotationRate: event.rotationRate });
+  const handleMotion = useCallback((sample: MotionSample) => {
+    sensorSession.getRecorder()?.recordMotion(sample);
+
+    setMotion({ acceleration: sample.acceleration, rotationRate: sample.rotationRate, accelerationIncludingGravity: sample.accelerationIncludingGravity });
+    // Longitudinal acceleration (y) drives the Kalman prediction step between GPS fixes
+    // and the speed of the dead-reckoned estimate during outages
+    kalmanFilterRef.current.setControlInput(sample.acceleration.y);
+    deadReckonerRef.current.addAcceleration(sample.acceleration.y);
   }, []);
 
   // Update screen orientation reference
@@ -110,19 +164,20 @@ export const useGeolocation = () => {
       return () => window.removeEventListener('orientationchange', updateScreenOrientation);
   }, []);
 
-  const handleDeviceOrientation = useCallback((event: DeviceOrientationEvent) => {
+  const handleOrientation = useCallback((sample: OrientationSample) => {
     if (!isTracking) return;
+    sensorSession.getRecorder()?.recordOrientation(sample);
 
     let heading: number | null = null;
     
     // Calculate Compass Heading relative to True North
     // iOS (WebKit)
-    if ((event as any).webkitCompassHeading) {
-        heading = (event as any).webkitCompassHeading;
+    if (sample.compassHeading) {
+        heading = sample.compassHeading;
     } 
     // Android / Standard (absolute alpha)
-    else if (event.absolute && event.alpha !== null) {
-        heading = 360 - event.alpha;
+    else if (sample.absolute && sample.alpha !== null) {
+        heading = 360 - sample.alpha;
     }
 
     // Compensate for Screen Orientation (Landscape/Portrait)
@@ -131,7 +186,7 @@ export const useGeolocation = () => {
         compassHeadingRef.current = heading;
     }
 
-    setOrientation({ alpha: event.alpha, beta: event.beta, gamma: event.gamma });
+    setOrientation({ alpha: sample.alpha, beta: sample.beta, gamma: sample.gamma });
 
     // --- LOW SPEED COMPASS OVERRIDE ---
     // If user is stopped or walking (< 5km/h), update UI heading immediately from compass
@@ -149,48 +204,47 @@ export const useGeolocation = () => {
 
   }, [isTracking]);
 
+  // Providers are started once per tracking session, so they dispatch through a ref
+  // to always reach the latest handlers (and the latest `location`/`isTracking` state).
+  handlersRef.current = { onPosition: handlePosition, onMotion: handleMotion, onOrientation: handleOrientation, onError: handleError };
+
   const startTracking = useCallback(() => {
-    if (navigator.geolocation) {
+    const provider = locationProviders.resolve();
+
+    if (provider.isAvailable()) {
         if(isTracking) return;
         
-        speedEstimatorRef.current.reset();
+        kalmanFilterRef.current.reset();
         headingEstimatorRef.current.reset();
+        deadReckonerRef.current.reset();
 
         setIsTracking(true);
         setError(null);
-        lastUpdateRef.current = Date.now();
-        
-        watchIdRef.current = navigator.geolocation.watchPosition(
-            handleSuccess, handleError,
-            { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 }
-        );
-        window.addEventListener('devicemotion', handleDeviceMotion);
-        window.addEventListener('deviceorientation', handleDeviceOrientation);
-
+        lastUpdateRef.current = clock.now();
+
+        providerRef.current = provider;
+        provider.start({
+            onPosition: (sample) => handlersRef.current.onPosition(sample),
+            onMotion: (sample) => handlersRef.current.onMotion(sample),
+            onOrientation: (sample) => handlersRef.current.onOrientation(sample),
+            onError: (code) => handlersRef.current.onError(code),
+        });
     } else {
-        setError("Geolocation is not supported.");
+        handleError('UNSUPPORTED');
     }
-  }, [isTracking, handleSuccess, handleError, handleDeviceMotion, handleDeviceOrientation]);
+  }, [isTracking, handleError]);
 
   const stopTracking = useCallback(() => {
-    if (watchIdRef.current !== null) {
-      navigator.geolocation.clearWatch(watchIdRef.current);
-      watchIdRef.current = null;
-    }
-    window.removeEventListener('devicemotion', handleDeviceMotion);
-    window.removeEventListener('deviceorientation', handleDeviceOrientation);
+    providerRef.current?.stop();
+    providerRef.current = null;
     setIsTracking(false);
     setIsSignalLost(false);
     setLocation(prev => prev ? { ...prev, speed: 0 } : null);
-  }, [handleDeviceMotion, handleDeviceOrientation]);
+  }, []);
 
   useEffect(() => {
-    return () => { 
-      if (watchIdRef.current !== null) navigator.geolocation.clearWatch(watchIdRef.current);
-      window.removeEventListener('devicemotion', handleDeviceMotion);
-      window.removeEventListener('deviceorientation', handleDeviceOrientation);
-    };
-  }, [handleDeviceMotion, handleDeviceOrientation]);
+    return () => providerRef.current?.stop();
+  }, []);
 
   return { isTracking, location, motion, orientation, error, startTracking, stopTracking, requestLocation, isSignalLost };
 };
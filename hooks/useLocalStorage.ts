@@ -1,5 +1,5 @@
 
-import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { useState, useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
 
 // Helper to safely stringify objects with circular references
 const safeStringify = (value: any) => {
@@ -15,6 +15,9 @@ const safeStringify = (value: any) => {
     });
 };
 
+// Same-tab writes don't fire the native 'storage' event, so instances sharing a key are told via this one
+const LOCAL_STORAGE_EVENT = 'local-storage';
+
 export function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<SetStateAction<T>>] {
     const [storedValue, setStoredValue] = useState<T>(() => {
         if (typeof window === 'undefined') {
@@ -28,19 +31,24 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<S
             return initialValue;
         }
     });
+    // What functional updates build on. A ref, not storedValue: a setter captured by a callback that
+    // has since awaited something (e.g. saving a trip) must not write back a list from before the await.
+    const latestRef = useRef(storedValue);
 
-    const setValue: Dispatch<SetStateAction<T>> = (value) => {
+    const setValue: Dispatch<SetStateAction<T>> = useCallback((value) => {
         try {
             // Allow value to be a function so we have same API as useState
-            const valueToStore = value instanceof Function ? value(storedValue) : value;
+            const valueToStore = value instanceof Function ? value(latestRef.current) : value;
             
             // Save state
+            latestRef.current = valueToStore;
             setStoredValue(valueToStore);
             
             // Save to local storage
             if (typeof window !== 'undefined') {
                 try {
                     window.localStorage.setItem(key, safeStringify(valueToStore));
+                    window.dispatchEvent(new CustomEvent(LOCAL_STORAGE_EVENT, { detail: key }));
                 } catch (writeError) {
                     console.error(`Error writing localStorage key "${key}":`, writeError);
                 }
@@ -48,7 +56,28 @@ export function useLocalStorage<T>(key: string, initialValue: T): [T, Dispatch<S
         } catch (error) {
             console.error(`Error setting localStorage key "${key}":`, error);
         }
-    };
+    }, [key]);
+
+    // Keep every mounted instance of this key in step (e.g. trip history edited on Profile while Home stays mounted)
+    useEffect(() => {
+        const handleChange = (e: Event) => {
+            const changedKey = e instanceof StorageEvent ? e.key : (e as CustomEvent<string>).detail;
+            if (changedKey !== key) return;
+            try {
+                const item = window.localStorage.getItem(key);
+                latestRef.current = item ? JSON.parse(item) : initialValue;
+                setStoredValue(latestRef.current);
+            } catch (error) {
+                console.error(`Error reading localStorage key "${key}":`, error);
+            }
+        };
+        window.addEventListener(LOCAL_STORAGE_EVENT, handleChange);
+        window.addEventListener('storage', handleChange);
+        return () => {
+            window.removeEventListener(LOCAL_STORAGE_EVENT, handleChange);
+            window.removeEventListener('storage', handleChange);
+        };
+    }, [key]);
 
     return [storedValue, setValue];
 }
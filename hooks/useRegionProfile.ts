@@ -0,0 +1,20 @@
+import { useEffect } from 'react';
+import { useLocalStorage } from './useLocalStorage';
+import { RegionId, RegionProfile, detectRegion, getRegionProfile } from '../utils/regions';
+
+export type RegionSetting = RegionId | 'auto';
+
+// The rules in force: the user's override from settings, otherwise wherever they are now.
+// The last detected region is remembered so screens without a location fix still get it.
+export const useRegionProfile = (location: { latitude: number, longitude: number } | null = null): RegionProfile => {
+    const [setting] = useLocalStorage<RegionSetting>('region-setting', 'auto');
+    const [lastDetected, setLastDetected] = useLocalStorage<RegionId | null>('detected-region', null);
+    const detected = location ? detectRegion(location.latitude, location.longitude).id : null;
+
+    useEffect(() => {
+        if (detected && detected !== lastDetected) setLastDetected(detected);
+    }, [detected]);
+
+    if (setting !== 'auto') return getRegionProfile(setting);
+    return getRegionProfile(detected ?? lastDetected ?? 'INTL');
+};
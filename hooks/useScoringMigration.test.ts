@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Trip, User } from '../types';
+import { SCORING_MODEL } from '../utils/scoringModel';
+import { useScoringMigration } from './useScoringMigration';
+
+// Firebase restores a session asynchronously; tests decide when, and what the cloud holds
+const FIREBASE = vi.hoisted(() => ({
+    authListener: null as ((user: { uid: string } | null) => void) | null,
+    cloud: { data: [] as Trip[], loading: true },
+    update: vi.fn(async () => {})
+}));
+
+vi.mock('firebase/auth', () => ({
+    onAuthStateChanged: (_auth: unknown, listener: (user: { uid: string } | null) => void) => {
+        FIREBASE.authListener = listener;
+        return () => {};
+    }
+}));
+vi.mock('../utils/firebase', () => ({ auth: {} }));
+vi.mock('../utils/sync', () => ({
+    useFirestoreCollection: () => ({ ...FIREBASE.cloud }),
+    syncService: { update: FIREBASE.update }
+}));
+
+const USER: User = { id: 'driver', name: 'Driver', isGuest: false };
+const START = Date.UTC(2026, 2, 3, 2, 0);
+
+// A half-hour trip with two harsh brakes, scored by the unversioned model
+const legacyTrip = (id: string): Trip => ({
+    id,
+    startTime: START,
+    endTime: START + 1800000,
+    distance: 20,
+    duration: 1800,
+    points: 0,
+    maxSpeed: 60,
+    complianceScore: 90,
+    events: [1, 2].map(minute => ({ type: 'HARSH_BRAKING', timestamp: START + minute * 60000, points: -7, severityLevel: 'MODERATE', description: 'Harsh Braking' })),
+    startName: 'Home',
+    validity: 'VALID',
+    rewardEligible: true,
+    driverConfidence: 1,
+    modeOfTransport: 'car'
+});
+
+const storedTrips = () => JSON.parse(localStorage.getItem('recent-trips') || '[]') as Trip[];
+
+describe('useScoringMigration', () => {
+    afterEach(() => {
+        localStorage.clear();
+        FIREBASE.authListener = null;
+        FIREBASE.cloud = { data: [], loading: true };
+        FIREBASE.update.mockClear();
+    });
+
+    it('waits for the restored session and its cloud trips before rescoring', () => {
+        localStorage.setItem('recent-trips', JSON.stringify([legacyTrip('local')]));
+        const { result, rerender } = renderHook(() => useScoringMigration(USER));
+        expect(storedTrips()[0].scoringModelVersion).toBeUndefined();
+
+        act(() => FIREBASE.authListener!({ uid: 'driver' }));
+        expect(storedTrips()[0].scoringModelVersion).toBeUndefined();
+
+        FIREBASE.cloud = { data: [legacyTrip('cloud')], loading: false };
+        rerender();
+
+        expect(storedTrips()[0].scoringModelVersion).toBe(SCORING_MODEL.version);
+        expect(FIREBASE.update).toHaveBeenCalledOnce();
+        expect(FIREBASE.update).toHaveBeenCalledWith('trips', 'cloud', expect.objectContaining({ scoringModelVersion: SCORING_MODEL.version }));
+        expect(result.current).toMatch(/^Scoring updated: 2 past trips rescored/);
+    });
+
+    it('rescores only the local copy for a guest, once', () => {
+        localStorage.setItem('recent-trips', JSON.stringify([legacyTrip('local')]));
+        const { result, rerender } = renderHook(() => useScoringMigration(USER));
+
+        act(() => FIREBASE.authListener!(null));
+        rerender();
+
+        expect(storedTrips()[0].scoringModelVersion).toBe(SCORING_MODEL.version);
+        expect(FIREBASE.update).not.toHaveBeenCalled();
+        expect(result.current).toMatch(/^Scoring updated: 1 past trip rescored/);
+    });
+});
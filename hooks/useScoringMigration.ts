@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react';
+import { onAuthStateChanged } from 'firebase/auth';
+import type { Trip, User, UserStats } from '../types';
+import { useLocalStorage } from './useLocalStorage';
+import { useFirestoreCollection, syncService } from '../utils/sync';
+import { auth } from '../utils/firebase';
+import { recomputeTrips, RescoredTrip } from '../utils/scoringModel';
+
+// Brings stored trips up to the current scoring model once per session: the local copy, and
+// for signed-in users the cloud copy too. Returns a one-line notice when scores changed.
+export const useScoringMigration = (user: User | null): string | null => {
+    const { data: cloudTrips, loading } = useFirestoreCollection<Trip>('trips', [], 'recent-trips');
+    const [localTrips, setLocalTrips] = useLocalStorage<Trip[]>('recent-trips', []);
+    const [stats, setStats] = useLocalStorage<UserStats>('user-stats', { points: 0, streak: 0, complianceScore: 100, totalDistance: 0, totalTrips: 0 });
+    const [notice, setNotice] = useState<string | null>(null);
+    const migratedForRef = useRef<string | null>(null);
+    // undefined until Firebase has restored (or ruled out) a session; auth.currentUser is null until then
+    const [authUid, setAuthUid] = useState<string | null | undefined>(undefined);
+
+    useEffect(() => onAuthStateChanged(auth, firebaseUser => setAuthUid(firebaseUser?.uid ?? null)), []);
+
+    useEffect(() => {
+        const isSignedIn = !!authUid;
+        if (!user || authUid === undefined || (isSignedIn && loading) || migratedForRef.current === user.id) return;
+        migratedForRef.current = user.id;
+
+        const local = recomputeTrips(localTrips);
+        const cloud = isSignedIn ? recomputeTrips(cloudTrips) : { trips: cloudTrips, rescored: [] as RescoredTrip[] };
+        if (local.rescored.length > 0) setLocalTrips(local.trips);
+
+        for (const { id } of cloud.rescored) {
+            const trip = cloud.trips.find(t => t.id === id)!;
+            syncService.update('trips', id, { complianceScore: trip.complianceScore, scores: trip.scores, scoringModelVersion: trip.scoringModelVersion })
+                .catch(e => console.error("Failed to sync rescored trip:", e));
+        }
+
+        // Most local trips are also in the cloud; count each once
+        const byId = new Map<string, RescoredTrip>();
+        [...local.rescored, ...cloud.rescored].forEach(r => byId.set(r.id, r));
+        const changed = [...byId.values()].filter(r => r.before !== r.after);
+        if (changed.length === 0) return;
+
+        // Only trips that were credited ever reached the running average
+        const allTrips = [...local.trips, ...cloud.trips];
+        const credited = changed.filter(r => {
+            const trip = allTrips.find(t => t.id === r.id);
+            return trip && trip.validity === 'VALID' && !(trip.autoRecorded && !trip.reviewed);
+        });
+        if (credited.length > 0 && stats.totalTrips > 0) {
+            const delta = credited.reduce((sum, r) => sum + (r.after - r.before), 0);
+            setStats(prev => ({ ...prev, complianceScore: Math.min(100, Math.max(0, Math.round(prev.complianceScore + delta / prev.totalTrips))) }));
+        }
+
+        const averageChange = Math.round(changed.reduce((sum, r) => sum + (r.after - r.before), 0) / changed.length);
+        setNotice(`Scoring updated: ${changed.length} past trip${changed.length === 1 ? '' : 's'} rescored (${averageChange >= 0 ? '+' : ''}${averageChange} on average)`);
+    }, [user, authUid, loading, localTrips, cloudTrips, stats, setLocalTrips, setStats]);
+
+    return notice;
+};
@@ -0,0 +1,92 @@
+// @vitest-environment jsdom
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Trip } from '../types';
+import { SensorRecorder, sensorSession } from '../utils/sensorSession';
+import { useTrip } from './useTrip';
+
+// Road, weather and cloud lookups are the only inputs a replay doesn't carry, so they are pinned
+const ROAD = vi.hoisted(() => ({ maxSpeed: 50, speedLimitReason: 'Posted 50 km/h', roadName: 'Test Road', isSchoolZone: false, controls: [] }));
+
+vi.mock('../utils/osm', () => ({
+    lookupCachedRoad: () => ROAD,
+    fetchRoadData: async () => ROAD,
+    prefetchRouteCorridor: async () => 0,
+    fetchTransitProximity: async () => null
+}));
+vi.mock('../utils/weather', () => ({ fetchLocalWeather: async () => 'clear' }));
+vi.mock('../utils/firebase', () => ({ auth: { currentUser: null } }));
+vi.mock('../utils/sync', () => ({ syncService: { add: vi.fn() } }));
+vi.mock('../utils/userRepository', () => ({ userRepository: { updateUser: vi.fn() } }));
+
+const STARTED_AT = Date.UTC(2026, 2, 3, 23, 0); // A weekday morning in Sydney
+const TOUCH_AT_SAMPLE = 40;
+
+// Heading east along a 50 zone: a minute at 72 km/h, then 20 s at 36 km/h, on a smooth road
+const recordDrive = (): string => {
+    const recorder = new SensorRecorder(STARTED_AT);
+    const latitude = -33.87;
+    const metresPerDegree = 111320 * Math.cos((latitude * Math.PI) / 180);
+    let longitude = 151.2;
+    for (let s = 0; s <= 80; s++) {
+        const speed = s < 60 ? 20 : 10;
+        recorder.recordPosition({ timestamp: STARTED_AT + s * 1000, latitude, longitude, speed, accuracy: 5, heading: 90 });
+        recorder.recordMotion({
+            timestamp: STARTED_AT + s * 1000,
+            acceleration: { x: 0, y: 0, z: 0 },
+            rotationRate: { alpha: 0, beta: 0, gamma: 0 }
+        });
+        longitude += speed / metresPerDegree;
+    }
+    return recorder.toNDJSON();
+};
+
+// Drives the trip hook from a session replay one sample at a time, and returns the saved trip
+const replayTrip = async (ndjson: string): Promise<Trip> => {
+    const replay = sensorSession.loadReplay(ndjson, Infinity);
+    const { result, unmount } = renderHook(() => useTrip('mount', null));
+
+    act(() => result.current.startTrip());
+    for (let i = 0; !replay.isFinished; i++) {
+        await act(async () => {
+            replay.step();
+        });
+        if (i === TOUCH_AT_SAMPLE) act(() => document.body.dispatchEvent(new Event('touchstart', { bubbles: true })));
+    }
+    await act(() => result.current.stopTrip(null, null));
+
+    const [trip] = JSON.parse(localStorage.getItem('recent-trips') || '[]') as Trip[];
+    unmount();
+    return trip;
+};
+
+describe('useTrip with a session replay', () => {
+    afterEach(() => {
+        sensorSession.clearReplay();
+        localStorage.clear();
+    });
+
+    it('times the trip from the recording, not the wall clock', async () => {
+        const trip = await replayTrip(recordDrive());
+
+        expect(trip.startTime).toBe(STARTED_AT);
+        expect(trip.endTime).toBe(STARTED_AT + 80000);
+        expect(trip.id).toBe(String(STARTED_AT + 80000));
+        expect(trip.duration).toBe(80);
+        expect(trip.events.map(e => e.type)).toEqual(expect.arrayContaining(['SPEEDING', 'PHONE_TOUCH']));
+        trip.events.forEach(event => {
+            expect(event.timestamp).toBeGreaterThanOrEqual(STARTED_AT);
+            expect(event.timestamp).toBeLessThanOrEqual(STARTED_AT + 80000);
+        });
+    });
+
+    it('gives the same trip and events every time the same session is replayed', async () => {
+        const ndjson = recordDrive();
+        const first = await replayTrip(ndjson);
+        localStorage.clear();
+        const second = await replayTrip(ndjson);
+
+        expect(second.events).toEqual(first.events);
+        expect(second).toEqual(first);
+    });
+});
@@ -2,44 +2,58 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useGeolocation } from './useGeolocation';
 import { useDrivingAnalytics } from './useDrivingAnalytics';
-import type { Trip, GeolocationData, DrivingEvent, SetupMode, LocationPoint, UserStats, Challenge, DeviceOrientationData, TripValidity, LatLng } from '../types';
+import type { Trip, GeolocationData, DrivingEvent, SetupMode, LocationPoint, UserStats, Challenge, DeviceOrientationData, LatLng, Route, WeatherCondition, LightPhase, LightSplit, IntersectionPassage, RecordingGap, TripSegment } from '../types';
 import { calculateDistance } from '../utils/helpers';
 import { useLocalStorage } from './useLocalStorage';
-import { processTripForChallenges } from '../utils/challengeProcessor';
+import { processTripForChallenges, applyTripToStats } from '../utils/challengeProcessor';
 import { INITIAL_CHALLENGES } from '../data/challenges';
 import { syncService } from '../utils/sync';
 import { auth } from '../utils/firebase';
 import { userRepository } from '../utils/userRepository';
 import { simplifyPath } from '../utils/geometry'; // RDP Algorithm
+import { clock } from '../utils/clock';
+import { fetchTransitProximity } from '../utils/osm';
+import { classifyTrip, SpeedSample, CONTESTABLE_VALIDITIES } from '../utils/tripClassifier';
+import { TRIP_CLASSIFIER_CONFIG, TRIP_CHECKPOINT_CONFIG } from '../utils/config';
+import { scoreFields } from '../utils/scoringModel';
+import { lightPhase, emptyLightSplit, LIGHT_PHASES } from '../utils/solar';
+import { tripCheckpoint, TripCheckpoint } from '../utils/tripCheckpoint';
 
 const POINTS_PER_KM_SAFE = 15; 
 const MIN_SPEED_FOR_POINTS = 15; 
 const MAX_VALID_SPEED = 200; 
 
-export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: DeviceOrientationData | null) => {
-  const { isTracking: isGeolocationActive, location, motion, orientation, error: geolocationError, startTracking, stopTracking, requestLocation, isSignalLost } = useGeolocation();
-  
-  const { 
-      points: eventPoints, 
-      demerits, 
-      warnings, 
-      lastEvent, 
-      speedLimit, 
-      isPassenger, 
-      driverConfidence,
-      weather,
-      isSchoolZone,
-      activeSchoolTime
-  } = useDrivingAnalytics({ 
-      location, 
-      motion, 
-      orientation,
-      isTripActive: isGeolocationActive, 
-      setupMode,
-      baseOrientation: calibratedOrientation 
-  });
-  
+type OpenSegment = Omit<TripSegment, 'endTime'>;
+
+// Figures the finished trip is built from that live in state (or in the checkpoint) rather than refs
+type TripTotals = Pick<TripCheckpoint, 'distance' | 'points' | 'rewardEligible' | 'driverConfidence' | 'intersections'>;
+
+// Driving time only: the sum of the segments, the open one running to `now`
+const recordedMs = (segments: TripSegment[], open: OpenSegment | null, now: number) =>
+  segments.reduce((sum, s) => sum + s.endTime - s.startTime, 0) + (open ? now - open.startTime : 0);
+
+// RDP-simplified a piece at a time, so no interruption is smoothed over and each gap still points
+// at the last point before it
+const compressPath = (path: LatLng[], gaps: RecordingGap[]): { path: LatLng[], gaps: RecordingGap[] } => {
+  const compressed: LatLng[] = [];
+  const compressedGaps: RecordingGap[] = [];
+  let from = 0;
+  for (const gap of gaps) {
+    compressed.push(...simplifyPath(path.slice(from, gap.afterIndex + 1), 5));
+    compressedGaps.push({ ...gap, afterIndex: compressed.length - 1 });
+    from = gap.afterIndex + 1;
+  }
+  compressed.push(...simplifyPath(path.slice(from), 5));
+  return { path: compressed, gaps: compressedGaps };
+};
+
+export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: DeviceOrientationData | null, activeRoute: Route | null = null) => {
+  const { location, motion, orientation, startTracking, stopTracking, isSignalLost } = useGeolocation({ route: activeRoute?.coordinates ?? null });
+  const [activeVehicleId] = useLocalStorage<string | null>('active-vehicle-id', null);
+  // Analytics follow the trip, not the location watch, which may also run between trips for auto-detection
   const [isTripActive, setIsTripActive] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  
   const [distance, setDistance] = useState(0);
   const [duration, setDuration] = useState(0);
   const [accumulatedPoints, setAccumulatedPoints] = useState(0);
@@ -47,7 +61,7 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
   // NEW STATE: Reward Eligibility
   const [rewardEligible, setRewardEligible] = useState(true);
   
-  const [recentTrips, setRecentTrips] = useLocalStorage<Trip[]>('recent-trips', []);
+  const [, setRecentTrips] = useLocalStorage<Trip[]>('recent-trips', []);
   const [stats, setStats] = useLocalStorage<UserStats>('user-stats', { points: 0, streak: 0, complianceScore: 100, totalDistance: 0, totalTrips: 0 });
   const [userChallenges, setUserChallenges] = useLocalStorage<Challenge[]>('user-challenges', INITIAL_CHALLENGES);
 
@@ -57,55 +71,139 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
   const eventsRef = useRef<DrivingEvent[]>([]);
   const pathRef = useRef<LatLng[]>([]); // Route History
   const distractionCountRef = useRef(0);
+  const autoRecordedRef = useRef(false);
+  const weatherSecondsRef = useRef<Partial<Record<WeatherCondition, number>>>({});
+  const weatherSinceRef = useRef<{ condition: WeatherCondition, since: number } | null>(null);
+  const speedTraceRef = useRef<SpeedSample[]>([]); // Downsampled, for classifying the trip at the end
+  const lightSplitRef = useRef<LightSplit>(emptyLightSplit());
+  const lightSinceRef = useRef<{ phase: LightPhase, since: number } | null>(null);
+  const recordingSinceRef = useRef<number>(0); // Trip start, or when it was last resumed
+  const segmentsRef = useRef<TripSegment[]>([]); // Closed segments
+  const segmentRef = useRef<OpenSegment | null>(null); // Null while paused
+  const recordingGapsRef = useRef<RecordingGap[]>([]);
+  const earlierIntersectionsRef = useRef<IntersectionPassage[]>([]); // From before a resume; the engine starts afresh
+  const isCheckpointingRef = useRef(false);
+  const [interruptedTrip, setInterruptedTrip] = useState<TripCheckpoint | null>(null);
+
+  // A trip left running by a reload or a killed tab, for the user to resume or save
+  useEffect(() => {
+    tripCheckpoint.load().then(checkpoint => {
+      if (checkpoint) setInterruptedTrip(checkpoint);
+    });
+  }, []);
 
   useEffect(() => {
     let interval: ReturnType<typeof setInterval>;
-    if (isTripActive) {
+    if (isTripActive && !isPaused) {
+      // Derived from the shared clock (not tick counting) so accelerated replays stay exact
       interval = setInterval(() => {
-        setDuration(prev => prev + 1);
+        setDuration(Math.floor(recordedMs(segmentsRef.current, segmentRef.current, clock.now()) / 1000));
       }, 1000);
     }
     return () => clearInterval(interval);
-  }, [isTripActive]);
+  }, [isTripActive, isPaused]);
 
-  useEffect(() => {
-      if (lastEvent) {
-          eventsRef.current.push(lastEvent);
-          
-          if (lastEvent.type === 'PHONE_TOUCH' || lastEvent.type === 'PHONE_DISTRACTION') {
-              distractionCountRef.current += 1;
-              
-              if (distractionCountRef.current === 1) {
-                  // 1st OFFENSE: 50% Penalty
-                  setAccumulatedPoints(prev => Math.floor(prev * 0.5));
-              } else if (distractionCountRef.current >= 2) {
-                  // 2nd OFFENSE: Invalidate
-                  setRewardEligible(false);
-                  if (distractionCountRef.current === 2) {
-                      eventsRef.current.push({
-                          type: 'TRIP_INVALIDATED_PHONE_USE',
-                          timestamp: Date.now(),
-                          points: 0,
-                          description: 'Trip Invalidated: Repeated Phone Use'
-                      });
-                  }
+  // Every event the analytics engine raises, including several from the same sample
+  const handleDrivingEvent = (event: DrivingEvent) => {
+      eventsRef.current.push(event);
+
+      if (event.type === 'PHONE_TOUCH' || event.type === 'PHONE_DISTRACTION') {
+          distractionCountRef.current += 1;
+
+          if (distractionCountRef.current === 1) {
+              // 1st OFFENSE: 50% Penalty
+              setAccumulatedPoints(prev => Math.floor(prev * 0.5));
+          } else if (distractionCountRef.current >= 2) {
+              // 2nd OFFENSE: Invalidate
+              setRewardEligible(false);
+              if (distractionCountRef.current === 2) {
+                  eventsRef.current.push({
+                      type: 'TRIP_INVALIDATED_PHONE_USE',
+                      timestamp: event.timestamp,
+                      points: 0,
+                      description: 'Trip Invalidated: Repeated Phone Use'
+                  });
               }
-          } else {
-              setAccumulatedPoints(prev => prev + lastEvent.points);
           }
+      } else {
+          setAccumulatedPoints(prev => prev + event.points);
       }
-  }, [lastEvent]);
+  };
+
+  const { 
+      warnings, 
+      lastEvent, 
+      speedLimit, 
+      isPassenger, 
+      driverConfidence,
+      weather,
+      weatherSpeedLimit,
+      isSchoolZone,
+      activeSchoolTime,
+      pendingCrash,
+      confirmCrash,
+      dismissCrash,
+      fatigueRisk,
+      flushEvents,
+      getIntersections,
+      recordPause
+  } = useDrivingAnalytics({ 
+      location, 
+      motion, 
+      orientation,
+      isTripActive, 
+      isPaused,
+      setupMode,
+      baseOrientation: calibratedOrientation,
+      isSignalLost,
+      vehicleId: activeVehicleId,
+      route: activeRoute?.coordinates ?? null,
+      onEvent: handleDrivingEvent
+  });
+
+  // Time spent in each weather condition, closed out on every change and at the end of the trip
+  const closeWeatherSpan = (now: number) => {
+    const span = weatherSinceRef.current;
+    if (!span || span.condition === 'unknown') return;
+    const seconds = Math.round((now - span.since) / 1000);
+    weatherSecondsRef.current[span.condition] = (weatherSecondsRef.current[span.condition] || 0) + seconds;
+  };
+
+  // Same for daylight, which is worked out from each fix rather than pushed to us
+  const closeLightSpan = (now: number) => {
+    const span = lightSinceRef.current;
+    if (!span) return;
+    lightSplitRef.current[span.phase].duration += (now - span.since) / 1000;
+  };
 
   useEffect(() => {
-    if (isTripActive && location) {
+    if (!isTripActive) return;
+    const now = clock.now();
+    closeWeatherSpan(now);
+    weatherSinceRef.current = isPaused ? null : { condition: weather, since: now };
+  }, [weather, isTripActive, isPaused]);
+
+  useEffect(() => {
+    if (isTripActive && !isPaused && location) {
+      const phase = lightPhase(location.latitude, location.longitude, clock.now());
+      if (lightSinceRef.current?.phase !== phase) {
+        const now = clock.now();
+        closeLightSpan(now);
+        // The first span reaches back to the start of recording
+        lightSinceRef.current = { phase, since: lightSinceRef.current ? now : recordingSinceRef.current };
+      }
+
       if (prevLocationRef.current) {
         const distDelta = calculateDistance(
           { latitude: prevLocationRef.current.latitude, longitude: prevLocationRef.current.longitude },
           { latitude: location.latitude, longitude: location.longitude }
         );
         
-        if (location.accuracy < 40) {
+        // Dead-reckoned positions count towards distance & path through tunnels
+        if (location.accuracy < 40 || location.isEstimated) {
              setDistance(prev => prev + (distDelta / 1000)); 
+             lightSplitRef.current[phase].distance += distDelta / 1000;
+             if (segmentRef.current) segmentRef.current.distance += distDelta / 1000;
              
              // --- PATH COLLECTION ---
              // Optimization: Only record point if moved > 5 meters to reduce raw noise
@@ -113,24 +211,112 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
                  pathRef.current.push({ lat: location.latitude, lng: location.longitude });
              }
              
-             // Only accumulate points if trip is still eligible
-             if (rewardEligible && location.speed && location.speed > MIN_SPEED_FOR_POINTS) {
+             // Only accumulate points if trip is still eligible (and only for measured distance)
+             if (rewardEligible && !location.isEstimated && location.speed && location.speed > MIN_SPEED_FOR_POINTS) {
                  const pointsEarned = (distDelta / 1000) * POINTS_PER_KM_SAFE;
                  setAccumulatedPoints(prev => prev + pointsEarned);
              }
         }
       }
       
-      if (location.speed && location.speed > maxSpeedRef.current && location.speed < MAX_VALID_SPEED) {
+      const trace = speedTraceRef.current;
+      const now = clock.now();
+      if (!location.isEstimated && location.speed !== null && (trace.length === 0 || now - trace[trace.length - 1].timestamp >= TRIP_CLASSIFIER_CONFIG.SAMPLE_INTERVAL_MS)) {
+          trace.push({ timestamp: now, speed: location.speed, lat: location.latitude, lng: location.longitude });
+      }
+
+      if (!location.isEstimated && location.speed && location.speed > maxSpeedRef.current && location.speed < MAX_VALID_SPEED) {
           maxSpeedRef.current = location.speed;
       }
+      if (segmentRef.current && !location.isEstimated && location.speed && location.speed > segmentRef.current.maxSpeed && location.speed < MAX_VALID_SPEED) {
+          segmentRef.current.maxSpeed = location.speed;
+      }
       
       prevLocationRef.current = location;
     }
-  }, [location, isTripActive, rewardEligible]);
+  }, [location, isTripActive, isPaused, rewardEligible]);
 
-  const startTrip = useCallback(() => {
+  // --- CHECKPOINTING ---
+  const buildCheckpoint = (): TripCheckpoint => {
+    const now = clock.now();
+    // Open weather and daylight spans are closed on a copy, so the checkpoint stands on its own
+    const weatherSeconds = { ...weatherSecondsRef.current };
+    const weatherSpan = weatherSinceRef.current;
+    if (weatherSpan && weatherSpan.condition !== 'unknown') {
+      weatherSeconds[weatherSpan.condition] = (weatherSeconds[weatherSpan.condition] || 0) + Math.round((now - weatherSpan.since) / 1000);
+    }
+    const lightSplit = emptyLightSplit();
+    LIGHT_PHASES.forEach(phase => { lightSplit[phase] = { ...lightSplitRef.current[phase] }; });
+    if (lightSinceRef.current) lightSplit[lightSinceRef.current.phase].duration += (now - lightSinceRef.current.since) / 1000;
+    const segments = segmentRef.current ? [...segmentsRef.current, { ...segmentRef.current, endTime: now }] : segmentsRef.current;
+
+    return {
+      savedAt: now,
+      startTime: startTimeRef.current,
+      autoRecorded: autoRecordedRef.current,
+      distance,
+      points: accumulatedPoints,
+      rewardEligible,
+      driverConfidence,
+      maxSpeed: maxSpeedRef.current,
+      distractionCount: distractionCountRef.current,
+      events: eventsRef.current,
+      path: pathRef.current,
+      recordingGaps: recordingGapsRef.current,
+      segments,
+      speedTrace: speedTraceRef.current,
+      weatherSeconds,
+      lightSplit,
+      intersections: [...earlierIntersectionsRef.current, ...getIntersections()]
+    };
+  };
+  // The interval outlives renders; it always builds from the latest one
+  const buildCheckpointRef = useRef(buildCheckpoint);
+  useEffect(() => {
+    buildCheckpointRef.current = buildCheckpoint;
+  });
+
+  useEffect(() => {
+    if (!isTripActive) return;
+    const save = () => {
+      if (isCheckpointingRef.current) tripCheckpoint.save(buildCheckpointRef.current());
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') save();
+    };
+    const interval = setInterval(save, TRIP_CHECKPOINT_CONFIG.INTERVAL_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', save);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', save);
+    };
+  }, [isTripActive]);
+
+  // Puts the checkpointed trip back into the refs; the caller sets the live state it needs
+  const restoreCheckpoint = (checkpoint: TripCheckpoint) => {
+    startTimeRef.current = checkpoint.startTime;
+    autoRecordedRef.current = checkpoint.autoRecorded;
+    maxSpeedRef.current = checkpoint.maxSpeed;
+    distractionCountRef.current = checkpoint.distractionCount;
+    eventsRef.current = [...checkpoint.events];
+    pathRef.current = [...checkpoint.path];
+    recordingGapsRef.current = [...checkpoint.recordingGaps];
+    segmentsRef.current = [...checkpoint.segments];
+    segmentRef.current = null;
+    speedTraceRef.current = [...checkpoint.speedTrace];
+    weatherSecondsRef.current = { ...checkpoint.weatherSeconds };
+    weatherSinceRef.current = null;
+    lightSplitRef.current = checkpoint.lightSplit;
+    lightSinceRef.current = null;
+    earlierIntersectionsRef.current = checkpoint.intersections;
+  };
+
+  // An auto-detected trip starts from when the movement began, not when detection caught up
+  const startTrip = useCallback((options: { autoRecorded?: boolean, startedAt?: number } = {}) => {
     setIsTripActive(true);
+    autoRecordedRef.current = options.autoRecorded === true;
     setDistance(0);
     setDuration(0);
     setAccumulatedPoints(0);
@@ -139,55 +325,145 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
     pathRef.current = []; // Reset Path
     maxSpeedRef.current = 0;
     distractionCountRef.current = 0;
-    startTimeRef.current = Date.now();
+    weatherSecondsRef.current = {};
+    weatherSinceRef.current = null;
+    speedTraceRef.current = [];
+    lightSplitRef.current = emptyLightSplit();
+    lightSinceRef.current = null;
+    recordingGapsRef.current = [];
+    earlierIntersectionsRef.current = [];
+    // Tracking first: a session replay only takes over the clock once its provider starts
     startTracking();
+    startTimeRef.current = options.startedAt ?? clock.now();
+    recordingSinceRef.current = startTimeRef.current;
+    segmentsRef.current = [];
+    segmentRef.current = { startTime: startTimeRef.current, distance: 0, maxSpeed: 0 };
+    setIsPaused(false);
+    isCheckpointingRef.current = true;
     prevLocationRef.current = null;
   }, [startTracking]);
 
-  const stopTrip = useCallback(async (startPoint: LocationPoint | null, endPoint: LocationPoint | null, shouldSave: boolean = true) => {
-    setIsTripActive(false);
-    stopTracking();
-    
-    if (!shouldSave) {
-        setDistance(0);
-        setDuration(0);
-        setAccumulatedPoints(0);
-        eventsRef.current = [];
-        pathRef.current = [];
-        return;
+  // Carries on the interrupted trip from its checkpoint. The time away is a gap in the path:
+  // the first new fix isn't joined to the last old one for distance.
+  const resumeInterruptedTrip = useCallback(() => {
+    const checkpoint = interruptedTrip;
+    if (!checkpoint) return null;
+    setInterruptedTrip(null);
+    restoreCheckpoint(checkpoint);
+    startTracking();
+    const now = clock.now();
+    recordingGapsRef.current.push({ afterIndex: pathRef.current.length - 1, from: checkpoint.savedAt, to: now });
+    recordingSinceRef.current = now;
+    segmentRef.current = { startTime: now, distance: 0, maxSpeed: 0 };
+    setIsPaused(false);
+    setDistance(checkpoint.distance);
+    setDuration(Math.floor(recordedMs(segmentsRef.current, null, now) / 1000));
+    setAccumulatedPoints(checkpoint.points);
+    setRewardEligible(checkpoint.rewardEligible);
+    setIsTripActive(true);
+    isCheckpointingRef.current = true;
+    prevLocationRef.current = null;
+    return checkpoint;
+  }, [interruptedTrip, startTracking]);
+
+  // Pausing closes the segment: no scoring, timer, distance or path until the trip resumes.
+  // Anything left open, like a speeding episode, is charged to the segment it happened in.
+  const pauseTrip = useCallback(() => {
+    const segment = segmentRef.current;
+    if (!isTripActive || !segment) return;
+    const now = clock.now();
+    const closingEvents = flushEvents();
+    eventsRef.current.push(...closingEvents);
+    setAccumulatedPoints(prev => prev + closingEvents.reduce((sum, e) => sum + e.points, 0));
+
+    segmentsRef.current.push({ ...segment, endTime: now });
+    segmentRef.current = null;
+    closeLightSpan(now);
+    lightSinceRef.current = null;
+    setDuration(Math.floor(recordedMs(segmentsRef.current, null, now) / 1000));
+    setIsPaused(true);
+  }, [isTripActive, flushEvents]);
+
+  // Opens a new segment; where the car moved while paused isn't counted
+  const resumeTrip = useCallback(() => {
+    if (!isTripActive || segmentRef.current) return;
+    const now = clock.now();
+    const pausedAt = segmentsRef.current[segmentsRef.current.length - 1]?.endTime;
+    if (pausedAt !== undefined) recordPause(pausedAt, now);
+    segmentRef.current = { startTime: now, distance: 0, maxSpeed: 0 };
+    recordingSinceRef.current = now;
+    prevLocationRef.current = null;
+    setIsPaused(false);
+  }, [isTripActive, recordPause]);
+
+  // Builds the trip from the refs and the totals given, then stores, syncs and credits it
+  const saveTrip = async (totals: TripTotals, startPoint: LocationPoint | null, endPoint: LocationPoint | null, endedAt?: number) => {
+    const { distance, rewardEligible, driverConfidence, intersections } = totals;
+    const tripPoints = totals.points;
+
+    // Determine mode and validity from the whole trip
+    const transitConfig = TRIP_CLASSIFIER_CONFIG.TRANSIT;
+    const transit = distance >= transitConfig.MIN_DISTANCE_KM
+        ? await fetchTransitProximity(pathRef.current, transitConfig.SAMPLE_POINTS, transitConfig.RADIUS_M)
+        : null;
+    const classification = classifyTrip({
+        samples: speedTraceRef.current,
+        events: eventsRef.current,
+        maxSpeed: maxSpeedRef.current,
+        distanceKm: distance,
+        driverConfidence,
+        rewardEligible,
+        transit
+    });
+    const { mode, validity } = classification;
+    speedTraceRef.current = [];
+
+    if (classification.passengerDetected) {
+        eventsRef.current.push({
+            type: 'PASSENGER_DETECTED',
+            timestamp: endedAt ?? clock.now(),
+            points: 0,
+            description: 'Passenger Detected: No Points Awarded'
+        });
     }
 
-    // Determine Mode based on confidence and speed
-    let mode: 'car' | 'bus' | 'train' | 'walk' | 'unknown' = 'car';
-    if (maxSpeedRef.current > 180) mode = 'train';
-    else if (maxSpeedRef.current < 20) mode = 'walk';
-    
-    let validity: TripValidity = 'VALID';
-    if (!rewardEligible) validity = 'INVALID_HANDHELD';
-    else if (driverConfidence < 0.4) validity = 'INVALID_PASSENGER';
-    else if (mode === 'train') validity = 'INVALID_TRAIN';
-
-    // Calculate final scores
-    const negativeEventsCount = eventsRef.current.filter(e => e.points < 0).length;
-    const safetyScore = Math.max(0, 100 - (negativeEventsCount * 5));
-    
     // Zero out points if invalid
-    let finalPoints = (validity === 'VALID') ? Math.floor(accumulatedPoints) : 0;
+    let finalPoints = (validity === 'VALID') ? Math.floor(tripPoints) : 0;
 
     // --- COMPRESSION ---
     // Apply RDP algorithm to reduce point count (5 meter tolerance)
     // This reduces storage size by ~90% while keeping visual fidelity
-    const compressedPath = simplifyPath(pathRef.current, 5);
+    const { path: compressedPath, gaps: recordingGaps } = compressPath(pathRef.current, recordingGapsRef.current);
 
+    const endTime = endedAt ?? clock.now();
+    const autoRecorded = autoRecordedRef.current;
+    closeWeatherSpan(endTime);
+    weatherSinceRef.current = null;
+    const weatherSeconds = weatherSecondsRef.current;
+    closeLightSpan(endTime);
+    lightSinceRef.current = null;
+    const hasLightSplit = LIGHT_PHASES.some(phase => lightSplitRef.current[phase].duration > 0); // Not without a single fix
+    const lightSplit = emptyLightSplit();
+    LIGHT_PHASES.forEach(phase => {
+        lightSplit[phase] = { ...lightSplitRef.current[phase], duration: Math.round(lightSplitRef.current[phase].duration) };
+    });
+    if (segmentRef.current) {
+        segmentsRef.current.push({ ...segmentRef.current, endTime });
+        segmentRef.current = null;
+    }
+    const segments = segmentsRef.current;
+    const tripDuration = Math.round(recordedMs(segments, null, endTime) / 1000);
+    const scoring = scoreFields({ events: eventsRef.current, distance, duration: tripDuration, path: compressedPath });
     const newTrip: Trip = {
-        id: Date.now().toString(),
+        id: endTime.toString(),
+        vehicleId: activeVehicleId || undefined,
         startTime: startTimeRef.current,
-        endTime: Date.now(),
+        endTime,
         distance: distance,
-        duration: duration,
+        duration: tripDuration,
         points: finalPoints,
         maxSpeed: maxSpeedRef.current,
-        complianceScore: safetyScore,
+        ...scoring,
         events: eventsRef.current,
         path: compressedPath, // Save optimized path
         startName: startPoint?.name || "Unknown Location",
@@ -197,16 +473,32 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
         // Save new strict fields
         rewardEligible: rewardEligible && validity === 'VALID',
         driverConfidence: driverConfidence,
-        modeOfTransport: mode
+        modeOfTransport: mode,
+        classification: {
+            confidence: classification.confidence,
+            reasons: classification.reasons,
+            // Kept so a successful contest can pay out what the drive earned
+            withheldPoints: CONTESTABLE_VALIDITIES.includes(validity) ? Math.floor(tripPoints) : undefined,
+            handheld: rewardEligible ? undefined : true
+        },
+        autoRecorded: autoRecorded || undefined,
+        reviewed: autoRecorded ? false : undefined,
+        weather: Object.keys(weatherSeconds).length > 0 ? weatherSeconds : undefined,
+        intersections: intersections.length > 0 ? intersections : undefined,
+        lightSplit: hasLightSplit ? lightSplit : undefined,
+        recordingGaps: recordingGaps.length > 0 ? recordingGaps : undefined,
+        segments
     };
 
     setRecentTrips(prev => [newTrip, ...prev].slice(0, 50));
+    // Only now is the trip safe: killed during the transit lookup above, it comes back from the checkpoint
+    tripCheckpoint.clear();
 
     if (auth.currentUser) {
         try {
             await syncService.add('trips', newTrip, newTrip.id);
             await userRepository.updateUser(auth.currentUser.uid, {
-                currentScore: safetyScore,
+                currentScore: scoring.complianceScore,
                 lastActive: Date.now()
             });
         } catch (e) {
@@ -214,20 +506,59 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
         }
     }
 
-    if (validity === 'VALID') {
+    // Auto-recorded trips are credited when the user keeps them in the trip history
+    if (validity === 'VALID' && !autoRecorded) {
         const { updatedChallenges, awardedPoints } = processTripForChallenges(newTrip, userChallenges, stats);
         setUserChallenges(updatedChallenges);
+        setStats(prev => applyTripToStats(prev, newTrip, awardedPoints));
+    }
+  };
+  // Same for saving: the memoised callbacks below always save with the latest render's state
+  const saveTripRef = useRef(saveTrip);
+  useEffect(() => {
+    saveTripRef.current = saveTrip;
+  });
 
-        setStats(prev => ({
-            points: prev.points + finalPoints + awardedPoints,
-            streak: safetyScore >= 95 ? prev.streak + 1 : 0, 
-            complianceScore: Math.round((prev.complianceScore * prev.totalTrips + safetyScore) / (prev.totalTrips + 1)),
-            totalDistance: prev.totalDistance + distance,
-            totalTrips: prev.totalTrips + 1
-        }));
+  // `endedAt` lets auto-detection end the trip when the car actually stopped, not when the stop was confirmed
+  const stopTrip = useCallback(async (startPoint: LocationPoint | null, endPoint: LocationPoint | null, shouldSave: boolean = true, endedAt?: number) => {
+    // Read before tracking stops, while a session replay still owns the clock
+    const endTime = endedAt ?? clock.now();
+    setIsTripActive(false);
+    setIsPaused(false);
+    stopTracking();
+    isCheckpointingRef.current = false;
+    
+    if (!shouldSave) {
+        tripCheckpoint.clear();
+        setDistance(0);
+        setDuration(0);
+        setAccumulatedPoints(0);
+        eventsRef.current = [];
+        pathRef.current = [];
+        speedTraceRef.current = [];
+        return;
     }
 
-  }, [distance, duration, accumulatedPoints, rewardEligible, driverConfidence, userChallenges, stats, setRecentTrips, setStats, setUserChallenges, stopTracking]);
+    // A speeding episode still open when the trip ended is closed and charged now
+    const closingEvents = flushEvents();
+    eventsRef.current.push(...closingEvents);
+    await saveTripRef.current({
+        distance,
+        points: accumulatedPoints + closingEvents.reduce((sum, e) => sum + e.points, 0),
+        rewardEligible,
+        driverConfidence,
+        intersections: [...earlierIntersectionsRef.current, ...getIntersections()]
+    }, startPoint, endPoint, endTime);
+  }, [distance, accumulatedPoints, rewardEligible, driverConfidence, flushEvents, getIntersections, stopTracking]);
+
+  // Saves the interrupted trip as it stood at its last checkpoint
+  const finaliseInterruptedTrip = useCallback(async () => {
+    const checkpoint = interruptedTrip;
+    if (!checkpoint) return;
+    setInterruptedTrip(null);
+    restoreCheckpoint(checkpoint);
+    await saveTripRef.current(checkpoint, null, null, checkpoint.savedAt);
+  }, [interruptedTrip]);
 
   return { 
       isTripActive, 
@@ -243,12 +574,24 @@ export const useTrip = (setupMode: SetupMode | null, calibratedOrientation: Devi
       startTrip, 
       stopTrip, 
       startTracking, 
+      stopTracking, 
       isPassenger, 
       weather, 
+      weatherSpeedLimit,
       isSchoolZone, 
       activeSchoolTime,
       isSignalLost,
       driverConfidence,
-      rewardEligible
+      rewardEligible,
+      pendingCrash,
+      confirmCrash,
+      dismissCrash,
+      fatigueRisk,
+      isPaused,
+      pauseTrip,
+      resumeTrip,
+      interruptedTrip,
+      resumeInterruptedTrip,
+      finaliseInterruptedTrip
   };
 };
\ No newline at end of file
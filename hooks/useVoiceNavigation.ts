@@ -1,9 +1,10 @@
 
-import { useEffect, useRef, useState, useCallback } from 'react';
+import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type { Route, GeolocationData, User, LatLng } from '../types';
 import { calculateDistance, cleanRouteInstruction } from '../utils/helpers';
 import { getSnapToRoute } from '../utils/geometry';
-import { NAV_CONFIG } from '../utils/config';
+import { NAV_CONFIG, VIOLATION_CONFIG } from '../utils/config';
+import { cumulativeDistances, distanceAlong, findCurves } from '../utils/curvature';
 
 interface UseVoiceNavigationProps {
     isTripActive: boolean;
@@ -28,6 +29,22 @@ export const useVoiceNavigation = ({
     // Reroute Refs
     const offRouteStartTimeRef = useRef<number | null>(null);
     const lastSpokenIdRef = useRef<string | null>(null);
+    const warnedCurvesRef = useRef(new Set<number>());
+
+    // Bends on the route that don't coincide with a turn instruction, which is announced anyway
+    const routeCurves = useMemo(() => {
+        if (!activeRoute || activeRoute.coordinates.length < 2) return null;
+        const along = cumulativeDistances(activeRoute.coordinates);
+        const turnsAt = activeRoute.instructions.map(i => along[i.index] ?? -Infinity);
+        const curves = findCurves(activeRoute.coordinates).filter(c =>
+            !turnsAt.some(at => at >= c.startM - NAV_CONFIG.VOICE_EXECUTE_DIST && at <= c.endM + NAV_CONFIG.VOICE_EXECUTE_DIST)
+        );
+        return { along, curves };
+    }, [activeRoute]);
+
+    useEffect(() => {
+        warnedCurvesRef.current.clear();
+    }, [activeRoute]);
 
     // Voice Synthesis
     const speak = useCallback((text: string, force: boolean = false) => {
@@ -91,6 +108,21 @@ export const useVoiceNavigation = ({
              offRouteStartTimeRef.current = null;
         }
 
+        // 2b. Sharp Bend Warning
+        // Once per bend, early enough to brake at the current speed, and only if that speed is
+        // well above what the bend can comfortably be taken at
+        if (snapResult && routeCurves) {
+            const { CURVE_SPEED } = VIOLATION_CONFIG;
+            const speed = currentLocation.speed || 0;
+            const along = distanceAlong(activeRoute.coordinates, routeCurves.along, snapResult.matchedIndex, snapResult.snappedPoint);
+            const warnWithin = Math.max(CURVE_SPEED.WARNING_MIN_DIST_M, (speed / 3.6) * CURVE_SPEED.WARNING_LEAD_S);
+            const next = routeCurves.curves.findIndex(c => c.startM - along <= warnWithin && c.apexM >= along);
+            if (next >= 0 && !warnedCurvesRef.current.has(next) && speed > routeCurves.curves[next].advisorySpeed + CURVE_SPEED.MARGIN_KMH) {
+                warnedCurvesRef.current.add(next);
+                speak("Sharp bend ahead. Slow down.", true);
+            }
+        }
+
         // 3. Update Instruction Index
         // Find the next instruction relative to our snapped position
         const instructions = activeRoute.instructions;
@@ -137,7 +169,7 @@ export const useVoiceNavigation = ({
             }
         }
 
-    }, [currentLocation, isTripActive, activeRoute, speak, isOffRoute, onReroute]);
+    }, [currentLocation, isTripActive, activeRoute, routeCurves, speak, isOffRoute, onReroute]);
 
     return { spokenInstruction, isOffRoute, speak };
 };
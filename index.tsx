@@ -2,6 +2,34 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { FEATURE_FLAGS } from './utils/config';
+import { sensorSession } from './utils/sensorSession';
+import { locationProviders } from './utils/locationProvider';
+import { SimulatedLocationProvider, SimulatedDriveOptions } from './utils/simulatedLocationProvider';
+import { RouteDriveSimulator, RouteDriveOptions } from './utils/routeSimulator';
+
+declare global {
+  interface Window {
+    safedriveSensors?: typeof sensorSession & {
+      simulate: (options: SimulatedDriveOptions) => void;
+      simulateRoute: (options: RouteDriveOptions) => void;
+      clearProvider: () => void;
+    };
+  }
+}
+
+// Dev builds: record a drive with safedriveSensors.startRecording() / stopRecording(),
+// then replay it with safedriveSensors.loadReplay(ndjson, speed) before starting a trip.
+// safedriveSensors.simulate({ origin }) swaps in the simulated provider, simulateRoute({ route })
+// drives a Route (also available from the wrench button on the map); clearProvider() reverts.
+if (FEATURE_FLAGS.SENSOR_DEV_TOOLS) {
+  window.safedriveSensors = {
+    ...sensorSession,
+    simulate: (options: SimulatedDriveOptions) => locationProviders.setOverride(new SimulatedLocationProvider(options)),
+    simulateRoute: (options: RouteDriveOptions) => locationProviders.setOverride(new RouteDriveSimulator(options)),
+    clearProvider: () => locationProviders.setOverride(null),
+  };
+}
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
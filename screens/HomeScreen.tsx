@@ -4,15 +4,31 @@ import { useTrip } from '../hooks/useTrip';
 import { useLocalStorage } from '../hooks/useLocalStorage';
 import { useVoiceNavigation } from '../hooks/useVoiceNavigation';
 import { useWakeLock } from '../hooks/useWakeLock';
+import { useAutoTripDetection } from '../hooks/useAutoTripDetection';
+import { useRegionProfile } from '../hooks/useRegionProfile';
 import { useNavigation } from '../context/NavigationContext';
-import type { Screen, SetupMode, Route, LocationPoint, User } from '../types';
+import type { Screen, SetupMode, Route, LocationPoint, User, AutoTripSettings, EmergencyContact, DrivingEvent, WeatherCondition } from '../types';
 import WarningToast from '../components/WarningToast';
 import MapView, { MapViewHandle } from '../components/MapView';
 import NavigationInput from '../components/NavigationInput';
 import SavedPlaces from '../components/SavedPlaces';
 import SetupSelectionModal from '../components/SetupSelectionModal';
 import RecenterFab from '../components/RecenterFab';
-import { ArrowRightIcon, XIcon, VolumeUpIcon, VolumeOffIcon, SunIcon, MoonIcon, SearchIcon, ConeIcon, TrophyIcon, AlertTriangleIcon, CrosshairIcon } from '../components/icons';
+import DeveloperMenu from '../components/DeveloperMenu';
+import CrashAlertModal from '../components/CrashAlertModal';
+import InterruptedTripModal from '../components/InterruptedTripModal';
+import { AUTO_TRIP_CONFIG, FEATURE_FLAGS } from '../utils/config';
+import { displaySpeed, displayDistance } from '../utils/regions';
+import { clock } from '../utils/clock';
+import { lightPhase } from '../utils/solar';
+import { ArrowRightIcon, XIcon, VolumeUpIcon, VolumeOffIcon, SunIcon, MoonIcon, SearchIcon, ConeIcon, TrophyIcon, AlertTriangleIcon, CrosshairIcon, WrenchIcon } from '../components/icons';
+
+const WEATHER_BADGES: Record<WeatherCondition, { icon: string; label: string }> = {
+    clear: { icon: '☀️', label: 'Clear' },
+    rain: { icon: '🌧️', label: 'Rain' },
+    snow: { icon: '❄️', label: 'Snow' },
+    unknown: { icon: '', label: '' }
+};
 
 interface HomeScreenProps {
     setActiveScreen: (screen: Screen) => void;
@@ -22,11 +38,20 @@ interface HomeScreenProps {
 }
 
 const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, toggleTheme }) => {
-    const { enterNavigation, exitNavigation, navigationActive, setFullscreen, isFullscreen } = useNavigation();
+    const { enterNavigation, exitNavigation, pauseNavigation, resumeNavigation, navigationActive, setFullscreen, isFullscreen } = useNavigation();
     
     const [mode, setMode] = useState<'idle' | 'searching' | 'navigating' | 'freedrive'>('idle');
     const [setupMode, setSetupMode] = useLocalStorage<SetupMode | null>('setup-mode', 'mount');
     const [showSetupModal, setShowSetupModal] = useState(false);
+    const [autoTripSettings] = useLocalStorage<AutoTripSettings>('auto-trip-settings', {
+        enabled: false,
+        startAfterSeconds: AUTO_TRIP_CONFIG.DEFAULT_START_AFTER_SECONDS,
+        stopAfterSeconds: AUTO_TRIP_CONFIG.DEFAULT_STOP_AFTER_SECONDS
+    });
+    const [isAutoTrip, setIsAutoTrip] = useState(false);
+    const [emergencyContacts] = useLocalStorage<EmergencyContact[]>('emergency-contacts', []);
+    const [escalatedCrash, setEscalatedCrash] = useState<DrivingEvent | null>(null); // Keeps the help screen up after recording
+    const [showDevMenu, setShowDevMenu] = useState(false);
     const [routeError, setRouteError] = useState<string | undefined>(undefined);
     
     // UI States
@@ -49,11 +74,15 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
     const [timeRemaining, setTimeRemaining] = useState<string>('0 min');
     const [distanceRemaining, setDistanceRemaining] = useState<string>('0 km');
     
-    const { isTripActive, location, distance, points, speedLimit, warnings, lastEvent, startTrip, stopTrip, startTracking, rewardEligible } = useTrip(setupMode, null);
-    const mapViewRef = useRef<MapViewHandle>(null);
-
     const activeRoute = allRoutes && allRoutes.length > 0 ? allRoutes[0] : null;
+
+    const { isTripActive, location, motion, distance, points, speedLimit, weather, weatherSpeedLimit, warnings, lastEvent, startTrip, stopTrip, startTracking, stopTracking, rewardEligible, pendingCrash, confirmCrash, dismissCrash, fatigueRisk, isPaused, pauseTrip, resumeTrip, interruptedTrip, resumeInterruptedTrip, finaliseInterruptedTrip } = useTrip(setupMode, null, mode === 'navigating' ? activeRoute : null);
+    const mapViewRef = useRef<MapViewHandle>(null);
     const { speak } = useVoiceNavigation({ isTripActive, activeRoute, currentLocation: location, isMuted, user });
+    const region = useRegionProfile(location);
+    // Out of daylight the map goes dark while driving, whatever the app theme, to spare night vision
+    const isDriving = mode === 'navigating' || mode === 'freedrive';
+    const mapTheme = isDriving && location && lightPhase(location.latitude, location.longitude, clock.now()) !== 'day' ? 'dark' : theme;
 
     useWakeLock(mode === 'navigating' || mode === 'freedrive');
 
@@ -102,9 +131,9 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
             
             setArrivalTime(arrivalDate.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }));
             setTimeRemaining(`${Math.ceil(remainingSeconds / 60)} min`);
-            setDistanceRemaining(`${remainingKm.toFixed(1)} km`);
+            setDistanceRemaining(displayDistance(remainingKm, region.distanceUnit));
         }
-    }, [mode, activeRoute, distance, location]);
+    }, [mode, activeRoute, distance, location, region]);
 
     const lastEventTimeRef = useRef<number>(0);
     useEffect(() => {
@@ -117,7 +146,8 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
             }
 
             if ((mode === 'navigating' || mode === 'freedrive') && !isMuted) {
-                speak(lastEvent.description || lastEvent.type.replace(/_/g, ' '));
+                // Break reminders cut in over navigation prompts
+                speak(lastEvent.description || lastEvent.type.replace(/_/g, ' '), lastEvent.type === 'FATIGUE_RISK');
             }
         }
     }, [lastEvent, speak, mode, isMuted]);
@@ -145,14 +175,26 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
         if (mapViewRef.current) mapViewRef.current.recenter();
     };
 
+    const handleTogglePause = () => {
+        if (isPaused) {
+            resumeTrip();
+            resumeNavigation();
+        } else {
+            pauseTrip();
+            pauseNavigation();
+        }
+        resetActivityTimer();
+    };
+
     const handleExitClick = () => {
         setShowSaveTripModal(true);
         setFullscreen(false); // Force UI visible
     };
 
-    const confirmEndTrip = (save: boolean) => {
-        stopTrip(startPoint, destinationPoint, save);
+    const confirmEndTrip = (save: boolean, endedAt?: number) => {
+        stopTrip(startPoint, destinationPoint, save, endedAt);
         exitNavigation(); // Update Global State
+        setIsAutoTrip(false);
         setShowSaveTripModal(false);
         setDestinationPoint(null);
         setAllRoutes(null);
@@ -162,6 +204,39 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
         mapViewRef.current?.recenter();
     };
 
+    // Picks up a trip the app was closed or killed during, as a free drive: the route isn't kept
+    const handleResumeInterruptedTrip = () => {
+        const checkpoint = resumeInterruptedTrip();
+        if (!checkpoint) return;
+        setIsAutoTrip(checkpoint.autoRecorded);
+        enterNavigation();
+        setMode('freedrive');
+        setIsMapCentered(true);
+        mapViewRef.current?.recenter();
+    };
+
+    // --- AUTO TRIP DETECTION ---
+    // Starts a free drive on its own; the user reviews it afterwards in the trip history
+    useAutoTripDetection({
+        settings: autoTripSettings,
+        isIdle: mode === 'idle' && !interruptedTrip, // Not while an interrupted trip waits to be resumed or saved
+        isTripActive,
+        isAutoTrip: isAutoTrip && !isPaused, // A paused trip is parked on purpose; it isn't ended for standing still
+        location,
+        motion,
+        startTracking,
+        stopTracking,
+        onAutoStart: (startedAt) => {
+            setIsAutoTrip(true);
+            startTrip({ autoRecorded: true, startedAt });
+            enterNavigation();
+            setMode('freedrive');
+            setIsMapCentered(true);
+            mapViewRef.current?.recenter();
+        },
+        onAutoStop: (stoppedAt) => confirmEndTrip(true, stoppedAt)
+    });
+
     const handleRoutesFound = useCallback((routes: Route[]) => {
         setAllRoutes(routes);
         setRouteError(undefined);
@@ -206,8 +281,9 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
 
     // HUD RENDER
     const renderDrivingHUD = () => {
-        const currentSpeed = location?.speed ? Math.round(location.speed) : 0;
-        const isSpeeding = speedLimit !== null && currentSpeed > speedLimit + 4;
+        const speedKmh = location?.speed || 0;
+        const isSpeeding = speedLimit !== null && speedKmh > speedLimit + region.speedToleranceKmh;
+        const currentSpeed = displaySpeed(speedKmh, region.distanceUnit);
 
         // FADE UI based on isFullScreen from Context
         const uiOpacity = isFullscreen ? 'opacity-0 pointer-events-none' : 'opacity-100 pointer-events-auto';
@@ -241,8 +317,21 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
                             </div>
                         ) : (
                             <div className="bg-dark-900/90 backdrop-blur-xl border border-white/10 rounded-full px-4 py-2 shadow-lg flex items-center space-x-2">
-                                <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse"></span>
-                                <span className="font-bold text-white text-xs uppercase tracking-wider">Free Drive</span>
+                                <span className={`w-2 h-2 rounded-full ${isPaused ? 'bg-amber-400' : 'bg-red-500 animate-pulse'}`}></span>
+                                <span className="font-bold text-white text-xs uppercase tracking-wider">{isAutoTrip ? 'Auto-Detected Drive' : 'Free Drive'}</span>
+                            </div>
+                        )}
+                        {weather !== 'unknown' && (
+                            <div className={`backdrop-blur-xl border rounded-full px-3 py-2 shadow-lg flex items-center space-x-1.5 ${weatherSpeedLimit ? 'bg-blue-600/90 border-blue-300/40' : 'bg-dark-900/90 border-white/10'}`}>
+                                <span className="text-sm">{WEATHER_BADGES[weather].icon}</span>
+                                <span className="font-bold text-white text-xs uppercase tracking-wider">{WEATHER_BADGES[weather].label}</span>
+                                {weatherSpeedLimit && <span className="font-black text-white text-xs">· {displaySpeed(weatherSpeedLimit, region.distanceUnit)}</span>}
+                            </div>
+                        )}
+                        {fatigueRisk && (
+                            <div className={`backdrop-blur-xl border rounded-full px-3 py-2 shadow-lg flex items-center space-x-1.5 ${fatigueRisk === 'SEVERE' ? 'bg-red-600/90 border-red-300/40 animate-pulse' : 'bg-amber-500/90 border-amber-200/40'}`}>
+                                <span className="text-sm">☕</span>
+                                <span className="font-bold text-white text-xs uppercase tracking-wider">Take a Break</span>
                             </div>
                         )}
                      </div>
@@ -301,12 +390,15 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
                                 </>
                             ) : (
                                 <div>
-                                    <h3 className="text-xl font-bold text-slate-900 dark:text-white">Active Trip</h3>
-                                    <p className="text-xs text-slate-500">{distance.toFixed(1)} km traveled</p>
+                                    <h3 className="text-xl font-bold text-slate-900 dark:text-white">{isPaused ? 'Trip Paused' : 'Active Trip'}</h3>
+                                    <p className="text-xs text-slate-500">{displayDistance(distance, region.distanceUnit)} traveled</p>
                                 </div>
                             )}
                         </div>
-                        <div>
+                        <div className="flex items-center space-x-2">
+                            <button onClick={handleTogglePause} className={`px-5 py-3 font-bold rounded-full transition-colors shadow-sm ${isPaused ? 'bg-green-500 text-white hover:bg-green-400' : 'bg-slate-100 dark:bg-white/10 text-slate-700 dark:text-slate-200 hover:bg-slate-200 dark:hover:bg-white/20'}`} data-safe="true">
+                                {isPaused ? 'Resume' : 'Pause'}
+                            </button>
                             <button onClick={handleExitClick} className="px-6 py-3 bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 font-bold rounded-full hover:bg-red-200 dark:hover:bg-red-900/50 transition-colors shadow-sm" data-safe="true">
                                 Exit
                             </button>
@@ -320,7 +412,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
                         <span className={`text-4xl font-black font-display ${isSpeeding ? 'text-red-600' : 'text-slate-900 dark:text-white'}`}>{currentSpeed}</span>
                         {speedLimit && (
                              <div className="absolute -bottom-3 bg-white dark:bg-slate-800 border border-red-500 px-2 py-0.5 rounded text-[10px] font-bold text-slate-900 dark:text-white shadow-sm whitespace-nowrap">
-                                 LIMIT {speedLimit}
+                                 LIMIT {displaySpeed(speedLimit, region.distanceUnit)}
                              </div>
                         )}
                      </div>
@@ -347,6 +439,11 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
                     <button onClick={toggleTheme} className="w-12 h-12 flex items-center justify-center bg-white/90 dark:bg-dark-900/90 backdrop-blur-xl border border-slate-200 dark:border-white/10 rounded-full shadow-lg hover:scale-105 transition-all text-slate-700 dark:text-white">
                         {theme === 'dark' ? <SunIcon className="w-5 h-5" /> : <MoonIcon className="w-5 h-5" />}
                     </button>
+                    {FEATURE_FLAGS.SENSOR_DEV_TOOLS && (
+                        <button onClick={() => setShowDevMenu(true)} className="w-12 h-12 flex items-center justify-center bg-white/90 dark:bg-dark-900/90 backdrop-blur-xl border border-slate-200 dark:border-white/10 rounded-full shadow-lg hover:scale-105 transition-all text-slate-700 dark:text-white">
+                            <WrenchIcon className="w-5 h-5" />
+                        </button>
+                    )}
                  </div>
             </div>
 
@@ -405,7 +502,7 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
                     isNavigating={mode === 'navigating'} 
                     activeRoute={activeRoute} 
                     activeRouteIndex={0} 
-                    theme={theme}
+                    theme={mapTheme}
                     onUserInteraction={onMapUserInteraction}
                 />
             </div>
@@ -455,7 +552,30 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ setActiveScreen, user, theme, t
                  </div>
             )}
             
+            {(pendingCrash || escalatedCrash) && (
+                <CrashAlertModal
+                    crash={(pendingCrash ?? escalatedCrash)!}
+                    contacts={emergencyContacts}
+                    userName={user.name}
+                    speak={speak}
+                    onCancel={dismissCrash}
+                    onEscalate={() => { setEscalatedCrash(pendingCrash); confirmCrash(); }}
+                    onClose={() => setEscalatedCrash(null)}
+                />
+            )}
+
+            {interruptedTrip && mode === 'idle' && !isTripActive && (
+                <InterruptedTripModal checkpoint={interruptedTrip} onResume={handleResumeInterruptedTrip} onFinalise={finaliseInterruptedTrip} />
+            )}
+
             {showSetupModal && <SetupSelectionModal onSelect={handleSetupSelect} onCancel={() => setShowSetupModal(false)} />}
+            {showDevMenu && (
+                <DeveloperMenu
+                    activeRoute={activeRoute}
+                    currentLocation={location ? { lat: location.latitude, lng: location.longitude } : null}
+                    onClose={() => setShowDevMenu(false)}
+                />
+            )}
             
             {mode === 'idle' && renderIdleInterface()}
             {(mode === 'navigating' || mode === 'freedrive') && renderDrivingHUD()}
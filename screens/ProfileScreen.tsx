@@ -1,15 +1,22 @@
 
 import React, { useState, useMemo } from 'react';
-import type { Trip, Screen, User, UserStats } from '../types';
+import type { Trip, Screen, User, UserStats, Challenge, AutoTripSettings, EmergencyContact, LightPhase } from '../types';
 import { useLocalStorage } from '../hooks/useLocalStorage';
-import { useFirestoreCollection } from '../utils/sync';
+import { useFirestoreCollection, syncService } from '../utils/sync';
 import { auth } from '../utils/firebase';
 import { UserIcon, ClockIcon, RouteIcon, TrophyIcon, StarIcon, SupportIcon, ArrowRightIcon, LockIcon, SunIcon, MoonIcon, CarIcon, UsersIcon, EditIcon, TrashIcon, CallIcon, BriefcaseIcon, FileTextIcon } from '../components/icons';
 import GuestUpgradeModal from '../components/GuestUpgradeModal';
 import TripDetailModal from '../components/TripDetailModal';
 import GarageModal from '../components/GarageModal';
+import OfflineRoadDataModal from '../components/OfflineRoadDataModal';
 import { formatDistance } from '../utils/helpers';
 import { userRepository } from '../utils/userRepository';
+import { processTripForChallenges, applyTripToStats } from '../utils/challengeProcessor';
+import { INITIAL_CHALLENGES } from '../data/challenges';
+import { AUTO_TRIP_CONFIG, TRIP_CLASSIFIER_CONFIG } from '../utils/config';
+import { REGION_PROFILES, displaySpeed, displayDistance, speedUnitLabel } from '../utils/regions';
+import { LIGHT_PHASES } from '../utils/solar';
+import { useRegionProfile, RegionSetting } from '../hooks/useRegionProfile';
 
 interface ProfileScreenProps {
     setActiveScreen: (screen: Screen) => void;
@@ -27,6 +34,12 @@ const StatPill: React.FC<{ label: string; value: string; color: string }> = ({ l
     </div>
 );
 
+const LIGHT_PHASE_STYLES: Record<LightPhase, { label: string; bar: string; text: string }> = {
+    day: { label: 'Daylight', bar: 'bg-amber-400', text: 'text-amber-500' },
+    twilight: { label: 'Twilight', bar: 'bg-orange-500', text: 'text-orange-500' },
+    night: { label: 'Dark', bar: 'bg-indigo-500', text: 'text-indigo-400' }
+};
+
 const DayCluster: React.FC<{ dateKey: string; trips: Trip[]; onSelectTrip: (t: Trip) => void }> = ({ dateKey, trips, onSelectTrip }) => {
     const [isExpanded, setIsExpanded] = useState(false);
     
@@ -66,6 +79,7 @@ const DayCluster: React.FC<{ dateKey: string; trips: Trip[]; onSelectTrip: (t: T
                                 <span>•</span>
                                 <span>{formatDistance(trip.distance)} km</span>
                                 {trip.points > 0 && <span className="text-brand-cyan font-bold">+{trip.points} pts</span>}
+                                {trip.autoRecorded && !trip.reviewed && <span className="px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-500/10 text-amber-600 dark:text-amber-400 font-black uppercase">Review</span>}
                             </div>
                         </div>
                     </button>
@@ -87,12 +101,24 @@ const DayCluster: React.FC<{ dateKey: string; trips: Trip[]; onSelectTrip: (t: T
 const ProfileScreen: React.FC<ProfileScreenProps> = ({ setActiveScreen, user, onUpdateUser, onLogout, theme, toggleTheme }) => {
     const isGuest = !auth.currentUser;
     const { data: rawTrips } = useFirestoreCollection<Trip>('trips', [], 'recent-trips');
-    const [localTrips] = useLocalStorage<Trip[]>('recent-trips', []);
+    const [localTrips, setLocalTrips] = useLocalStorage<Trip[]>('recent-trips', []);
     const allTrips = (isGuest ? localTrips : rawTrips).sort((a,b) => b.startTime - a.startTime);
-    const [stats] = useLocalStorage<UserStats>('user-stats', { points: 0, streak: 0, complianceScore: 100, totalDistance: 0, totalTrips: 0 });
+    const [stats, setStats] = useLocalStorage<UserStats>('user-stats', { points: 0, streak: 0, complianceScore: 100, totalDistance: 0, totalTrips: 0 });
+    const [userChallenges, setUserChallenges] = useLocalStorage<Challenge[]>('user-challenges', INITIAL_CHALLENGES);
+    const [autoTripSettings, setAutoTripSettings] = useLocalStorage<AutoTripSettings>('auto-trip-settings', {
+        enabled: false,
+        startAfterSeconds: AUTO_TRIP_CONFIG.DEFAULT_START_AFTER_SECONDS,
+        stopAfterSeconds: AUTO_TRIP_CONFIG.DEFAULT_STOP_AFTER_SECONDS
+    });
+    const [regionSetting, setRegionSetting] = useLocalStorage<RegionSetting>('region-setting', 'auto');
+    const region = useRegionProfile();
+    const [emergencyContacts, setEmergencyContacts] = useLocalStorage<EmergencyContact[]>('emergency-contacts', []);
+    const [newContactName, setNewContactName] = useState('');
+    const [newContactPhone, setNewContactPhone] = useState('');
     
     // Modals
     const [showGarage, setShowGarage] = useState(false);
+    const [showOfflineRoads, setShowOfflineRoads] = useState(false);
     const [showUpgradeModal, setShowUpgradeModal] = useState(false);
     const [selectedTrip, setSelectedTrip] = useState<Trip | null>(null);
     const [isEditing, setIsEditing] = useState(false);
@@ -107,6 +133,68 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ setActiveScreen, user, on
         } catch (e) { alert("Failed to save"); }
     };
 
+    // Auto-recorded trips earn nothing until kept; discarding removes them everywhere
+    const handleReviewTrip = async (trip: Trip, keep: boolean) => {
+        if (keep) {
+            setLocalTrips(prev => prev.map(t => t.id === trip.id ? { ...t, reviewed: true } : t));
+            if (trip.validity === 'VALID') {
+                const { updatedChallenges, awardedPoints } = processTripForChallenges(trip, userChallenges, stats);
+                setUserChallenges(updatedChallenges);
+                setStats(applyTripToStats(stats, trip, awardedPoints));
+            }
+        } else {
+            setLocalTrips(prev => prev.filter(t => t.id !== trip.id));
+        }
+        setSelectedTrip(null);
+
+        if (!isGuest) {
+            try {
+                if (keep) await syncService.update('trips', trip.id, { reviewed: true });
+                else await syncService.delete('trips', trip.id);
+            } catch (e) {
+                console.error("Failed to sync trip review:", e);
+            }
+        }
+    };
+
+    // "I was driving": only doubtful calls can be contested (see TripDetailModal), and they are
+    // overturned on the spot. The drive is then judged as any other: repeated handheld use still
+    // voids it, which the classifier had set aside in favour of the bus / train / passenger call.
+    const handleContestClassification = async (trip: Trip) => {
+        if (!trip.classification || trip.classification.confidence >= TRIP_CLASSIFIER_CONFIG.CONTEST_ACCEPT_BELOW) return;
+        const classification = { ...trip.classification, contest: 'reinstated' as const, contestedAt: Date.now() };
+        const changes: Partial<Trip> = trip.classification.handheld
+            ? { classification, validity: 'INVALID_HANDHELD', modeOfTransport: 'car', rewardEligible: false, points: 0 }
+            : { classification, validity: 'VALID', modeOfTransport: 'car', rewardEligible: true, points: trip.classification.withheldPoints || 0 };
+        const updated = { ...trip, ...changes };
+
+        setLocalTrips(prev => prev.map(t => t.id === trip.id ? updated : t));
+        setSelectedTrip(updated);
+        // Unreviewed auto-recorded trips are credited when kept instead
+        if (updated.validity === 'VALID' && !(trip.autoRecorded && !trip.reviewed)) {
+            const { updatedChallenges, awardedPoints } = processTripForChallenges(updated, userChallenges, stats);
+            setUserChallenges(updatedChallenges);
+            setStats(applyTripToStats(stats, updated, awardedPoints));
+        }
+
+        if (!isGuest) {
+            try {
+                await syncService.update('trips', trip.id, changes);
+            } catch (e) {
+                console.error("Failed to sync trip contest:", e);
+            }
+        }
+    };
+
+    const handleAddContact = () => {
+        if (!newContactName.trim() || !newContactPhone.trim()) return;
+        setEmergencyContacts(prev => [...prev, { id: Date.now().toString(), name: newContactName.trim(), phone: newContactPhone.trim() }]);
+        setNewContactName('');
+        setNewContactPhone('');
+    };
+
+    const lightTotal = stats.lightSplit ? LIGHT_PHASES.reduce((sum, phase) => sum + stats.lightSplit![phase].distance, 0) : 0;
+
     const clusteredTrips = useMemo(() => {
         const groups: Record<string, Trip[]> = {};
         allTrips.forEach(trip => {
@@ -120,7 +208,8 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ setActiveScreen, user, on
     return (
         <div className="h-full overflow-y-auto bg-slate-50 dark:bg-dark-950 pb-32 transition-colors duration-300">
             {showGarage && <GarageModal onClose={() => setShowGarage(false)} user={user} />}
-            {selectedTrip && <TripDetailModal trip={selectedTrip} onClose={() => setSelectedTrip(null)} />}
+            {showOfflineRoads && <OfflineRoadDataModal onClose={() => setShowOfflineRoads(false)} />}
+            {selectedTrip && <TripDetailModal trip={selectedTrip} onClose={() => setSelectedTrip(null)} onReview={(keep) => handleReviewTrip(selectedTrip, keep)} onContest={() => handleContestClassification(selectedTrip)} />}
             {showUpgradeModal && <GuestUpgradeModal currentUser={user} onSuccess={(u) => { onUpdateUser(u); setShowUpgradeModal(false); }} onCancel={() => setShowUpgradeModal(false)} />}
 
             {/* HERO */}
@@ -177,6 +266,124 @@ const ProfileScreen: React.FC<ProfileScreenProps> = ({ setActiveScreen, user, on
                 </div>
             </div>
 
+            {/* Day & Night */}
+            {lightTotal > 0 && stats.lightSplit && (
+                <div className="px-6 mb-8">
+                    <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Day &amp; Night</h3>
+                    <div className="p-4 bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800">
+                        <div className="flex h-2 rounded-full overflow-hidden bg-slate-100 dark:bg-white/5 mb-4">
+                            {LIGHT_PHASES.map(phase => (
+                                <div key={phase} className={LIGHT_PHASE_STYLES[phase].bar} style={{ width: `${(stats.lightSplit![phase].distance / lightTotal) * 100}%` }} />
+                            ))}
+                        </div>
+                        <div className="grid grid-cols-3 gap-2">
+                            {LIGHT_PHASES.map(phase => (
+                                <div key={phase} className="flex flex-col items-center">
+                                    <span className={`text-[10px] font-bold uppercase tracking-wide ${LIGHT_PHASE_STYLES[phase].text}`}>{LIGHT_PHASE_STYLES[phase].label}</span>
+                                    <span className="text-sm font-black text-slate-900 dark:text-white">{displayDistance(stats.lightSplit![phase].distance, region.distanceUnit)}</span>
+                                    <span className="text-[10px] text-slate-500">{(stats.lightSplit![phase].duration / 3600).toFixed(1)} h</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            )}
+
+            {/* Auto Trip Detection */}
+            <div className="px-6 mb-8">
+                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Trip Recording</h3>
+                <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-4 space-y-4">
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <p className="text-sm font-bold text-slate-900 dark:text-white">Auto-detect drives</p>
+                            <p className="text-xs text-slate-500">Records trips without tapping Start. Review them below.</p>
+                        </div>
+                        <button
+                            onClick={() => setAutoTripSettings(prev => ({ ...prev, enabled: !prev.enabled }))}
+                            className={`relative w-12 h-6 flex-shrink-0 rounded-full transition-colors ${autoTripSettings.enabled ? 'bg-green-500' : 'bg-slate-300 dark:bg-slate-600'}`}
+                        >
+                            <div className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full transition-transform ${autoTripSettings.enabled ? 'translate-x-6' : ''}`} />
+                        </button>
+                    </div>
+                    {autoTripSettings.enabled && (
+                        <div className="grid grid-cols-2 gap-3 animate-fade-in-up">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">
+                                Start after
+                                <select
+                                    value={autoTripSettings.startAfterSeconds}
+                                    onChange={e => setAutoTripSettings(prev => ({ ...prev, startAfterSeconds: Number(e.target.value) }))}
+                                    className="mt-1 w-full bg-slate-100 dark:bg-white/5 rounded-xl px-3 py-2 text-sm font-bold text-slate-900 dark:text-white normal-case"
+                                >
+                                    {AUTO_TRIP_CONFIG.START_AFTER_OPTIONS.map(s => <option key={s} value={s}>{s < 60 ? `${s} sec` : `${s / 60} min`} driving</option>)}
+                                </select>
+                            </label>
+                            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-wide">
+                                Stop after
+                                <select
+                                    value={autoTripSettings.stopAfterSeconds}
+                                    onChange={e => setAutoTripSettings(prev => ({ ...prev, stopAfterSeconds: Number(e.target.value) }))}
+                                    className="mt-1 w-full bg-slate-100 dark:bg-white/5 rounded-xl px-3 py-2 text-sm font-bold text-slate-900 dark:text-white normal-case"
+                                >
+                                    {AUTO_TRIP_CONFIG.STOP_AFTER_OPTIONS.map(s => <option key={s} value={s}>{s / 60} min stopped</option>)}
+                                </select>
+                            </label>
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {/* Region Rules */}
+            <div className="px-6 mb-8">
+                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Road Rules</h3>
+                <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-4 space-y-3">
+                    <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-wide">
+                        Region
+                        <select
+                            value={regionSetting}
+                            onChange={e => setRegionSetting(e.target.value as RegionSetting)}
+                            className="mt-1 w-full bg-slate-100 dark:bg-white/5 rounded-xl px-3 py-2 text-sm font-bold text-slate-900 dark:text-white normal-case"
+                        >
+                            <option value="auto">Automatic{regionSetting === 'auto' ? ` (${region.name})` : ''}</option>
+                            {REGION_PROFILES.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                    </label>
+                    <p className="text-xs text-slate-500">
+                        School zones {displaySpeed(region.schoolZone.speedLimit, region.distanceUnit)} {speedUnitLabel(region.distanceUnit)} · Tolerance {displaySpeed(region.speedToleranceKmh, region.distanceUnit)} {speedUnitLabel(region.distanceUnit)} · Emergency {region.emergencyNumber}
+                    </p>
+                    <button onClick={() => setShowOfflineRoads(true)} className="w-full flex items-center justify-between p-3 bg-slate-50 dark:bg-white/5 rounded-xl text-sm font-bold text-slate-900 dark:text-white">
+                        Offline Road Data
+                        <ArrowRightIcon className="w-4 h-4 text-slate-400" />
+                    </button>
+                </div>
+            </div>
+
+            {/* Emergency Contacts */}
+            <div className="px-6 mb-8">
+                <h3 className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Emergency Contacts</h3>
+                <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-800 p-4 space-y-3">
+                    <p className="text-xs text-slate-500">If a crash goes unanswered we call emergency services and text these people your location.</p>
+                    {emergencyContacts.map(contact => (
+                        <div key={contact.id} className="flex items-center justify-between p-3 bg-slate-50 dark:bg-white/5 rounded-xl">
+                            <div className="flex items-center space-x-3 min-w-0">
+                                <CallIcon className="w-4 h-4 text-red-500 flex-shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-slate-900 dark:text-white truncate">{contact.name}</p>
+                                    <p className="text-xs text-slate-500">{contact.phone}</p>
+                                </div>
+                            </div>
+                            <button onClick={() => setEmergencyContacts(prev => prev.filter(c => c.id !== contact.id))} className="p-2 text-slate-400 hover:text-red-500">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <input value={newContactName} onChange={e => setNewContactName(e.target.value)} placeholder="Name" className="flex-1 min-w-0 bg-slate-100 dark:bg-white/5 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-white" />
+                        <input value={newContactPhone} onChange={e => setNewContactPhone(e.target.value)} placeholder="Phone" type="tel" className="flex-1 min-w-0 bg-slate-100 dark:bg-white/5 rounded-xl px-3 py-2 text-sm text-slate-900 dark:text-white" />
+                        <button onClick={handleAddContact} disabled={!newContactName.trim() || !newContactPhone.trim()} className="px-4 bg-brand-cyan text-black text-xs font-bold rounded-xl disabled:opacity-40">Add</button>
+                    </div>
+                </div>
+            </div>
+
             {/* Trip History */}
             <div className="px-4">
                 <div className="flex justify-between items-center mb-4 px-2">
@@ -4,13 +4,13 @@ import { SupportIcon, ArrowLeftIcon, CallIcon, MailIcon, AlertTriangleIcon, Chat
 import { syncService } from '../utils/sync';
 import { auth } from '../utils/firebase';
 import type { Feedback } from '../types';
+import { useRegionProfile } from '../hooks/useRegionProfile';
 
 interface SupportScreenProps {
     onBack?: () => void;
 }
 
 const CUSTOMER_SUPPORT_NUMBER = '+61434712612';
-const EMERGENCY_NUMBER = '000';
 
 const FAQS = [
     {
@@ -33,6 +33,7 @@ const FAQS = [
 
 const SupportScreen: React.FC<SupportScreenProps> = ({ onBack }) => {
     const [openFaq, setOpenFaq] = useState<number | null>(null);
+    const { emergencyNumber } = useRegionProfile();
     
     // Feedback Modal State
     const [showFeedback, setShowFeedback] = useState(false);
@@ -85,8 +86,8 @@ const SupportScreen: React.FC<SupportScreenProps> = ({ onBack }) => {
                         <p className="text-[10px] opacity-90">Immediate Assistance</p>
                     </div>
                 </div>
-                <a href={`tel:${EMERGENCY_NUMBER}`} className="bg-white text-red-600 px-4 py-1.5 rounded-full text-xs font-bold hover:bg-red-50 transition-colors shadow-sm">
-                    Call 000
+                <a href={`tel:${emergencyNumber}`} className="bg-white text-red-600 px-4 py-1.5 rounded-full text-xs font-bold hover:bg-red-50 transition-colors shadow-sm">
+                    Call {emergencyNumber}
                 </a>
             </div>
 
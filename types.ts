@@ -5,6 +5,8 @@ export interface GeolocationData {
   speed: number | null; // km/h
   accuracy: number;
   heading: number | null; // degrees from north
+  speedConfidence?: number; // 0.0 - 1.0 (Kalman velocity certainty)
+  isEstimated?: boolean; // Dead-reckoned during a GPS outage, not a real fix
 }
 
 export interface DeviceMotionData {
@@ -18,6 +20,12 @@ export interface DeviceMotionData {
     beta: number | null;  // x-axis
     gamma: number | null; // y-axis
   };
+  // Raw reading before the platform removes gravity. Used to locate "down" in the phone's frame.
+  accelerationIncludingGravity?: {
+    x: number | null;
+    y: number | null;
+    z: number | null;
+  };
 }
 
 export interface DeviceOrientationData {
@@ -26,6 +34,29 @@ export interface DeviceOrientationData {
     gamma: number | null; // Y-axis rotation (roll)
 }
 
+// --- RAW SENSOR SAMPLES ---
+// Unfiltered readings as delivered by the platform, before Kalman/heading fusion.
+// These are what session recordings store and what replays feed back into useGeolocation.
+
+export interface PositionSample {
+    timestamp: number;
+    latitude: number;
+    longitude: number;
+    speed: number | null; // m/s (raw platform value)
+    accuracy: number; // metres
+    heading: number | null; // degrees from north
+}
+
+export interface MotionSample extends DeviceMotionData {
+    timestamp: number;
+}
+
+export interface OrientationSample extends DeviceOrientationData {
+    timestamp: number;
+    absolute: boolean;
+    compassHeading: number | null; // iOS webkitCompassHeading
+}
+
 
 export type DrivingEventType = 
     | 'SPEEDING' 
@@ -35,6 +66,8 @@ export type DrivingEventType =
     | 'PHONE_DISTRACTION' 
     | 'PHONE_NOT_STABLE' 
     | 'SMOOTH_BRAKING' 
+    | 'SMOOTH_LAUNCH'
+    | 'STEADY_CRUISING'
     | 'SAFE_DISTANCE' 
     | 'CRASH' 
     | 'PASSENGER_DETECTED'
@@ -43,10 +76,28 @@ export type DrivingEventType =
     | 'PHONE_TOUCH'
     | 'TRIP_INVALIDATED_PHONE_USE'
     | 'UNSAFE_CORNERING'
-    | 'AGGRESSIVE_LANE_CHANGE';
+    | 'AGGRESSIVE_LANE_CHANGE'
+    | 'CURVE_SPEEDING'
+    | 'ROLLING_STOP'
+    | 'CLEAN_STOP'
+    | 'FATIGUE_RISK'
+    | 'REST_BREAK';
 
 export type SeverityLevel = 'MINOR' | 'MODERATE' | 'SEVERE' | 'CRITICAL';
 
+// One continuous stretch over the limit, reported as a single event when it ends
+export interface SpeedingEpisode {
+    startTime: number;
+    endTime: number;
+    start: LatLng;
+    end: LatLng;
+    durationMs: number;
+    speedLimit: number; // km/h in effect at the peak
+    peakOverSpeed: number; // km/h over the limit
+    meanOverSpeed: number; // Time-weighted
+    trace: { t: number, speed: number, limit: number }[]; // t in ms from startTime; downsampled for charts
+}
+
 export interface DrivingEvent {
     type: DrivingEventType;
     timestamp: number;
@@ -62,10 +113,86 @@ export interface DrivingEvent {
     lng?: number;
     speed?: number;
     roadSpeedLimit?: number;
+    speedLimitReason?: string; // Which tag or rule set the limit, for disputes
+    episode?: SpeedingEpisode; // SPEEDING / SCHOOL_ZONE_SPEEDING
+    curve?: { radiusM: number, advisorySpeed: number }; // CURVE_SPEEDING: the bend and its comfortable speed (km/h)
 }
 
 export type TripValidity = 'VALID' | 'INVALID_TRAIN' | 'INVALID_BUS' | 'INVALID_PASSENGER' | 'INVALID_HANDHELD';
 
+export type ModeOfTransport = 'car' | 'bus' | 'train' | 'walk' | 'unknown';
+
+// How stopTrip arrived at modeOfTransport + validity, and what the user made of it
+export interface TripClassification {
+    confidence: number; // 0.0 - 1.0
+    reasons: string[]; // Evidence shown in the trip report
+    withheldPoints?: number; // Earned by the drive but not paid because of the classification
+    handheld?: boolean; // Repeated handheld use as well, so a reinstated trip is a handheld violation, not a valid drive
+    contest?: 'reinstated';
+    contestedAt?: number;
+}
+
+export type TrafficControlKind = 'stop' | 'give_way' | 'traffic_signals';
+
+// An OSM highway=stop / give_way / traffic_signals node
+export interface TrafficControl {
+    id: number;
+    kind: TrafficControlKind;
+    lat: number;
+    lng: number;
+    allWay?: boolean; // stop=all
+    direction?: string; // OSM direction=forward / backward, relative to the way it sits on
+}
+
+// One pass through a controlled intersection. Signals and give-way signs are only logged: we
+// can't see the light or the cross traffic.
+export interface IntersectionPassage {
+    controlId: number;
+    kind: TrafficControlKind;
+    timestamp: number; // When the car passed it
+    lat: number;
+    lng: number;
+    approachSpeed: number; // km/h on entering the approach
+    minSpeed: number; // km/h, lowest in the approach
+    stoppedMs: number; // Time at a standstill in the approach
+    outcome?: 'stopped' | 'rolling' | 'ran'; // Stop signs only
+}
+
+// From the sun's elevation (utils/solar.ts): twilight is civil twilight, night is darker
+export type LightPhase = 'day' | 'twilight' | 'night';
+
+export interface LightExposure {
+    distance: number; // km
+    duration: number; // seconds
+}
+
+export type LightSplit = Record<LightPhase, LightExposure>;
+
+// Driving between the user's pauses; a trip that was never paused has one
+export interface TripSegment {
+    startTime: number;
+    endTime: number;
+    distance: number; // km
+    maxSpeed: number; // km/h
+}
+
+// Time the app wasn't recording mid-trip (reloaded or killed, then the trip resumed)
+export interface RecordingGap {
+    afterIndex: number; // Last path point before the gap; the next one is the first after it
+    from: number;
+    to: number;
+}
+
+// Sub-scores and exposure from utils/scoringModel.ts, for the version in Trip.scoringModelVersion
+export interface TripScores {
+    overall: number; // 0-100, same as Trip.complianceScore
+    speed: number;
+    handling: number;
+    focus: number;
+    eventsPer100Km: number; // Penalised events, after merging
+    eventsPerHour: number;
+}
+
 export interface Trip {
   id: string;
   vehicleId?: string;
@@ -73,10 +200,12 @@ export interface Trip {
   startTime: number;
   endTime: number;
   distance: number; // in km
-  duration: number; // in seconds
+  duration: number; // in seconds, driving only: pauses and recording gaps are left out
   points: number;
   maxSpeed: number; // km/h
   complianceScore: number; // 0-100
+  scores?: TripScores;
+  scoringModelVersion?: number; // Absent on trips scored before the model was versioned (v1)
   events: DrivingEvent[];
   path?: LatLng[]; // Compressed route history (RDP)
   startName: string;
@@ -90,7 +219,24 @@ export interface Trip {
   // NEW FIELDS
   rewardEligible: boolean;
   driverConfidence: number; // 0.0 - 1.0
-  modeOfTransport: 'car' | 'bus' | 'train' | 'walk' | 'unknown';
+  modeOfTransport: ModeOfTransport;
+  classification?: TripClassification;
+
+  // Auto-detected trips stay out of stats/challenges until the user keeps them
+  autoRecorded?: boolean;
+  reviewed?: boolean;
+
+  weather?: Partial<Record<WeatherCondition, number>>; // Seconds driven in each condition
+  intersections?: IntersectionPassage[]; // Stop signs, give-way signs and signals passed
+  lightSplit?: LightSplit; // Distance and time driven in daylight, twilight and dark
+  recordingGaps?: RecordingGap[]; // Path stretches joined across an interruption, not driven as drawn
+  segments?: TripSegment[]; // Absent on trips recorded before trips could be paused
+}
+
+export interface AutoTripSettings {
+    enabled: boolean;
+    startAfterSeconds: number; // Sustained driving-like movement before a trip starts
+    stopAfterSeconds: number;  // Sustained stop before an auto-started trip ends
 }
 
 export interface UserStats {
@@ -99,6 +245,7 @@ export interface UserStats {
     complianceScore: number;
     totalDistance: number;
     totalTrips: number;
+    lightSplit?: LightSplit; // Summed over credited trips that recorded one
 }
 
 export interface Booster {
@@ -172,6 +319,12 @@ export interface SavedPlace {
     deletedAt?: number;
 }
 
+export interface EmergencyContact {
+    id: string;
+    name: string;
+    phone: string;
+}
+
 export interface User {
     id?: string;
     name: string;
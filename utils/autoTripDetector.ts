@@ -0,0 +1,77 @@
+import type { DeviceMotionData } from '../types';
+import { MovingAverage } from './smoothing';
+import { AUTO_TRIP_CONFIG } from './config';
+
+// --- Automatic Trip Detection ---
+// Idle → moving (speed above START_SPEED_KMH and the phone is not lying perfectly still)
+// → 'start' once that has lasted startAfterMs. During an auto-started trip, speed below
+// STOP_SPEED_KMH for stopAfterMs → 'stop'. Short dips (lights, traffic) reset the timers.
+
+export type AutoTripSignal =
+    | { type: 'start'; since: number } // since = when driving-like movement began
+    | { type: 'stop'; since: number };  // since = when the final stop began
+
+export class AutoTripDetector {
+    private movingSince: number | null = null;
+    private stoppedSince: number | null = null;
+    private activity = new MovingAverage(60);
+    private hasMotion = false;
+
+    constructor(private startAfterMs: number, private stopAfterMs: number) {}
+
+    public configure(startAfterMs: number, stopAfterMs: number) {
+        this.startAfterMs = startAfterMs;
+        this.stopAfterMs = stopAfterMs;
+    }
+
+    public addMotion(motion: DeviceMotionData) {
+        const { x, y, z } = motion.acceleration;
+        if (x === null || y === null || z === null) return;
+        this.activity.add(Math.sqrt(x * x + y * y + z * z));
+        this.hasMotion = true;
+    }
+
+    // Without an accelerometer we can only go by speed
+    private get isPhoneMoving(): boolean {
+        return !this.hasMotion || this.activity.getAverage() >= AUTO_TRIP_CONFIG.MIN_MOTION_ACTIVITY;
+    }
+
+    public update(speedKmh: number, isTripActive: boolean, timestamp: number): AutoTripSignal | null {
+        if (!isTripActive) {
+            this.stoppedSince = null;
+
+            if (speedKmh >= AUTO_TRIP_CONFIG.START_SPEED_KMH && this.isPhoneMoving) {
+                if (this.movingSince === null) this.movingSince = timestamp;
+            } else if (speedKmh < AUTO_TRIP_CONFIG.RESET_SPEED_KMH) {
+                this.movingSince = null;
+            }
+
+            if (this.movingSince !== null && timestamp - this.movingSince >= this.startAfterMs) {
+                const since = this.movingSince;
+                this.movingSince = null;
+                return { type: 'start', since };
+            }
+            return null;
+        }
+
+        this.movingSince = null;
+        if (speedKmh < AUTO_TRIP_CONFIG.STOP_SPEED_KMH) {
+            if (this.stoppedSince === null) this.stoppedSince = timestamp;
+            if (timestamp - this.stoppedSince >= this.stopAfterMs) {
+                const since = this.stoppedSince;
+                this.stoppedSince = null;
+                return { type: 'stop', since };
+            }
+        } else {
+            this.stoppedSince = null;
+        }
+        return null;
+    }
+
+    public reset() {
+        this.movingSince = null;
+        this.stoppedSince = null;
+        this.activity.reset();
+        this.hasMotion = false;
+    }
+}
@@ -0,0 +1,117 @@
+import { Capacitor, PluginListenerHandle } from '@capacitor/core';
+import { Geolocation, Position } from '@capacitor/geolocation';
+import { Motion } from '@capacitor/motion';
+import type { PositionSample } from '../types';
+import type { LocationProvider, LocationProviderHandlers, LocationErrorCode } from './locationProvider';
+
+// Native location via Capacitor. Unlike the browser watch, the native plugin keeps delivering
+// fixes while the screen is locked, provided the shell app declares background location
+// (iOS: UIBackgroundModes=location, Android: ACCESS_BACKGROUND_LOCATION + foreground service).
+
+const toPositionSample = (position: Position): PositionSample => {
+    const { latitude, longitude, speed, accuracy, heading } = position.coords;
+    return { timestamp: position.timestamp, latitude, longitude, speed, accuracy, heading };
+};
+
+// Native plugins reject with platform-specific messages rather than numeric codes. A code is only
+// there when the plugin falls back to the web API (GeolocationPositionError) or can't run at all.
+const toErrorCode = (err: unknown): LocationErrorCode => {
+    const { code, message: raw } = typeof err === 'object' && err !== null ? (err as { code?: unknown; message?: unknown }) : { code: undefined, message: err };
+    if (code === 1) return 'PERMISSION_DENIED';
+    if (code === 3) return 'TIMEOUT';
+    if (code === 2 || code === 'UNIMPLEMENTED' || code === 'UNAVAILABLE') return 'POSITION_UNAVAILABLE';
+    const message = String(raw || '').toLowerCase();
+    if (message.includes('denied') || message.includes('permission')) return 'PERMISSION_DENIED';
+    if (message.includes('timeout')) return 'TIMEOUT';
+    return 'POSITION_UNAVAILABLE';
+};
+
+export class CapacitorLocationProvider implements LocationProvider {
+    public readonly id = 'capacitor';
+    private watchId: string | null = null;
+    private listeners: PluginListenerHandle[] = [];
+    // Incremented on every start/stop so late async registrations from a stale session are discarded
+    private session = 0;
+
+    public isAvailable(): boolean {
+        return Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('Geolocation');
+    }
+
+    public start(handlers: LocationProviderHandlers) {
+        this.stop();
+        const session = ++this.session;
+        this.startAsync(session, handlers).catch(err => {
+            if (session === this.session) handlers.onError(toErrorCode(err));
+        });
+    }
+
+    public stop() {
+        this.session++;
+        if (this.watchId !== null) {
+            Geolocation.clearWatch({ id: this.watchId });
+            this.watchId = null;
+        }
+        this.listeners.forEach(listener => listener.remove());
+        this.listeners = [];
+    }
+
+    public async getCurrentPosition(): Promise<PositionSample> {
+        try {
+            const position = await Geolocation.getCurrentPosition({ enableHighAccuracy: true, timeout: 10000, maximumAge: 0 });
+            return toPositionSample(position);
+        } catch (err) {
+            throw toErrorCode(err);
+        }
+    }
+
+    private async startAsync(session: number, handlers: LocationProviderHandlers) {
+        const permissions = await Geolocation.requestPermissions();
+        if (permissions.location === 'denied') {
+            handlers.onError('PERMISSION_DENIED');
+            return;
+        }
+
+        const watchId = await Geolocation.watchPosition(
+            { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 },
+            (position, err) => {
+                if (session !== this.session) return;
+                if (err || !position) handlers.onError(toErrorCode(err));
+                else handlers.onPosition(toPositionSample(position));
+            }
+        );
+        if (session !== this.session) {
+            Geolocation.clearWatch({ id: watchId });
+            return;
+        }
+        this.watchId = watchId;
+
+        const accel = await Motion.addListener('accel', event => {
+            handlers.onMotion({
+                timestamp: Date.now(),
+                acceleration: { ...event.acceleration },
+                rotationRate: { ...event.rotationRate },
+                accelerationIncludingGravity: { ...event.accelerationIncludingGravity }
+            });
+        });
+        const orientation = await Motion.addListener('orientation', event => {
+            // Capacitor does not expose whether alpha is earth-referenced, so treat it as relative
+            handlers.onOrientation({
+                timestamp: Date.now(),
+                alpha: event.alpha,
+                beta: event.beta,
+                gamma: event.gamma,
+                absolute: false,
+                compassHeading: null
+            });
+        });
+
+        if (session !== this.session) {
+            accel.remove();
+            orientation.remove();
+            return;
+        }
+        this.listeners = [accel, orientation];
+    }
+}
+
+export const capacitorLocationProvider = new CapacitorLocationProvider();
@@ -1,4 +1,5 @@
 import type { Trip, Challenge, UserStats } from '../types';
+import { addLightSplits, emptyLightSplit } from './solar';
 
 export const processTripForChallenges = (
     trip: Trip, 
@@ -54,3 +55,13 @@ export const processTripForChallenges = (
 
     return { updatedChallenges, awardedPoints, completedTitles };
 };
+
+// Folds a finished trip into the running totals. Challenge rewards are paid on top of the trip's own points.
+export const applyTripToStats = (prev: UserStats, trip: Trip, awardedPoints: number): UserStats => ({
+    points: prev.points + trip.points + awardedPoints,
+    streak: trip.complianceScore >= 95 ? prev.streak + 1 : 0,
+    complianceScore: Math.round((prev.complianceScore * prev.totalTrips + trip.complianceScore) / (prev.totalTrips + 1)),
+    totalDistance: prev.totalDistance + trip.distance,
+    totalTrips: prev.totalTrips + 1,
+    lightSplit: trip.lightSplit ? addLightSplits(prev.lightSplit ?? emptyLightSplit(), trip.lightSplit) : prev.lightSplit
+});
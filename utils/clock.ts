@@ -0,0 +1,13 @@
+// Single time source for sensor-driven logic (geolocation, analytics, trips).
+// Session replays swap in the recorded timestamps so a drive scores identically on every run.
+let source: (() => number) | null = null;
+
+export const clock = {
+    now(): number {
+        return source ? source() : Date.now();
+    },
+
+    setSource(fn: (() => number) | null) {
+        source = fn;
+    }
+};
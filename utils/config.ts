@@ -1,3 +1,5 @@
+import type { WeatherCondition } from '../types';
+
 
 export const GOOGLE_MAPS_API_KEY = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || '';
 export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
@@ -5,13 +7,15 @@ export const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
 export const FEATURE_FLAGS = {
     USE_FUSED_HEADING: true,
     USE_SPEED_CALIBRATION: true,
-    STRICT_SPEEDING_CHECK: true
+    STRICT_SPEEDING_CHECK: true,
+    SENSOR_DEV_TOOLS: import.meta.env.DEV === true // Exposes sensor record/replay on window.safedriveSensors
 };
 
 export const NAV_CONFIG = {
     // Sensor Fusion & Smoothing
     HEADING_SMOOTHING_FACTOR: 0.08, // Lower = Smoother, Higher = More Responsive
-    SPEED_SMOOTHING_FACTOR: 0.15,
+    KALMAN_ACCEL_NOISE: 1.5, // m/s² process noise (how hard we assume the car can change speed)
+    MIN_SPEED_CONFIDENCE: 0.6, // Below this Kalman speed confidence, speeding is not penalised
 
     // GPS Signal Health
     GPS_TIMEOUT_MS: 10000, // 10s without update = Signal Lost
@@ -21,8 +25,12 @@ export const NAV_CONFIG = {
     OFF_ROUTE_THRESHOLD_M: 25, // Strict reroute trigger
     SNAP_TO_ROUTE_THRESHOLD_M: 30, // Distance to snap location for visual/calc
 
-    // Speeding Logic
-    SPEED_TOLERANCE_KMH: 4,
+    // Dead Reckoning (GPS outages)
+    DEAD_RECKONING_STEP_MS: 1000, // Estimate refresh rate while the signal is lost
+    DEAD_RECKONING_MAX_MS: 120000, // Stop extrapolating after 2 min without a fix
+    DEAD_RECKONING_RECONCILE_MS: 3000, // Blend estimate error out over this window once fixes return
+
+    // Speeding Logic (the tolerance over the limit is per region, see utils/regions.ts)
     SPEED_SUSTAIN_TIME_MS: 3000,
 
     // Voice Guidance Thresholds (Meters)
@@ -35,7 +43,6 @@ export const NAV_CONFIG = {
 export const VIOLATION_CONFIG = {
     SPEEDING: {
         BUFFER_SECONDS: 3,
-        RECURRING_PENALTY_SECONDS: 5, // Deduct points every 5s if still speeding
         MINOR_THRESHOLD: 5,
         MODERATE_THRESHOLD: 10,
         SERIOUS_THRESHOLD: 20,
@@ -44,8 +51,15 @@ export const VIOLATION_CONFIG = {
             MINOR: -3,
             MODERATE: -7,
             SERIOUS: -15,
-            CRITICAL: -30,
-            RECURRING: -5
+            CRITICAL: -30
+        },
+        // One penalty per episode: the severity's points (above) plus a share for how far over
+        // and for how long, so a long stretch costs more without a fine every few seconds
+        EPISODE: {
+            POINTS_PER_KMH_MINUTE: -1, // Mean km/h over × minutes over
+            MAX_POINTS: -150,
+            LONG_MS: 60000, // Severity goes up a level for episodes longer than this
+            TRACE_SAMPLES: 40
         }
     },
     G_FORCE: {
@@ -53,10 +67,241 @@ export const VIOLATION_CONFIG = {
         HARSH_ACCEL: 8.5,
         CORNERING: 5.5,
         LANE_CHANGE: 3.5,
-        CRASH: 18.0
+        CRASH: 18.0,
+        CORNER_MIN_HEADING_DEG: 20, // Lateral force only counts as cornering once the car has actually turned
+        COOLDOWN_MS: 3000, // Quiet period after any penalty before another G-force event
+        POINTS: {
+            HARSH_BRAKING: -7,
+            HARSH_ACCEL: -7,
+            CORNERING: -15
+        }
+    },
+    LANE_CHANGE: {
+        MIN_SPEED_KMH: 30,
+        MAX_LOBE_MS: 2500, // One-sided lateral force for longer than this is a bend
+        MAX_DURATION_MS: 5000,
+        SETTLE_ACCEL: 1.0, // m/s², lateral force back to roughly straight-ahead
+        SETTLE_YAW_RATE: 3, // deg/s
+        MAX_HEADING_CHANGE_DEG: 12, // Net change in travel direction, gyro or GPS
+        MODERATE_ACCEL: 4.5,
+        SEVERE_ACCEL: 6.0,
+        POINTS: {
+            MINOR: -3,
+            MODERATE: -6,
+            SEVERE: -10
+        }
+    },
+    // Advisory speed for a bend = √(lateral budget × radius), from the planned route ahead or,
+    // without one, the last few hundred metres driven. Catches bends taken too fast even when the
+    // phone mount soaks up the force UNSAFE_CORNERING would need.
+    CURVE_SPEED: {
+        LATERAL_ACCEL_BUDGET: 2.5, // m/s², comfortable for passengers, far inside the tyres' grip
+        RESAMPLE_STEP_M: 10,
+        ROUTE_CHORD_M: 30,
+        RECENT_PATH_CHORD_M: 50, // GPS fixes wander; a longer baseline keeps noise from reading as a bend
+        RECENT_PATH_M: 400,
+        RECENT_PATH_MAX_ACCURACY_M: 15,
+        MAX_RADIUS_M: 250, // Gentler than this counts as straight
+        MIN_TURN_DEG: 25,
+        MIN_SPEED_KMH: 30,
+        MARGIN_KMH: 15, // Over the advisory speed by more than this is an event
+        MODERATE_OVER_KMH: 25,
+        SEVERE_OVER_KMH: 35,
+        WARNING_LEAD_S: 8, // Spoken warning this long before the bend at current speed...
+        WARNING_MIN_DIST_M: 80, // ...but never closer than this
+        POINTS: {
+            MINOR: -3,
+            MODERATE: -6,
+            SEVERE: -10
+        }
+    },
+    WEATHER: {
+        FETCH_INTERVAL_MS: 10 * 60 * 1000,
+        REFETCH_DISTANCE_M: 10000, // Conditions can change faster than the interval on a long drive
+        MODERATE_THRESHOLD: 10, // km/h over the weather-adjusted limit, at the episode's peak
+        SEVERE_THRESHOLD: 20,
+        // Safe speed = min(posted limit × factor, cap). Conditions not listed are not adjusted.
+        RULES: {
+            rain: { factor: 0.9, maxSpeed: 100 },
+            snow: { factor: 0.7, maxSpeed: 80 }
+        } as Partial<Record<WeatherCondition, { factor: number; maxSpeed: number }>>,
+        // Base points per episode; the time spent over adds to them as for speeding (SPEEDING.EPISODE)
+        POINTS: {
+            MINOR: -3,
+            MODERATE: -5,
+            SEVERE: -10,
+            CRITICAL: -15 // Only reached by a severe episode longer than SPEEDING.EPISODE.LONG_MS
+        }
+    },
+    // A stop sign needs a standstill somewhere in its approach; the speed profile is judged once
+    // the car has come within PASS_RADIUS_M of the sign and is moving away again
+    STOP_SIGN: {
+        APPROACH_M: 40, // Stop line to sign node, plus GPS error
+        PASS_RADIUS_M: 20,
+        LEAVE_M: 15, // Further than this beyond the closest approach and the sign is behind us
+        DROP_M: 200, // Turned off before reaching it
+        FULL_STOP_KMH: 3, // Filtered GPS speed rarely reads a clean zero
+        ROLLING_MAX_KMH: 15, // Slower than this without stopping is a rolling stop, faster is running it
+        POINTS: {
+            ROLLING: -8,
+            RAN: -15
+        }
+    },
+    SCHOOL_ZONE: {
+        PENALTY_MULTIPLIER: 2 // Limits and hours are per region, see utils/regions.ts
+    },
+    PHONE_USE: {
+        POINTS: -30,
+        DEBOUNCE_MS: 2000,
+        BACKGROUND_MIN_SPEED: 5 // km/h, backgrounding the app below this is not penalised
+    },
+    SAFE_DRIVING_BONUS: {
+        POINTS: 5,
+        INTERVAL_MS: 60000,
+        MIN_SPEED: 20 // km/h
     },
     SAFE_STOP: {
         SPEED_THRESHOLD: 1.5, // km/h
+        RESUME_SPEED_THRESHOLD: 5.0, // km/h, hysteresis so traffic lights don't flicker the state
         DURATION_MS: 4000 // Time required to be stopped before phone touch is allowed
+    },
+    CRASH: {
+        MIN_SPEED_KMH: 25, // Impacts below this are parking knocks, not emergencies
+        SPEED_DROP_WINDOW_MS: 5000, // Speed must collapse this soon after the spike
+        STOPPED_SPEED_KMH: 5,
+        STILLNESS_ACCEL: 1.5, // m/s², anything above means people are moving about normally
+        STILLNESS_MS: 8000,
+        ABANDON_AFTER_MS: 30000, // Give up on a candidate that never goes still
+        COUNTDOWN_SECONDS: 30,
+        TEXT_CONTACTS_FALLBACK_MS: 3000 // No dialler has taken the screen by then: text contacts straight away
+    },
+    // Risk = continuous driving time as a share of CONTINUOUS_LIMIT_MS (weighted up at night)
+    // plus a steering term. Reminders start at MODERATE_RISK and repeat until a real break.
+    FATIGUE: {
+        MOVING_SPEED_KMH: 10,
+        BREAK_MS: 15 * 60 * 1000, // A stop this long is a real rest and resets the driving clock
+        CONTINUOUS_LIMIT_MS: 2 * 60 * 60 * 1000,
+        NIGHT_START_HOUR: 0,
+        NIGHT_END_HOUR: 6,
+        NIGHT_WEIGHT: 1.5,
+        MODERATE_RISK: 1.0,
+        SEVERE_RISK: 1.5,
+        REMINDER_INTERVAL_MS: 20 * 60 * 1000,
+        // Drowsy drivers stop making the constant micro-corrections of normal steering, drift,
+        // then jerk back. Counted only at speed, where steering input is otherwise minimal.
+        STEERING: {
+            MIN_SPEED_KMH: 60,
+            LULL_ACCEL: 0.2, // m/s², |lateral| under this is "no steering"
+            LULL_MS: 3000,
+            CORRECTION_MIN_ACCEL: 1.0, // m/s²
+            CORRECTION_MAX_ACCEL: 3.0, // Above this it's a deliberate manoeuvre
+            CORRECTION_WINDOW_MS: 1000, // The jerk must follow the lull this closely
+            WINDOW_MS: 10 * 60 * 1000,
+            FULL_SCORE_COUNT: 6, // Drift-corrections per window that score the full steering term
+            WEIGHT: 0.5
+        }
     }
 };
+
+// Positive events. Each rule stops paying out after MAX_PER_TRIP so long trips can't farm them.
+export const REWARD_CONFIG = {
+    SMOOTH_BRAKING: {
+        POINTS: 3,
+        MAX_PER_TRIP: 10,
+        MIN_START_SPEED_KMH: 30, // Slowing from at least this speed...
+        STOP_SPEED_KMH: 3, // ...all the way down to a stop
+        MIN_DURATION_MS: 4000,
+        MAX_DECEL: 2.5, // m/s², comfortable braking stays under this throughout
+        REACCEL_KMH: 5 // Picking speed back up by this much starts a new approach
+    },
+    SMOOTH_LAUNCH: {
+        POINTS: 2,
+        MAX_PER_TRIP: 10,
+        TARGET_SPEED_KMH: 40,
+        MIN_DURATION_MS: 5000,
+        MAX_DURATION_MS: 60000,
+        MAX_ACCEL: 2.5 // m/s²
+    },
+    STEADY_CRUISING: {
+        POINTS: 5,
+        MAX_PER_TRIP: 12,
+        WINDOW_MS: 2 * 60 * 1000,
+        BELOW_LIMIT_KMH: 12, // "Near the limit" means within this much under it
+        MAX_SPEED_SPREAD_KMH: 8 // Max minus min speed across the window
+    },
+    CLEAN_STOP: {
+        POINTS: 3,
+        MAX_PER_TRIP: 10
+    },
+    REST_BREAK: {
+        POINTS: 20,
+        MAX_PER_TRIP: 4,
+        MIN_DRIVE_MS: 45 * 60 * 1000 // Driving before the stop for it to count as a break
+    }
+};
+
+export const AUTO_TRIP_CONFIG = {
+    START_SPEED_KMH: 15, // Faster than running pace
+    RESET_SPEED_KMH: 8, // Dropping below this before the start timer fires means it was not a drive
+    STOP_SPEED_KMH: 3,
+    MIN_MOTION_ACTIVITY: 0.05, // m/s², a phone resting on a desk stays below this even if GPS drifts
+    DEFAULT_START_AFTER_SECONDS: 60,
+    DEFAULT_STOP_AFTER_SECONDS: 180,
+    START_AFTER_OPTIONS: [30, 60, 120],
+    STOP_AFTER_OPTIONS: [120, 180, 300]
+};
+
+// Whole-trip mode / passenger classification, run once when a trip is saved
+export const TRIP_CLASSIFIER_CONFIG = {
+    SAMPLE_INTERVAL_MS: 2000, // Speed trace resolution kept in memory during the trip
+    WALK_MAX_SPEED_KMH: 20,
+    TRAIN_MIN_SPEED_KMH: 180, // No road vehicle we score gets here
+    DECISION_THRESHOLD: 0.6, // Any non-driving explanation scoring this high wins
+    STOPS: {
+        STOPPED_SPEED_KMH: 3,
+        MIN_DWELL_MS: 8000, // Shorter is a rolling slow-down
+        MAX_DWELL_MS: 90000, // Longer is parking or a jam, not a stop to board
+        MIN_COUNT: 4,
+        MIN_SPACING_M: 150,
+        MAX_SPACING_M: 1000,
+        BUS_STOPS_PER_KM: 1.5 // Stop density that scores a full bus pattern
+    },
+    TRANSIT: {
+        MIN_DISTANCE_KM: 1, // Not worth an Overpass query for shorter trips
+        SAMPLE_POINTS: 10,
+        RADIUS_M: 25,
+        RAIL_WEIGHT: 0.9 // Roads can run beside rail, so even a full match is not certain
+    },
+    STEADY_TOUCH: {
+        MIN_SPEED_KMH: 20,
+        WINDOW_MS: 10000, // Speed is compared this far either side of the touch
+        MAX_SPREAD_KMH: 4,
+        MIN_COUNT: 3 // A driver glancing once is a distraction; repeated calm use is a passenger
+    },
+    PASSENGER_CONFIDENCE: 0.4, // driverConfidence below this is treated as a passenger on its own
+    CONTEST_ACCEPT_BELOW: 0.75 // Less sure than this and an "I was driving" contest is accepted; surer calls stand
+};
+
+// The active trip is written to IndexedDB as it goes, so a reload or a killed tab doesn't lose it
+export const TRIP_CHECKPOINT_CONFIG = {
+    INTERVAL_MS: 5000, // Also saved whenever the page is hidden
+    MAX_RESUME_GAP_MS: 30 * 60 * 1000 // Interrupted for longer and the trip can only be saved as it was
+};
+
+// Speed-limit lookups are answered from cached OSM tiles (geohash cells) instead of one
+// Overpass call per position
+export const ROAD_CACHE_CONFIG = {
+    GEOHASH_PRECISION: 6, // ~1.2 x 0.6 km cells
+    TTL_MS: 7 * 24 * 60 * 60 * 1000,
+    MEMORY_TILES: 300, // Tiles kept decoded in memory; the rest stay in IndexedDB
+    MAX_TILES_PER_QUERY: 24, // Overpass bbox clauses per request
+    QUERY_TIMEOUT_MS: 15000,
+    RETRY_AFTER_MS: 30000, // After a failed fetch, before the same cells are tried again
+    CORRIDOR_STEP_M: 300, // Route sampling density when collecting the tiles a route crosses
+    MATCH_RADIUS_M: 30, // Further than this from every way and we're off the mapped network
+    HEADING_MISMATCH_PENALTY_M: 20, // Makes a cross street lose to the road we're travelling along
+    SCHOOL_RADIUS_M: 80,
+    CONTROL_LOOKAHEAD_M: 120, // Stop signs and signals this close on our road are passed to the engine
+    CONTROL_ON_WAY_M: 3, // A control node this close to a way's vertex sits on that way
+    DRIVABLE_HIGHWAYS: 'motorway|motorway_link|trunk|trunk_link|primary|primary_link|secondary|secondary_link|tertiary|tertiary_link|unclassified|residential|living_street|service|road'
+};
@@ -0,0 +1,126 @@
+import type { LatLng } from '../types';
+import { calculateDistance } from './helpers';
+import { calculateBearing, headingDifference } from './geometry';
+import { VIOLATION_CONFIG } from './config';
+
+// --- PATH CURVATURE ---
+// Finds the bends in a polyline and the speed each can be taken at comfortably. The line is
+// resampled at a fixed spacing and the radius at every sample is that of the circle through it
+// and the samples one chord either side; runs of samples tighter than MAX_RADIUS_M are a bend.
+
+export interface Curve {
+    startM: number; // Distances along the path
+    apexM: number;
+    endM: number;
+    apex: LatLng;
+    radiusM: number; // Tightest radius in the bend
+    turnDeg: number; // Change of direction across it
+    advisorySpeed: number; // km/h
+}
+
+interface PathSample {
+    point: LatLng;
+    along: number;
+}
+
+const EARTH_RADIUS_M = 6371e3;
+const DEG_TO_RAD = Math.PI / 180;
+
+const toLatLon = (p: LatLng) => ({ latitude: p.lat, longitude: p.lng });
+
+// Speed at which the bend's lateral acceleration stays inside the comfort budget
+export const advisorySpeedFor = (radiusM: number): number =>
+    Math.sqrt(VIOLATION_CONFIG.CURVE_SPEED.LATERAL_ACCEL_BUDGET * radiusM) * 3.6;
+
+// Cumulative distance at every vertex
+export const cumulativeDistances = (path: LatLng[]): number[] => {
+    const along = [0];
+    for (let i = 1; i < path.length; i++) {
+        along.push(along[i - 1] + calculateDistance(toLatLon(path[i - 1]), toLatLon(path[i])));
+    }
+    return along;
+};
+
+const resample = (path: LatLng[], step: number): PathSample[] => {
+    const along = cumulativeDistances(path);
+    const total = along[along.length - 1];
+    const samples: PathSample[] = [];
+    let segment = 0;
+    for (let d = 0; d <= total; d += step) {
+        while (segment < path.length - 2 && along[segment + 1] < d) segment++;
+        const length = along[segment + 1] - along[segment];
+        const t = length > 0 ? (d - along[segment]) / length : 0;
+        const a = path[segment], b = path[segment + 1];
+        samples.push({ point: { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t }, along: d });
+    }
+    return samples;
+};
+
+// Radius of the circle through three points, on a local flat projection around the middle one.
+// Infinity when they are in a line.
+const circumradius = (a: LatLng, b: LatLng, c: LatLng): number => {
+    const cosLat = Math.cos(b.lat * DEG_TO_RAD);
+    const x = (p: LatLng) => (p.lng - b.lng) * DEG_TO_RAD * EARTH_RADIUS_M * cosLat;
+    const y = (p: LatLng) => (p.lat - b.lat) * DEG_TO_RAD * EARTH_RADIUS_M;
+    const ax = x(a), ay = y(a), cx = x(c), cy = y(c);
+
+    const ab = Math.hypot(ax, ay);
+    const bc = Math.hypot(cx, cy);
+    const ca = Math.hypot(cx - ax, cy - ay);
+    const doubleArea = Math.abs(ax * cy - ay * cx);
+    return doubleArea > 1e-6 ? (ab * bc * ca) / (2 * doubleArea) : Infinity;
+};
+
+// Bends along the path in order. `chordM` trades responsiveness for noise: route geometry can
+// use a short one, GPS fixes need longer.
+export const findCurves = (path: LatLng[], chordM: number = VIOLATION_CONFIG.CURVE_SPEED.ROUTE_CHORD_M): Curve[] => {
+    const { RESAMPLE_STEP_M, MAX_RADIUS_M, MIN_TURN_DEG } = VIOLATION_CONFIG.CURVE_SPEED;
+    if (path.length < 3) return [];
+    const samples = resample(path, RESAMPLE_STEP_M);
+    const k = Math.max(1, Math.round(chordM / RESAMPLE_STEP_M));
+
+    const curves: Curve[] = [];
+    let runStart = -1;
+    let apex = -1;
+    let minRadius = Infinity;
+
+    const closeRun = (runEnd: number) => {
+        const turnDeg = headingDifference(
+            calculateBearing(samples[runStart - k].point, samples[runStart].point),
+            calculateBearing(samples[runEnd].point, samples[runEnd + k].point)
+        );
+        if (turnDeg >= MIN_TURN_DEG) {
+            curves.push({
+                startM: samples[runStart].along,
+                apexM: samples[apex].along,
+                endM: samples[runEnd].along,
+                apex: samples[apex].point,
+                radiusM: minRadius,
+                turnDeg,
+                advisorySpeed: advisorySpeedFor(minRadius)
+            });
+        }
+        runStart = -1;
+        apex = -1;
+        minRadius = Infinity;
+    };
+
+    for (let i = k; i < samples.length - k; i++) {
+        const radius = circumradius(samples[i - k].point, samples[i].point, samples[i + k].point);
+        if (radius < MAX_RADIUS_M) {
+            if (runStart < 0) runStart = i;
+            if (radius < minRadius) {
+                minRadius = radius;
+                apex = i;
+            }
+        } else if (runStart >= 0) {
+            closeRun(i - 1);
+        }
+    }
+    if (runStart >= 0) closeRun(samples.length - k - 1);
+    return curves;
+};
+
+// Distance along the path of a point lying on segment [index, index + 1]
+export const distanceAlong = (path: LatLng[], along: number[], index: number, point: LatLng): number =>
+    along[index] + calculateDistance(toLatLon(path[index]), toLatLon(point));
@@ -0,0 +1,165 @@
+import type { LatLng } from '../types';
+import { MovingAverage } from './smoothing';
+import { getSnapToRoute, advanceAlongRoute, projectPoint } from './geometry';
+import { NAV_CONFIG } from './config';
+
+// --- Dead Reckoning (GPS Outages) ---
+// Anchored on the last good fix, the estimate advances at the last known speed, adjusted by
+// the smoothed longitudinal accelerometer, either along the active route polyline (tunnels
+// on a planned route) or along the last heading (free drive). When fixes return, the gap
+// between the estimate and reality is blended out over NAV_CONFIG.DEAD_RECKONING_RECONCILE_MS
+// instead of teleporting the puck.
+
+export interface DeadReckoningFix {
+    latitude: number;
+    longitude: number;
+    speedKmh: number;
+    heading: number | null;
+    accuracy: number;
+}
+
+interface Anchor {
+    position: LatLng;
+    speedMps: number;
+    heading: number | null;
+    accuracy: number;
+    time: number;
+}
+
+interface Estimate {
+    position: LatLng;
+    speedMps: number;
+    heading: number | null;
+    routeIndex: number;
+    onRoute: boolean; // False when the outage began off-route; then only the heading is used
+    travelled: number; // metres since the anchor
+    time: number;
+}
+
+const MAX_SPEED_MPS = 70; // ~250 km/h hard ceiling for integrated speed
+const ACCEL_DEADBAND = 0.3; // m/s², ignore sensor bias so a constant cruise does not drift
+const ACCURACY_GROWTH = 0.1; // Estimated error grows by 10% of the distance travelled blind
+
+export class DeadReckoner {
+    private anchor: Anchor | null = null;
+    private estimate: Estimate | null = null;
+    private route: LatLng[] | null = null;
+    private routeIndex = 0;
+    private longitudinalAccel = new MovingAverage(20);
+    private reconcile: { dLat: number; dLng: number; start: number } | null = null;
+
+    public setRoute(coords: LatLng[] | null) {
+        this.route = coords && coords.length >= 2 ? coords : null;
+        this.routeIndex = 0;
+    }
+
+    public addAcceleration(longitudinal: number | null) {
+        if (longitudinal === null || isNaN(longitudinal)) return;
+        this.longitudinalAccel.add(longitudinal);
+    }
+
+    public get isEstimating(): boolean {
+        return this.estimate !== null;
+    }
+
+    // Called for every real fix. Returns the position to publish, which differs from the
+    // fix only while a previous estimate is still being blended out.
+    public correct(fix: DeadReckoningFix, timestamp: number): LatLng {
+        const position = { lat: fix.latitude, lng: fix.longitude };
+
+        if (this.estimate) {
+            this.reconcile = {
+                dLat: this.estimate.position.lat - position.lat,
+                dLng: this.estimate.position.lng - position.lng,
+                start: timestamp
+            };
+            this.estimate = null;
+        }
+
+        this.anchor = { position, speedMps: fix.speedKmh / 3.6, heading: fix.heading, accuracy: fix.accuracy, time: timestamp };
+
+        if (this.route) {
+            const snap = getSnapToRoute(position, this.route, this.routeIndex);
+            if (snap && snap.distanceToSnap < NAV_CONFIG.SNAP_TO_ROUTE_THRESHOLD_M) this.routeIndex = snap.matchedIndex;
+        }
+
+        if (!this.reconcile) return position;
+
+        const progress = (timestamp - this.reconcile.start) / NAV_CONFIG.DEAD_RECKONING_RECONCILE_MS;
+        if (progress >= 1) {
+            this.reconcile = null;
+            return position;
+        }
+        const weight = 1 - progress;
+        return { lat: position.lat + this.reconcile.dLat * weight, lng: position.lng + this.reconcile.dLng * weight };
+    }
+
+    // Advances the estimate to `timestamp`. Returns null when there is nothing to extrapolate
+    // from, or the outage has outlasted NAV_CONFIG.DEAD_RECKONING_MAX_MS.
+    public step(timestamp: number): DeadReckoningFix | null {
+        const anchor = this.anchor;
+        if (!anchor || timestamp - anchor.time > NAV_CONFIG.DEAD_RECKONING_MAX_MS) return null;
+
+        if (!this.estimate) this.estimate = this.startEstimate(anchor);
+        const est = this.estimate;
+
+        const dt = (timestamp - est.time) / 1000;
+        if (dt <= 0) return this.toFix(est, anchor);
+
+        const accel = this.longitudinalAccel.getAverage();
+        if (Math.abs(accel) > ACCEL_DEADBAND) {
+            est.speedMps = Math.max(0, Math.min(MAX_SPEED_MPS, est.speedMps + accel * dt));
+        }
+
+        const distance = est.speedMps * dt;
+        if (this.route && est.onRoute) {
+            const next = advanceAlongRoute(this.route, est.position, est.routeIndex, distance);
+            est.position = next.point;
+            est.routeIndex = next.index;
+            est.heading = next.bearing;
+        } else if (est.heading !== null) {
+            est.position = projectPoint(est.position, est.heading, distance);
+        }
+
+        est.travelled += distance;
+        est.time = timestamp;
+        return this.toFix(est, anchor);
+    }
+
+    public reset() {
+        this.anchor = null;
+        this.estimate = null;
+        this.reconcile = null;
+        this.routeIndex = 0;
+        this.longitudinalAccel.reset();
+    }
+
+    private startEstimate(anchor: Anchor): Estimate {
+        let position = anchor.position;
+        let routeIndex = this.routeIndex;
+        let onRoute = false;
+
+        // Start from the snapped point so the estimate follows the road, not a parallel offset
+        if (this.route) {
+            const snap = getSnapToRoute(position, this.route, this.routeIndex);
+            if (snap && snap.distanceToSnap < NAV_CONFIG.SNAP_TO_ROUTE_THRESHOLD_M) {
+                position = snap.snappedPoint;
+                routeIndex = snap.matchedIndex;
+                onRoute = true;
+            }
+        }
+
+        this.reconcile = null;
+        return { position, speedMps: anchor.speedMps, heading: anchor.heading, routeIndex, onRoute, travelled: 0, time: anchor.time };
+    }
+
+    private toFix(est: Estimate, anchor: Anchor): DeadReckoningFix {
+        return {
+            latitude: est.position.lat,
+            longitude: est.position.lng,
+            speedKmh: est.speedMps * 3.6,
+            heading: est.heading,
+            accuracy: anchor.accuracy + est.travelled * ACCURACY_GROWTH
+        };
+    }
+}
@@ -0,0 +1,58 @@
+import type { DrivingEvent, GeolocationData, WeatherCondition } from '../../../types';
+import type { DrivingEventEngine, PhoneInteraction, RoadContext, SensorInput } from '../../drivingEventEngine';
+import type { VehicleMotion } from '../../vehicleFrame';
+
+// Builders for the timestamped samples the rule tests feed through DrivingEventEngine. Fixes are
+// good ones (5 m, fully confident speed) unless a test says otherwise, and stay put at ORIGIN
+// unless the rule cares where the car is; those tests place them with `offset`.
+
+export const BASE_TIME = 1_700_000_000_000;
+export const at = (seconds: number) => BASE_TIME + seconds * 1000;
+
+export const ORIGIN = { latitude: -33.87, longitude: 151.21 };
+
+// The position `northM` / `eastM` metres from ORIGIN
+export const offset = (northM: number, eastM: number): Pick<GeolocationData, 'latitude' | 'longitude'> => ({
+    latitude: ORIGIN.latitude + northM / 111320,
+    longitude: ORIGIN.longitude + eastM / (111320 * Math.cos((ORIGIN.latitude * Math.PI) / 180))
+});
+
+export const fix = (timestamp: number, speed: number, overrides: Partial<GeolocationData> = {}): SensorInput => ({
+    type: 'location',
+    timestamp,
+    location: { ...ORIGIN, speed, accuracy: 5, heading: 90, speedConfidence: 1, ...overrides }
+});
+
+export const motion = (timestamp: number, values: Partial<VehicleMotion>): SensorInput => ({
+    type: 'motion',
+    timestamp,
+    motion: { longitudinal: 0, lateral: 0, vertical: 0, yawRate: 0, ...values }
+});
+
+export const road = (timestamp: number, speedLimit: number | null, overrides: Partial<RoadContext> = {}): SensorInput => ({
+    type: 'road',
+    timestamp,
+    road: { speedLimit, isSchoolZone: false, isSchoolZoneActive: false, ...overrides }
+});
+
+export const schoolZone = (timestamp: number, postedLimit: number, inForce: boolean = true): SensorInput =>
+    road(timestamp, postedLimit, { isSchoolZone: true, isSchoolZoneActive: inForce });
+
+export const touch = (timestamp: number, interaction: PhoneInteraction = 'touch'): SensorInput => ({ type: 'interaction', timestamp, interaction });
+
+export const weather = (timestamp: number, condition: WeatherCondition): SensorInput => ({ type: 'weather', timestamp, weather: condition });
+
+// One fix per `stepSeconds` from `fromSeconds` up to (not including) `toSeconds`
+export const cruise = (fromSeconds: number, toSeconds: number, speed: number, stepSeconds: number = 1): SensorInput[] => {
+    const fixes: SensorInput[] = [];
+    for (let s = fromSeconds; s < toSeconds; s += stepSeconds) fixes.push(fix(at(s), speed));
+    return fixes;
+};
+
+// Every event the inputs raise, in order; with `flush`, plus whatever was still held at the end
+export const run = (engine: DrivingEventEngine, inputs: SensorInput[], options: { flush?: boolean } = {}): DrivingEvent[] => {
+    const events = inputs.flatMap(input => engine.process(input));
+    return options.flush ? [...events, ...engine.flush()] : events;
+};
+
+export const typesOf = (events: DrivingEvent[]) => events.map(e => e.type);
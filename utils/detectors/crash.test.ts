@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import type { VehicleMotion } from '../vehicleFrame';
+import { CrashDetector } from './crash';
+import { at, cruise, fix, motion, run } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new CrashDetector()]);
+
+// Motion at 2 Hz from `fromSeconds` up to (not including) `toSeconds`; a phone lying still by default
+const still = (fromSeconds: number, toSeconds: number, values: Partial<VehicleMotion> = {}): SensorInput[] =>
+    Array.from({ length: (toSeconds - fromSeconds) * 2 }, (_, i) => motion(at(fromSeconds) + i * 500, values));
+
+// Driving at 50 km/h into a 30 m/s² impact at 1 s
+const impact: SensorInput[] = [fix(at(0), 50), motion(at(1), { longitudinal: -30 })];
+
+describe('CrashDetector', () => {
+    it('raises one crash for a spike, a stop, then stillness', () => {
+        const events = run(engine(), [...impact, fix(at(2), 20), fix(at(3), 0), ...still(4, 30)]);
+
+        expect(events).toHaveLength(1);
+        // Still from 4 s, so STILLNESS_MS later
+        expect(events[0]).toMatchObject({ type: 'CRASH', timestamp: at(12), value: 30, points: 0, severityLevel: 'CRITICAL', speed: 50 });
+    });
+
+    it('ignores a spike the car drives on from', () => {
+        expect(run(engine(), [...impact, ...cruise(2, 10, 50), ...still(10, 30)])).toEqual([]);
+    });
+
+    it('ignores people moving about after the stop', () => {
+        // A jolt every few seconds never lets the stillness window fill, and by 32 s the candidate is dropped
+        const moving = [4, 9, 14, 19, 24, 29].flatMap(s => [...still(s, s + 4), motion(at(s + 4), { lateral: 3 })]);
+        expect(run(engine(), [...impact, fix(at(2), 0), ...moving, fix(at(32), 0), ...still(33, 45)])).toEqual([]);
+    });
+
+    it('ignores a pothole at cruise', () => {
+        const pothole = [motion(at(1), { vertical: 25 }), motion(at(1.1), { vertical: -20 })];
+        expect(run(engine(), [fix(at(0), 60), ...pothole, ...cruise(1, 10, 60), ...still(10, 20)])).toEqual([]);
+    });
+});
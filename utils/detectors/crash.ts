@@ -0,0 +1,81 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { VIOLATION_CONFIG } from '../config';
+
+// A crash is a sequence, not a single reading: an impact spike while moving, speed collapsing
+// to zero straight after, then the phone lying still. Potholes fail the speed drop, a phone
+// dropped in the footwell fails the minimum speed, and a hard stop at lights never spikes.
+// The CRASH event this raises is only a candidate; the app confirms it with the driver.
+
+interface Impact {
+    at: number;
+    peak: number; // m/s²
+    speedBefore: number; // km/h
+    stoppedAt: number | null;
+    stillSince: number | null;
+}
+
+export class CrashDetector implements EventDetector {
+    public readonly id = 'crash';
+    private impact: Impact | null = null;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        const config = VIOLATION_CONFIG.CRASH;
+        const speed = state.location?.speed || 0;
+
+        if (input.type === 'motion') {
+            const { longitudinal, lateral, vertical } = input.motion;
+            const magnitude = Math.sqrt(longitudinal * longitudinal + lateral * lateral + vertical * vertical);
+
+            if (magnitude > VIOLATION_CONFIG.G_FORCE.CRASH) {
+                if (this.impact) this.impact.peak = Math.max(this.impact.peak, magnitude);
+                else if (speed >= config.MIN_SPEED_KMH) this.impact = { at: input.timestamp, peak: magnitude, speedBefore: speed, stoppedAt: null, stillSince: null };
+                return null;
+            }
+
+            if (!this.impact || this.impact.stoppedAt === null) return null;
+            if (magnitude > config.STILLNESS_ACCEL) {
+                this.impact.stillSince = null;
+                return null;
+            }
+            if (this.impact.stillSince === null) this.impact.stillSince = input.timestamp;
+            if (input.timestamp - this.impact.stillSince < config.STILLNESS_MS) return null;
+
+            const event = this.buildEvent(this.impact, state, input.timestamp);
+            this.impact = null;
+            return event;
+        }
+
+        if (input.type === 'location' && this.impact) {
+            const impact = this.impact;
+            if (impact.stoppedAt === null) {
+                if (speed <= config.STOPPED_SPEED_KMH) impact.stoppedAt = input.timestamp;
+                else if (input.timestamp - impact.at > config.SPEED_DROP_WINDOW_MS) this.impact = null;
+            } else if (speed > config.STOPPED_SPEED_KMH || input.timestamp - impact.at > config.ABANDON_AFTER_MS) {
+                // Driving on, or people up and about: not an emergency
+                this.impact = null;
+            }
+        }
+
+        return null;
+    }
+
+    public reset() {
+        this.impact = null;
+    }
+
+    private buildEvent(impact: Impact, state: Readonly<DrivingState>, timestamp: number): DrivingEvent {
+        return {
+            type: 'CRASH',
+            timestamp,
+            value: impact.peak,
+            points: 0,
+            severity: 1,
+            severityLevel: 'CRITICAL',
+            description: `Possible crash at ${Math.round(impact.speedBefore)} km/h`,
+            lat: state.location?.latitude,
+            lng: state.location?.longitude,
+            speed: impact.speedBefore
+        };
+    }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import { CurveSpeedDetector } from './curveSpeed';
+import { at, fix, offset, run } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new CurveSpeedDetector()]);
+
+const STRAIGHT_M = 200;
+const RADIUS_M = 50;
+const ARC_M = (Math.PI / 2) * RADIUS_M;
+
+// East for 200 m, a left-hand quarter turn of radius 50 m, then north
+const along = (d: number) => {
+    if (d <= STRAIGHT_M) return { ...offset(0, d), heading: 90 };
+    if (d <= STRAIGHT_M + ARC_M) {
+        const turned = (d - STRAIGHT_M) / RADIUS_M;
+        return { ...offset(RADIUS_M * (1 - Math.cos(turned)), STRAIGHT_M + RADIUS_M * Math.sin(turned)), heading: 90 - (turned * 180) / Math.PI };
+    }
+    return { ...offset(RADIUS_M + d - STRAIGHT_M - ARC_M, STRAIGHT_M + RADIUS_M), heading: 0 };
+};
+
+// One fix a second through the bend at a steady `speed`
+const throughBend = (speed: number): SensorInput[] => {
+    const metresPerSecond = speed / 3.6;
+    const seconds = Math.ceil((2 * STRAIGHT_M + ARC_M) / metresPerSecond);
+    return Array.from({ length: seconds }, (_, s) => fix(at(s), speed, along(s * metresPerSecond)));
+};
+
+describe('CurveSpeedDetector', () => {
+    it('flags a bend taken well above its comfortable speed, once', () => {
+        const events = run(engine(), throughBend(75));
+
+        expect(events).toHaveLength(1);
+        // Measured over the recent path's longer chord the bend reads a little gentler than drawn
+        expect(events[0]).toMatchObject({ type: 'CURVE_SPEEDING', value: 75, points: -6, severityLevel: 'MODERATE', curve: { advisorySpeed: 45 } });
+    });
+
+    it('leaves a bend taken at a comfortable speed', () => {
+        expect(run(engine(), throughBend(40))).toEqual([]);
+    });
+
+    it('leaves a straight road at any speed', () => {
+        const straight = Array.from({ length: 20 }, (_, s) => fix(at(s), 100, offset(0, s * 28)));
+        expect(run(engine(), straight)).toEqual([]);
+    });
+});
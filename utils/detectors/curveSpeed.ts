@@ -0,0 +1,157 @@
+import type { DrivingEvent, LatLng, SeverityLevel } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { isSpeedReliable } from '../drivingEventEngine';
+import { NAV_CONFIG, VIOLATION_CONFIG } from '../config';
+import { calculateDistance } from '../helpers';
+import { getSnapToRoute } from '../geometry';
+import { Curve, cumulativeDistances, distanceAlong, findCurves } from '../curvature';
+
+// Entering a bend well above the speed it can be taken at comfortably. While navigating, the
+// bends come from the route and are judged from the start of the bend to its apex; off the route
+// (or in free drive) they come from the recent path, so they are only seen once the car is in
+// them. Each bend is judged once.
+
+interface RecentFix {
+    point: LatLng;
+    odometer: number; // Metres driven along the recent path
+}
+
+interface RouteCurves {
+    route: LatLng[];
+    along: number[];
+    curves: Curve[];
+}
+
+export class CurveSpeedDetector implements EventDetector {
+    public readonly id = 'curve-speed';
+    private planned: RouteCurves | null = null;
+    private routeIndex = 0;
+    private judgedCurves = new Set<number>();
+    private recent: RecentFix[] = [];
+    private odometer = 0;
+    private judgedUntil = -Infinity; // Odometer reading; recent-path bends starting before it are done
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type === 'route') {
+            this.setRoute(state.route);
+            return null;
+        }
+        if (input.type !== 'location') return null;
+        const { CURVE_SPEED } = VIOLATION_CONFIG;
+        const { location, timestamp } = state;
+        if (!location || location.isEstimated) return null;
+
+        const speed = location.speed || 0;
+        const point = { lat: location.latitude, lng: location.longitude };
+        // Below walking-the-car-round-a-junction speeds nothing is judged, and standing GPS
+        // jitter would otherwise draw bends of its own
+        if (speed < CURVE_SPEED.MIN_SPEED_KMH) {
+            this.recent = [];
+            return null;
+        }
+        if (location.accuracy <= CURVE_SPEED.RECENT_PATH_MAX_ACCURACY_M) this.addRecent(point);
+        if (state.setupMode === 'passenger' || !isSpeedReliable(location)) return null;
+
+        const along = this.alongRoute(point);
+        const curve = along !== null ? this.curveOnRoute(along) : this.curveOnRecentPath();
+        if (!curve || speed <= curve.advisorySpeed + CURVE_SPEED.MARGIN_KMH) return null;
+
+        const overBy = speed - curve.advisorySpeed;
+        let severityLevel: SeverityLevel = 'MINOR';
+        let points = CURVE_SPEED.POINTS.MINOR;
+        if (overBy > CURVE_SPEED.SEVERE_OVER_KMH) {
+            severityLevel = 'SEVERE';
+            points = CURVE_SPEED.POINTS.SEVERE;
+        } else if (overBy > CURVE_SPEED.MODERATE_OVER_KMH) {
+            severityLevel = 'MODERATE';
+            points = CURVE_SPEED.POINTS.MODERATE;
+        }
+        this.markJudged(curve);
+
+        const advisorySpeed = Math.round(curve.advisorySpeed);
+        return {
+            type: 'CURVE_SPEEDING',
+            timestamp,
+            value: speed,
+            points,
+            severityLevel,
+            description: `Too fast into a bend: ${Math.round(speed)} where ${advisorySpeed} is comfortable`,
+            lat: location.latitude,
+            lng: location.longitude,
+            speed,
+            curve: { radiusM: Math.round(curve.radiusM), advisorySpeed }
+        };
+    }
+
+    public reset() {
+        this.planned = null;
+        this.routeIndex = 0;
+        this.judgedCurves.clear();
+        this.recent = [];
+        this.odometer = 0;
+        this.judgedUntil = -Infinity;
+    }
+
+    private setRoute(route: LatLng[] | null) {
+        if (route === this.planned?.route) return;
+        this.planned = route && route.length > 1 ? { route, along: cumulativeDistances(route), curves: findCurves(route) } : null;
+        this.routeIndex = 0;
+        this.judgedCurves.clear();
+    }
+
+    // Where we are along the planned route, or null when there is none or we're off it
+    private alongRoute(point: LatLng): number | null {
+        const planned = this.planned;
+        if (!planned) return null;
+
+        let snap = getSnapToRoute(point, planned.route, this.routeIndex);
+        // Joined the route somewhere other than where we last were: search all of it
+        if (!snap || snap.distanceToSnap > NAV_CONFIG.OFF_ROUTE_THRESHOLD_M) {
+            snap = getSnapToRoute(point, planned.route, 0, planned.route.length);
+        }
+        if (!snap || snap.distanceToSnap > NAV_CONFIG.OFF_ROUTE_THRESHOLD_M) return null;
+        this.routeIndex = snap.matchedIndex;
+        return distanceAlong(planned.route, planned.along, snap.matchedIndex, snap.snappedPoint);
+    }
+
+    // The planned bend we're between the start and apex of
+    private curveOnRoute(along: number): (Curve & { key: number }) | null {
+        const key = this.planned!.curves.findIndex(c => along >= c.startM && along <= c.apexM);
+        if (key < 0 || this.judgedCurves.has(key)) return null;
+        return { ...this.planned!.curves[key], key };
+    }
+
+    // The bend the recent path ends in, if it hasn't been judged yet
+    private curveOnRecentPath(): Curve | null {
+        const { RECENT_PATH_CHORD_M } = VIOLATION_CONFIG.CURVE_SPEED;
+        if (this.recent.length < 3) return null;
+        const curves = findCurves(this.recent.map(f => f.point), RECENT_PATH_CHORD_M);
+        const last = curves[curves.length - 1];
+        if (!last) return null;
+
+        const origin = this.recent[0].odometer;
+        const travelled = this.odometer - origin;
+        // A bend is only found a chord after it starts; one ending further back than that is behind us
+        if (travelled - last.endM > 2 * RECENT_PATH_CHORD_M || origin + last.startM <= this.judgedUntil) return null;
+        return last;
+    }
+
+    private markJudged(curve: Curve & { key?: number }) {
+        if (curve.key !== undefined) this.judgedCurves.add(curve.key);
+        // Whichever source raised it, the bend started behind us; the recent path must not raise it again
+        this.judgedUntil = this.odometer;
+    }
+
+    private addRecent(point: LatLng) {
+        const previous = this.recent[this.recent.length - 1];
+        if (previous) {
+            this.odometer += calculateDistance(
+                { latitude: previous.point.lat, longitude: previous.point.lng },
+                { latitude: point.lat, longitude: point.lng }
+            );
+        }
+        this.recent.push({ point, odometer: this.odometer });
+        const keepFrom = this.odometer - VIOLATION_CONFIG.CURVE_SPEED.RECENT_PATH_M;
+        while (this.recent.length > 2 && this.recent[1].odometer < keepFrom) this.recent.shift();
+    }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import { FatigueDetector } from './fatigue';
+import { fix, run, typesOf } from './__fixtures__/drive';
+
+// Local 08:00, well clear of the night weighting
+const MORNING = new Date(2026, 2, 4, 8, 0).getTime();
+const minutes = (m: number) => MORNING + m * 60000;
+
+// A fix every 30 s at `speed` from minute `from` up to (not including) minute `to`
+const driveFor = (from: number, to: number, speed: number = 80): SensorInput[] => {
+    const fixes: SensorInput[] = [];
+    for (let m = from; m < to; m += 0.5) fixes.push(fix(minutes(m), speed));
+    return fixes;
+};
+
+const engine = () => new DrivingEventEngine([new FatigueDetector()]);
+const fatigueOf = (e: DrivingEventEngine) => e.getDetector<FatigueDetector>('fatigue')!;
+
+describe('FatigueDetector', () => {
+    it('reminds the driver after two hours without a break', () => {
+        const events = run(engine(), driveFor(0, 121));
+        expect(typesOf(events)).toEqual(['FATIGUE_RISK']);
+        expect(events[0]).toMatchObject({ timestamp: minutes(120), severityLevel: 'MODERATE' });
+    });
+
+    it('pays a rest break for a long enough stop', () => {
+        const events = run(engine(), [...driveFor(0, 90), ...driveFor(90, 106, 0), ...driveFor(106, 200)]);
+        expect(typesOf(events)).toEqual(['REST_BREAK']);
+    });
+
+    it('takes a break-length pause as a rest, unpaid', () => {
+        const e = engine();
+        const before = run(e, driveFor(0, 110));
+        expect(fatigueOf(e).recordPause(minutes(110), minutes(130))).toBe(true);
+        const after = run(e, driveFor(130, 230));
+
+        expect([...before, ...after]).toEqual([]);
+    });
+
+    it('counts a short pause as driving', () => {
+        const e = engine();
+        run(e, driveFor(0, 110));
+        expect(fatigueOf(e).recordPause(minutes(110), minutes(115))).toBe(false);
+        const events = run(e, driveFor(115, 130));
+
+        expect(typesOf(events)).toEqual(['FATIGUE_RISK']);
+        expect(events[0].timestamp).toBe(minutes(120));
+    });
+});
@@ -0,0 +1,161 @@
+import type { DrivingEvent, SeverityLevel } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { REWARD_CONFIG, VIOLATION_CONFIG } from '../config';
+
+// Tracks how long the driver has gone without a real break and how their steering looks, and
+// raises FATIGUE_RISK reminders as the risk climbs. Stopping for BREAK_MS resets everything and,
+// after a long enough drive, pays a REST_BREAK bonus. Short stops (lights, queues) count as driving.
+// Pausing the trip hides the stop from us, so the trip reports its pauses through recordPause.
+
+const isNight = (timestamp: number) => {
+    const { NIGHT_START_HOUR, NIGHT_END_HOUR } = VIOLATION_CONFIG.FATIGUE;
+    const hour = new Date(timestamp).getHours();
+    return hour >= NIGHT_START_HOUR && hour < NIGHT_END_HOUR;
+};
+
+const formatDriveTime = (ms: number) => {
+    const minutes = Math.floor(ms / 60000);
+    const hours = Math.floor(minutes / 60);
+    return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+export class FatigueDetector implements EventDetector {
+    public readonly id = 'fatigue';
+    private drivingSince: number | null = null;
+    private stoppedSince: number | null = null;
+    private lullSince: number | null = null;
+    private lastQuietAt: number | null = null;
+    private corrections: number[] = [];
+    private lastReminder: { at: number, level: SeverityLevel } | null = null;
+    private breaksAwarded = 0;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (state.setupMode === 'passenger') return null;
+        const speed = state.location?.speed || 0;
+
+        if (input.type === 'motion') {
+            if (this.drivingSince !== null && speed >= VIOLATION_CONFIG.FATIGUE.STEERING.MIN_SPEED_KMH) this.trackSteering(input.motion.lateral, input.timestamp);
+            else this.lullSince = null;
+            return null;
+        }
+        if (input.type !== 'location' || input.location.isEstimated) return null;
+        const config = VIOLATION_CONFIG.FATIGUE;
+        const now = input.timestamp;
+
+        if (speed < config.MOVING_SPEED_KMH) {
+            if (this.drivingSince === null) return null;
+            if (this.stoppedSince === null) this.stoppedSince = now;
+            if (now - this.stoppedSince < config.BREAK_MS) return null;
+            return this.takeBreak(state);
+        }
+
+        this.stoppedSince = null;
+        if (this.drivingSince === null) {
+            this.drivingSince = now;
+            return null;
+        }
+
+        const drivenMs = now - this.drivingSince;
+        const risk = this.riskAt(now, drivenMs);
+        const level: SeverityLevel | null = risk >= config.SEVERE_RISK ? 'SEVERE' : risk >= config.MODERATE_RISK ? 'MODERATE' : null;
+        if (!level) return null;
+
+        const last = this.lastReminder;
+        const escalated = last?.level === 'MODERATE' && level === 'SEVERE';
+        if (last && !escalated && now - last.at < config.REMINDER_INTERVAL_MS) return null;
+        this.lastReminder = { at: now, level };
+
+        return {
+            type: 'FATIGUE_RISK',
+            timestamp: now,
+            value: risk,
+            points: 0,
+            severityLevel: level,
+            description: level === 'SEVERE'
+                ? `You've been driving for ${formatDriveTime(drivenMs)}. Please stop and rest soon.`
+                : `You've been driving for ${formatDriveTime(drivenMs)}. Time to plan a break.`,
+            lat: state.location?.latitude,
+            lng: state.location?.longitude,
+            speed
+        };
+    }
+
+    // The trip was paused from `from` to `to` with nothing sampled. A pause as long as a break
+    // resets the driving clock like one, but earns nothing: nobody saw the car stand still. A
+    // shorter one counts as driving, like a short stop. Returns whether it was taken as a rest.
+    public recordPause(from: number, to: number): boolean {
+        if (this.drivingSince === null || to - from < VIOLATION_CONFIG.FATIGUE.BREAK_MS) return false;
+        this.rest();
+        return true;
+    }
+
+    public reset() {
+        this.drivingSince = null;
+        this.stoppedSince = null;
+        this.lullSince = null;
+        this.lastQuietAt = null;
+        this.corrections = [];
+        this.lastReminder = null;
+        this.breaksAwarded = 0;
+    }
+
+    private riskAt(now: number, drivenMs: number): number {
+        const config = VIOLATION_CONFIG.FATIGUE;
+        this.corrections = this.corrections.filter(t => now - t <= config.STEERING.WINDOW_MS);
+
+        const timeScore = (drivenMs / config.CONTINUOUS_LIMIT_MS) * (isNight(now) ? config.NIGHT_WEIGHT : 1);
+        const steeringScore = Math.min(1, this.corrections.length / config.STEERING.FULL_SCORE_COUNT);
+        return timeScore + steeringScore * config.STEERING.WEIGHT;
+    }
+
+    // A lull of at least LULL_MS with no lateral input, then a sharp (but not manoeuvre-sized)
+    // correction straight after it
+    private trackSteering(lateral: number, timestamp: number) {
+        const config = VIOLATION_CONFIG.FATIGUE.STEERING;
+        const magnitude = Math.abs(lateral);
+
+        if (magnitude < config.LULL_ACCEL) {
+            if (this.lullSince === null) this.lullSince = timestamp;
+            this.lastQuietAt = timestamp;
+            return;
+        }
+
+        const lullEnded = this.lullSince !== null && this.lastQuietAt !== null;
+        const lullLongEnough = lullEnded && this.lastQuietAt! - this.lullSince! >= config.LULL_MS;
+        const sharpAfterLull = lullLongEnough && timestamp - this.lastQuietAt! <= config.CORRECTION_WINDOW_MS;
+        if (sharpAfterLull && magnitude >= config.CORRECTION_MIN_ACCEL && magnitude <= config.CORRECTION_MAX_ACCEL) {
+            this.corrections.push(timestamp);
+            this.lullSince = null;
+        } else if (!lullEnded || timestamp - this.lastQuietAt! > config.CORRECTION_WINDOW_MS) {
+            this.lullSince = null;
+        }
+    }
+
+    private rest() {
+        this.drivingSince = null;
+        this.stoppedSince = null;
+        this.lullSince = null;
+        this.corrections = [];
+        this.lastReminder = null;
+    }
+
+    private takeBreak(state: Readonly<DrivingState>): DrivingEvent | null {
+        const config = REWARD_CONFIG.REST_BREAK;
+        const drivenMs = this.stoppedSince! - this.drivingSince!;
+        const restedMs = state.timestamp - this.stoppedSince!;
+        this.rest();
+
+        if (drivenMs < config.MIN_DRIVE_MS || this.breaksAwarded >= config.MAX_PER_TRIP) return null;
+        this.breaksAwarded++;
+        return {
+            type: 'REST_BREAK',
+            timestamp: state.timestamp,
+            value: restedMs / 60000,
+            points: config.POINTS,
+            severityLevel: 'MINOR',
+            description: `Rest break after ${formatDriveTime(drivenMs)} of driving`,
+            lat: state.location?.latitude,
+            lng: state.location?.longitude
+        };
+    }
+}
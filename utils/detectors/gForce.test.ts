@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import type { VehicleMotion } from '../vehicleFrame';
+import { GForceDetector } from './gForce';
+import { at, cruise, fix, motion, road, run, typesOf } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new GForceDetector()]);
+
+// Motion at 10 Hz for `seconds`, starting `fromSeconds` in
+const burst = (fromSeconds: number, seconds: number, values: Partial<VehicleMotion>): SensorInput[] =>
+    Array.from({ length: Math.round(seconds * 10) }, (_, i) => motion(at(fromSeconds) + i * 100, values));
+
+describe('GForceDetector', () => {
+    it('flags harsh braking once per cooldown', () => {
+        const events = run(engine(), [fix(at(0), 50), ...burst(1, 2, { longitudinal: -12 })]);
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'HARSH_BRAKING', timestamp: at(1), points: -7, severityLevel: 'MODERATE', value: 12, speed: 50 });
+    });
+
+    it('flags harsh braking again after the cooldown', () => {
+        const events = run(engine(), [fix(at(0), 50), ...burst(1, 3.5, { longitudinal: -12 })]);
+        expect(events.map(e => e.timestamp)).toEqual([at(1), at(1) + 3100]);
+    });
+
+    it('flags harsh acceleration', () => {
+        const events = run(engine(), [fix(at(0), 20), ...burst(1, 0.5, { longitudinal: 10 })]);
+        expect(typesOf(events)).toEqual(['HARSH_ACCELERATION']);
+    });
+
+    it('only calls strong lateral force cornering once the car has turned', () => {
+        // 30°/s of yaw: 3° a sample after the first, so 20° is reached on the eighth
+        const events = run(engine(), [fix(at(0), 50), ...burst(1, 1.5, { lateral: 7, yawRate: 30 })]);
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'UNSAFE_CORNERING', timestamp: at(1) + 700, points: -15, severityLevel: 'SEVERE' });
+    });
+
+    it('ignores lateral force without a turn', () => {
+        expect(run(engine(), [fix(at(0), 50), ...burst(1, 2, { lateral: 7 })])).toEqual([]);
+    });
+
+    it('stays quiet while stopped', () => {
+        expect(run(engine(), burst(0, 2, { longitudinal: -12 }))).toEqual([]);
+    });
+
+    it('stays quiet while a sustained speeding episode is running', () => {
+        const inputs = [road(at(0), 50), ...cruise(0, 5, 80), ...burst(5, 1, { longitudinal: -12 })];
+        expect(run(engine(), inputs)).toEqual([]);
+    });
+});
@@ -0,0 +1,73 @@
+import type { DrivingEvent, DrivingEventType, SeverityLevel } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { NAV_CONFIG, VIOLATION_CONFIG } from '../config';
+
+// Harsh braking, harsh acceleration and unsafe cornering from smoothed vehicle-frame motion.
+// Quiet while stopped, while a speeding episode is being penalised (the speed itself is the
+// story) and for COOLDOWN_MS after any other penalty.
+// Strong lateral force alone is not cornering: the first half of a lane change feels the same.
+// It only counts once the gyro says the car has turned CORNER_MIN_HEADING_DEG while the force
+// lasted; the S-shaped case is LaneChangeDetector's.
+export class GForceDetector implements EventDetector {
+    public readonly id = 'g-force';
+    private turnSign = 0;
+    private turnedDeg = 0;
+    private lastMotionAt: number | null = null;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'motion') return null;
+        const { G_FORCE } = VIOLATION_CONFIG;
+        const { timestamp, motion, isStopped, overSpeedSince } = state;
+        this.trackTurn(motion.lateral, motion.yawRate, timestamp);
+
+        if (isStopped || timestamp - state.lastPenaltyAt <= G_FORCE.COOLDOWN_MS) return null;
+        if (overSpeedSince !== null && timestamp - overSpeedSince > NAV_CONFIG.SPEED_SUSTAIN_TIME_MS) return null;
+
+        let type: DrivingEventType;
+        let points: number;
+        let severityLevel: SeverityLevel;
+        let description: string;
+
+        if (motion.longitudinal < G_FORCE.HARSH_BRAKING) {
+            type = 'HARSH_BRAKING'; points = G_FORCE.POINTS.HARSH_BRAKING; severityLevel = 'MODERATE'; description = 'Harsh Braking';
+        } else if (motion.longitudinal > G_FORCE.HARSH_ACCEL) {
+            type = 'HARSH_ACCELERATION'; points = G_FORCE.POINTS.HARSH_ACCEL; severityLevel = 'MODERATE'; description = 'Aggressive Acceleration';
+        } else if (Math.abs(motion.lateral) > G_FORCE.CORNERING && Math.abs(this.turnedDeg) >= G_FORCE.CORNER_MIN_HEADING_DEG) {
+            type = 'UNSAFE_CORNERING'; points = G_FORCE.POINTS.CORNERING; severityLevel = 'SEVERE'; description = 'Unsafe Cornering';
+        } else {
+            return null;
+        }
+
+        const { longitudinal, lateral, vertical } = motion;
+        return {
+            type,
+            timestamp,
+            value: Math.sqrt(longitudinal * longitudinal + lateral * lateral + vertical * vertical),
+            points,
+            severityLevel,
+            description,
+            lat: state.location?.latitude,
+            lng: state.location?.longitude,
+            speed: state.location?.speed ?? undefined
+        };
+    }
+
+    public reset() {
+        this.turnSign = 0;
+        this.turnedDeg = 0;
+        this.lastMotionAt = null;
+    }
+
+    // Degrees turned since lateral force built up on the current side
+    private trackTurn(lateral: number, yawRate: number, timestamp: number) {
+        const dt = this.lastMotionAt !== null ? (timestamp - this.lastMotionAt) / 1000 : 0;
+        this.lastMotionAt = timestamp;
+
+        const sign = Math.abs(lateral) >= VIOLATION_CONFIG.G_FORCE.LANE_CHANGE ? Math.sign(lateral) : 0;
+        if (sign !== this.turnSign) {
+            this.turnSign = sign;
+            this.turnedDeg = 0;
+        }
+        if (sign !== 0) this.turnedDeg += yawRate * dt;
+    }
+}
@@ -0,0 +1,40 @@
+import type { EventDetector } from '../drivingEventEngine';
+import { SpeedingDetector } from './speeding';
+import { SchoolZoneDetector } from './schoolZone';
+import { GForceDetector } from './gForce';
+import { PhoneTouchDetector } from './phoneTouch';
+import { SafeDrivingBonusDetector } from './safeDrivingBonus';
+import { CrashDetector } from './crash';
+import { LaneChangeDetector } from './laneChange';
+import { CurveSpeedDetector } from './curveSpeed';
+import { StopSignDetector } from './stopSign';
+import { WeatherSpeedDetector, weatherAdjustedLimit } from './weatherSpeed';
+import { SmoothBrakingDetector } from './smoothBraking';
+import { SmoothLaunchDetector } from './smoothLaunch';
+import { SteadyCruisingDetector } from './steadyCruising';
+import { FatigueDetector } from './fatigue';
+
+export {
+    SpeedingDetector, SchoolZoneDetector, WeatherSpeedDetector, GForceDetector, LaneChangeDetector, CurveSpeedDetector, StopSignDetector, PhoneTouchDetector, CrashDetector,
+    SafeDrivingBonusDetector, SmoothBrakingDetector, SmoothLaunchDetector, SteadyCruisingDetector, FatigueDetector,
+    weatherAdjustedLimit
+};
+
+// The rule set a live trip runs with. Penalties come before rewards so a reward never lands on
+// the same sample that was just penalised.
+export const createDefaultDetectors = (): EventDetector[] => [
+    new SpeedingDetector(),
+    new SchoolZoneDetector(),
+    new WeatherSpeedDetector(),
+    new GForceDetector(),
+    new LaneChangeDetector(),
+    new CurveSpeedDetector(),
+    new StopSignDetector(),
+    new PhoneTouchDetector(),
+    new CrashDetector(),
+    new SafeDrivingBonusDetector(),
+    new SmoothBrakingDetector(),
+    new SmoothLaunchDetector(),
+    new SteadyCruisingDetector(),
+    new FatigueDetector()
+];
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import type { VehicleMotion } from '../vehicleFrame';
+import { LaneChangeDetector } from './laneChange';
+import { at, fix, motion, run } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new LaneChangeDetector()]);
+
+// Motion at 10 Hz: each phase holds its values for its number of samples
+const motionPhases = (phases: [number, Partial<VehicleMotion>][]): SensorInput[] => {
+    let sample = 0;
+    return phases.flatMap(([samples, values]) => Array.from({ length: samples }, () => motion(at(1) + 100 * sample++, values)));
+};
+
+describe('LaneChangeDetector', () => {
+    it('flags a sharp push one way and back at speed', () => {
+        const swerve = motionPhases([[10, { lateral: 5 }], [10, { lateral: -5 }], [15, {}]]);
+        const events = run(engine(), [fix(at(0), 80), ...swerve]);
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'AGGRESSIVE_LANE_CHANGE', points: -6, severityLevel: 'MODERATE', speed: 80 });
+    });
+
+    it('does not call a bend a lane change', () => {
+        const bend = motionPhases([[40, { lateral: 5, yawRate: 15 }], [10, { lateral: -4 }], [15, {}]]);
+        expect(run(engine(), [fix(at(0), 80), ...bend])).toEqual([]);
+    });
+
+    it('ignores gentle lane changes and slow manoeuvring', () => {
+        const gentle = motionPhases([[10, { lateral: 2 }], [10, { lateral: -2 }], [15, {}]]);
+        expect(run(engine(), [fix(at(0), 80), ...gentle])).toEqual([]);
+
+        const sharp = motionPhases([[10, { lateral: 5 }], [10, { lateral: -5 }], [15, {}]]);
+        expect(run(engine(), [fix(at(0), 20), ...sharp])).toEqual([]);
+    });
+});
@@ -0,0 +1,105 @@
+import type { DrivingEvent, SeverityLevel } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { headingDifference } from '../geometry';
+import { VIOLATION_CONFIG } from '../config';
+
+// A lane change is a lateral S: a push one way, a push back the other way within a couple of
+// seconds, then straight ahead again with the yaw rate back at zero. What separates it from a
+// bend is that the car ends up pointing the way it started, by both the gyro and GPS.
+
+interface Manoeuvre {
+    startedAt: number;
+    lobeStartedAt: number;
+    firstSign: number;
+    reversed: boolean;
+    peak: number; // m/s²
+    yawIntegral: number; // degrees turned since the first push
+    startHeading: number | null;
+}
+
+export class LaneChangeDetector implements EventDetector {
+    public readonly id = 'lane-change';
+    private manoeuvre: Manoeuvre | null = null;
+    private lastMotionAt: number | null = null;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'motion') return null;
+        const config = VIOLATION_CONFIG.LANE_CHANGE;
+        const threshold = VIOLATION_CONFIG.G_FORCE.LANE_CHANGE;
+        const { lateral, yawRate } = state.motion;
+        const dt = this.lastMotionAt !== null ? (input.timestamp - this.lastMotionAt) / 1000 : 0;
+        this.lastMotionAt = input.timestamp;
+
+        const m = this.manoeuvre;
+        if (!m) {
+            const speed = state.location?.speed || 0;
+            if (speed < config.MIN_SPEED_KMH || Math.abs(lateral) < threshold) return null;
+            this.manoeuvre = {
+                startedAt: input.timestamp,
+                lobeStartedAt: input.timestamp,
+                firstSign: Math.sign(lateral),
+                reversed: false,
+                peak: Math.abs(lateral),
+                yawIntegral: 0,
+                startHeading: state.location?.heading ?? null
+            };
+            return null;
+        }
+
+        m.yawIntegral += yawRate * dt;
+        m.peak = Math.max(m.peak, Math.abs(lateral));
+
+        // Too slow, or one push held too long: a bend or a single swerve
+        if (input.timestamp - m.startedAt > config.MAX_DURATION_MS || input.timestamp - m.lobeStartedAt > config.MAX_LOBE_MS) {
+            this.manoeuvre = null;
+            return null;
+        }
+
+        if (!m.reversed) {
+            if (Math.abs(lateral) >= threshold && Math.sign(lateral) === -m.firstSign) {
+                m.reversed = true;
+                m.lobeStartedAt = input.timestamp;
+            }
+            return null;
+        }
+
+        if (Math.abs(lateral) > config.SETTLE_ACCEL || Math.abs(yawRate) > config.SETTLE_YAW_RATE) return null;
+
+        this.manoeuvre = null;
+        if (Math.abs(m.yawIntegral) > config.MAX_HEADING_CHANGE_DEG) return null;
+        const heading = state.location?.heading ?? null;
+        if (m.startHeading !== null && heading !== null && headingDifference(m.startHeading, heading) > config.MAX_HEADING_CHANGE_DEG) return null;
+
+        return this.buildEvent(m, state, input.timestamp);
+    }
+
+    public reset() {
+        this.manoeuvre = null;
+        this.lastMotionAt = null;
+    }
+
+    private buildEvent(m: Manoeuvre, state: Readonly<DrivingState>, timestamp: number): DrivingEvent {
+        const config = VIOLATION_CONFIG.LANE_CHANGE;
+        let severityLevel: SeverityLevel = 'MINOR';
+        let points = config.POINTS.MINOR;
+        if (m.peak >= config.SEVERE_ACCEL) {
+            severityLevel = 'SEVERE';
+            points = config.POINTS.SEVERE;
+        } else if (m.peak >= config.MODERATE_ACCEL) {
+            severityLevel = 'MODERATE';
+            points = config.POINTS.MODERATE;
+        }
+
+        return {
+            type: 'AGGRESSIVE_LANE_CHANGE',
+            timestamp,
+            value: m.peak,
+            points,
+            severityLevel,
+            description: 'Aggressive Lane Change',
+            lat: state.location?.latitude,
+            lng: state.location?.longitude,
+            speed: state.location?.speed ?? undefined
+        };
+    }
+}
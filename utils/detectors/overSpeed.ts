@@ -0,0 +1,154 @@
+import type { DrivingEvent, SeverityLevel, SpeedingEpisode } from '../../types';
+import type { DrivingState } from '../drivingEventEngine';
+import { NAV_CONFIG, VIOLATION_CONFIG } from '../config';
+
+// Shared episode tracking for the speeding-style rules. Fixes are collected while the driver is
+// over the limit; when they drop back under (or the rule stops applying) the stretch is closed
+// into one SpeedingEpisode, unless it never lasted SPEED_SUSTAIN_TIME_MS.
+
+export interface OverSpeedPenalty {
+    points: number;
+    severityLevel: SeverityLevel;
+}
+
+interface OverSpeedSample {
+    timestamp: number;
+    speed: number;
+    limit: number;
+    lat: number;
+    lng: number;
+    limitReason?: string;
+}
+
+export interface ClosedEpisode {
+    episode: SpeedingEpisode;
+    limitReason?: string; // Why the limit at the peak applied, for disputes
+}
+
+export const SEVERITY_VALUE: Record<SeverityLevel, number> = { MINOR: 0.3, MODERATE: 0.5, SEVERE: 0.7, CRITICAL: 0.9 };
+
+const SEVERITY_POINTS: Record<SeverityLevel, number> = {
+    MINOR: VIOLATION_CONFIG.SPEEDING.POINTS.MINOR,
+    MODERATE: VIOLATION_CONFIG.SPEEDING.POINTS.MODERATE,
+    SEVERE: VIOLATION_CONFIG.SPEEDING.POINTS.SERIOUS,
+    CRITICAL: VIOLATION_CONFIG.SPEEDING.POINTS.CRITICAL
+};
+
+const SEVERITY_ORDER: SeverityLevel[] = ['MINOR', 'MODERATE', 'SEVERE', 'CRITICAL'];
+
+export const classifyOverSpeed = (overSpeed: number): SeverityLevel => {
+    const { CRITICAL_THRESHOLD, SERIOUS_THRESHOLD, MODERATE_THRESHOLD } = VIOLATION_CONFIG.SPEEDING;
+    if (overSpeed > CRITICAL_THRESHOLD) return 'CRITICAL';
+    if (overSpeed > SERIOUS_THRESHOLD) return 'SEVERE';
+    if (overSpeed > MODERATE_THRESHOLD) return 'MODERATE';
+    return 'MINOR';
+};
+
+// How a rule grades an episode's peak, and the base points for each grade
+export interface EpisodeScale {
+    classify: (overSpeed: number) => SeverityLevel;
+    points: Record<SeverityLevel, number>;
+}
+
+const SPEEDING_SCALE: EpisodeScale = { classify: classifyOverSpeed, points: SEVERITY_POINTS };
+
+// Severity from the peak, a level higher for a long episode. Points: the severity's base plus
+// mean-over × minutes, capped.
+export const scoreEpisode = (episode: SpeedingEpisode, scale: EpisodeScale = SPEEDING_SCALE): OverSpeedPenalty => {
+    const config = VIOLATION_CONFIG.SPEEDING.EPISODE;
+    let severityLevel = scale.classify(episode.peakOverSpeed);
+    if (episode.durationMs > config.LONG_MS) {
+        severityLevel = SEVERITY_ORDER[Math.min(SEVERITY_ORDER.length - 1, SEVERITY_ORDER.indexOf(severityLevel) + 1)];
+    }
+    const sustained = config.POINTS_PER_KMH_MINUTE * episode.meanOverSpeed * (episode.durationMs / 60000);
+    return { severityLevel, points: Math.round(Math.max(config.MAX_POINTS, scale.points[severityLevel] + sustained)) };
+};
+
+// Every nth sample so the trace stays small however long the episode ran; always keeps the last
+const downsample = <T>(items: T[], max: number): T[] => {
+    if (items.length <= max) return items;
+    const step = (items.length - 1) / (max - 1);
+    return Array.from({ length: max }, (_, i) => items[Math.round(i * step)]);
+};
+
+export class OverSpeedEpisodeTracker {
+    private samples: OverSpeedSample[] = [];
+
+    // Returns the episode that this input ended, if any. Only location fixes add samples.
+    public update(isLocationFix: boolean, state: Readonly<DrivingState>, limitReason?: string): ClosedEpisode | null {
+        const { overSpeedSince, speedLimit } = state;
+        return this.updateAgainst(overSpeedSince !== null ? speedLimit : null, isLocationFix, state, limitReason);
+    }
+
+    // The same for a rule with a limit of its own: `limit` is the one the driver is over right
+    // now, or null when they aren't
+    public updateAgainst(limit: number | null, isLocationFix: boolean, state: Readonly<DrivingState>, limitReason?: string): ClosedEpisode | null {
+        const { location, timestamp } = state;
+        if (!limit || !location) return this.close();
+        if (isLocationFix) {
+            this.samples.push({ timestamp, speed: location.speed || 0, limit, lat: location.latitude, lng: location.longitude, limitReason });
+        }
+        return null;
+    }
+
+    // Ends the episode now, e.g. because the rule no longer applies or the trip is over
+    public close(): ClosedEpisode | null {
+        const samples = this.samples;
+        this.samples = [];
+        if (samples.length < 2) return null;
+
+        const first = samples[0];
+        const last = samples[samples.length - 1];
+        const durationMs = last.timestamp - first.timestamp;
+        if (durationMs <= NAV_CONFIG.SPEED_SUSTAIN_TIME_MS) return null;
+
+        // Time-weighted, so a burst of fixes at one moment doesn't skew it
+        let weighted = 0;
+        for (let i = 1; i < samples.length; i++) {
+            const a = samples[i - 1], b = samples[i];
+            weighted += (((a.speed - a.limit) + (b.speed - b.limit)) / 2) * (b.timestamp - a.timestamp);
+        }
+        const peak = samples.reduce((best, s) => (s.speed - s.limit > best.speed - best.limit ? s : best));
+
+        const episode: SpeedingEpisode = {
+            startTime: first.timestamp,
+            endTime: last.timestamp,
+            start: { lat: first.lat, lng: first.lng },
+            end: { lat: last.lat, lng: last.lng },
+            durationMs,
+            speedLimit: peak.limit,
+            peakOverSpeed: peak.speed - peak.limit,
+            meanOverSpeed: weighted / durationMs,
+            trace: downsample(samples, VIOLATION_CONFIG.SPEEDING.EPISODE.TRACE_SAMPLES).map(s => ({
+                t: s.timestamp - first.timestamp,
+                speed: Math.round(s.speed),
+                limit: Math.round(s.limit)
+            }))
+        };
+        return { episode, limitReason: peak.limitReason };
+    }
+
+    public reset() {
+        this.samples = [];
+    }
+}
+
+export const buildSpeedingEvent = (type: DrivingEvent['type'], state: Readonly<DrivingState>, { episode, limitReason }: ClosedEpisode, penalty: OverSpeedPenalty): DrivingEvent => {
+    const peakSpeed = episode.speedLimit + episode.peakOverSpeed;
+    const seconds = Math.round(episode.durationMs / 1000);
+    return {
+        type,
+        timestamp: state.timestamp,
+        value: peakSpeed,
+        points: penalty.points,
+        severity: SEVERITY_VALUE[penalty.severityLevel],
+        severityLevel: penalty.severityLevel,
+        description: `Speeding: up to ${Math.round(peakSpeed)} in ${Math.round(episode.speedLimit)} for ${seconds}s`,
+        lat: episode.start.lat,
+        lng: episode.start.lng,
+        speed: peakSpeed,
+        roadSpeedLimit: episode.speedLimit,
+        speedLimitReason: limitReason,
+        episode
+    };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine } from '../drivingEventEngine';
+import { PhoneTouchDetector } from './phoneTouch';
+import { at, fix, run, touch } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new PhoneTouchDetector()]);
+
+describe('PhoneTouchDetector', () => {
+    it('penalises touching the phone while moving', () => {
+        const events = run(engine(), [fix(at(0), 50), touch(at(1))]);
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'PHONE_TOUCH', timestamp: at(1), points: -30, severityLevel: 'SEVERE', speed: 50, description: 'Phone Interaction while Driving' });
+    });
+
+    it('debounces a flurry of touches', () => {
+        const events = run(engine(), [fix(at(0), 50), touch(at(1)), touch(at(1.5)), touch(at(2.9)), touch(at(3))]);
+        expect(events.map(e => e.timestamp)).toEqual([at(1), at(3)]);
+    });
+
+    it('allows the phone once stopped', () => {
+        expect(run(engine(), [touch(at(0))])).toEqual([]);
+
+        const stopped = [fix(at(0), 50), fix(at(1), 0), fix(at(3), 0), fix(at(5.5), 0), touch(at(6))];
+        expect(run(engine(), stopped)).toEqual([]);
+    });
+
+    it('does not count a brief stop at the lights as stopped', () => {
+        const events = run(engine(), [fix(at(0), 50), fix(at(1), 0), fix(at(3), 0), touch(at(3.5))]);
+        expect(events).toHaveLength(1);
+    });
+
+    it('never penalises passengers', () => {
+        const passenger = engine();
+        passenger.setSetupMode('passenger');
+        expect(run(passenger, [fix(at(0), 50), touch(at(1))])).toEqual([]);
+    });
+
+    it('penalises backgrounding the app only at speed and with a signal', () => {
+        // Crawling at 3 km/h: not stopped, but too slow for backgrounding to count
+        expect(run(engine(), [fix(at(0), 50), fix(at(1), 3), touch(at(2), 'background')])).toEqual([]);
+
+        const lost = engine();
+        lost.setSignalLost(true);
+        expect(run(lost, [fix(at(0), 50), touch(at(1), 'background')])).toEqual([]);
+
+        const events = run(engine(), [fix(at(0), 50), touch(at(1), 'background')]);
+        expect(events[0]).toMatchObject({ type: 'PHONE_TOUCH', description: 'App Backgrounded while Driving' });
+    });
+});
@@ -0,0 +1,32 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { VIOLATION_CONFIG } from '../config';
+
+// Touching the screen, or backgrounding the app, while moving. Backgrounding during a GPS
+// outage is let off because the frozen speed can't prove the car is still moving.
+export class PhoneTouchDetector implements EventDetector {
+    public readonly id = 'phone-touch';
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'interaction') return null;
+        const { PHONE_USE } = VIOLATION_CONFIG;
+        const speed = state.location?.speed || 0;
+
+        if (state.setupMode === 'passenger' || state.isStopped) return null;
+        if (input.interaction === 'background' && (speed <= PHONE_USE.BACKGROUND_MIN_SPEED || state.isSignalLost)) return null;
+        if (input.timestamp - state.lastPenaltyAt < PHONE_USE.DEBOUNCE_MS) return null;
+
+        return {
+            type: 'PHONE_TOUCH',
+            timestamp: input.timestamp,
+            points: PHONE_USE.POINTS,
+            severity: 0.8,
+            severityLevel: 'SEVERE',
+            value: speed,
+            description: input.interaction === 'background' ? 'App Backgrounded while Driving' : 'Phone Interaction while Driving',
+            lat: state.location?.latitude,
+            lng: state.location?.longitude,
+            speed
+        };
+    }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine } from '../drivingEventEngine';
+import { SafeDrivingBonusDetector } from './safeDrivingBonus';
+import { at, cruise, fix, road, run, schoolZone, weather } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SafeDrivingBonusDetector()]);
+
+describe('SafeDrivingBonusDetector', () => {
+    it('rewards holding under the limit once a minute', () => {
+        const events = run(engine(), [road(at(0), 60), ...cruise(0, 130, 50)]);
+
+        expect(events.map(e => e.timestamp)).toEqual([at(0), at(61), at(122)]);
+        expect(events[0]).toMatchObject({ type: 'SAFE_DISTANCE', points: 5, severityLevel: 'MINOR', value: 50 });
+    });
+
+    it('needs a known limit and some speed', () => {
+        expect(run(engine(), cruise(0, 10, 50))).toEqual([]);
+        expect(run(engine(), [road(at(0), 60), ...cruise(0, 10, 15)])).toEqual([]);
+    });
+
+    it('withholds the reward while speeding or in a school zone', () => {
+        expect(run(engine(), [road(at(0), 60), ...cruise(0, 10, 70)])).toEqual([]);
+        expect(run(engine(), [schoolZone(at(0), 60, false), ...cruise(0, 10, 35)])).toEqual([]);
+    });
+
+    it('measures the limit against the weather', () => {
+        // Snow caps a 60 zone at 42
+        expect(run(engine(), [road(at(0), 60), weather(at(0), 'snow'), ...cruise(0, 10, 50)])).toEqual([]);
+        expect(run(engine(), [road(at(0), 60), weather(at(0), 'snow'), ...cruise(0, 10, 40)])).toHaveLength(1);
+    });
+
+    it('ignores speeds it cannot trust', () => {
+        const estimated = Array.from({ length: 10 }, (_, s) => fix(at(s), 50, { isEstimated: true }));
+        expect(run(engine(), [road(at(0), 60), ...estimated])).toEqual([]);
+    });
+});
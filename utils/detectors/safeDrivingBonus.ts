@@ -0,0 +1,40 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { isSpeedReliable } from '../drivingEventEngine';
+import { VIOLATION_CONFIG } from '../config';
+import { weatherAdjustedLimit } from './weatherSpeed';
+
+// Small periodic reward for holding a reliable speed under a known limit (tightened for the
+// weather) outside school zones
+export class SafeDrivingBonusDetector implements EventDetector {
+    public readonly id = 'safe-driving-bonus';
+    private lastRewardAt = 0;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'location') return null;
+        const { SAFE_DRIVING_BONUS } = VIOLATION_CONFIG;
+        const { location, speedLimit, timestamp } = state;
+
+        if (state.setupMode === 'passenger' || !location || !speedLimit || !isSpeedReliable(location)) return null;
+        if (state.overSpeedSince !== null || state.road.isSchoolZone) return null;
+
+        const speed = location.speed || 0;
+        const safeLimit = weatherAdjustedLimit(speedLimit, state.weather) ?? speedLimit;
+        if (speed <= SAFE_DRIVING_BONUS.MIN_SPEED || speed >= safeLimit) return null;
+        if (timestamp - this.lastRewardAt <= SAFE_DRIVING_BONUS.INTERVAL_MS) return null;
+
+        this.lastRewardAt = timestamp;
+        return {
+            type: 'SAFE_DISTANCE',
+            timestamp,
+            value: speed,
+            points: SAFE_DRIVING_BONUS.POINTS,
+            severityLevel: 'MINOR',
+            description: 'Safe Driving Bonus'
+        };
+    }
+
+    public reset() {
+        this.lastRewardAt = 0;
+    }
+}
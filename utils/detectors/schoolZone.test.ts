@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine } from '../drivingEventEngine';
+import { SchoolZoneDetector } from './schoolZone';
+import { SpeedingDetector } from './speeding';
+import { at, cruise, road, run, schoolZone, typesOf } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SpeedingDetector(), new SchoolZoneDetector()]);
+
+describe('SchoolZoneDetector', () => {
+    it('judges against the school limit while the zone is in force, critical and doubled', () => {
+        // Posted 60, school limit 40: 55 is fine on the road but 15 over in the zone
+        const events = run(engine(), [schoolZone(at(0), 60), ...cruise(0, 6, 55), schoolZone(at(6), 60, false), ...cruise(6, 20, 55)], { flush: true });
+
+        expect(events).toHaveLength(1);
+        // MODERATE -7 and -15 km/h × 5/60 min, rounded, then doubled
+        expect(events[0]).toMatchObject({ type: 'SCHOOL_ZONE_SPEEDING', timestamp: at(6), severityLevel: 'CRITICAL', points: -16, roadSpeedLimit: 40, speedLimitReason: 'School zone in force' });
+        expect(events[0].episode).toMatchObject({ durationMs: 5000, peakOverSpeed: 15 });
+    });
+
+    it('closes the episode on leaving the zone', () => {
+        const events = run(engine(), [schoolZone(at(0), 60), ...cruise(0, 8, 50), road(at(8), 60), ...cruise(8, 12, 50)]);
+        expect(typesOf(events)).toEqual(['SCHOOL_ZONE_SPEEDING']);
+        expect(events[0].timestamp).toBe(at(8));
+    });
+
+    it('leaves a zone outside its hours to the posted limit', () => {
+        const events = run(engine(), [schoolZone(at(0), 60, false), ...cruise(0, 10, 55)], { flush: true });
+        expect(events).toEqual([]);
+    });
+
+    it('is the only rule that reports speeding inside the zone', () => {
+        const events = run(engine(), [schoolZone(at(0), 60), ...cruise(0, 10, 80)], { flush: true });
+        expect(typesOf(events)).toEqual(['SCHOOL_ZONE_SPEEDING']);
+        // 40 over the school limit for 9 s: CRITICAL -30 and -40 km/h × 0.15 min, doubled
+        expect(events[0]).toMatchObject({ points: -72, severityLevel: 'CRITICAL' });
+    });
+});
@@ -0,0 +1,36 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { OverSpeedEpisodeTracker, ClosedEpisode, buildSpeedingEvent, scoreEpisode } from './overSpeed';
+import { VIOLATION_CONFIG } from '../config';
+
+// Speeding inside a school zone while it is in force: judged against the school limit,
+// always CRITICAL, penalty multiplied. Leaving the zone (or its hours ending) closes the episode.
+export class SchoolZoneDetector implements EventDetector {
+    public readonly id = 'school-zone';
+    private tracker = new OverSpeedEpisodeTracker();
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'location' && input.type !== 'road') return null;
+        const closed = state.road.isSchoolZoneActive
+            ? this.tracker.update(input.type === 'location', state, 'School zone in force')
+            : this.tracker.close();
+        return closed ? this.toEvent(closed, state) : null;
+    }
+
+    public flush(state: Readonly<DrivingState>): DrivingEvent | null {
+        const closed = this.tracker.close();
+        return closed ? this.toEvent(closed, state) : null;
+    }
+
+    public reset() {
+        this.tracker.reset();
+    }
+
+    private toEvent(closed: ClosedEpisode, state: Readonly<DrivingState>): DrivingEvent {
+        const penalty = scoreEpisode(closed.episode);
+        return buildSpeedingEvent('SCHOOL_ZONE_SPEEDING', state, closed, {
+            points: penalty.points * VIOLATION_CONFIG.SCHOOL_ZONE.PENALTY_MULTIPLIER,
+            severityLevel: 'CRITICAL'
+        });
+    }
+}
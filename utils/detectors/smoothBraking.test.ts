@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import { SmoothBrakingDetector } from './smoothBraking';
+import { at, fix, motion, run } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SmoothBrakingDetector()]);
+
+// From 50 km/h to a standstill over `seconds`, braking at `decel` m/s² throughout
+const stopping = (seconds: number, decel: number): SensorInput[] =>
+    Array.from({ length: seconds + 1 }, (_, s) => [
+        fix(at(s), 50 - (50 * s) / seconds),
+        ...Array.from({ length: 10 }, (_, i) => motion(at(s) + i * 100, { longitudinal: -decel }))
+    ]).flat();
+
+describe('SmoothBrakingDetector', () => {
+    it('rewards a long, gentle stop', () => {
+        const events = run(engine(), stopping(10, 1.4));
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'SMOOTH_BRAKING', timestamp: at(10), points: 3, severityLevel: 'MINOR', description: 'Smooth stop from 50 km/h' });
+    });
+
+    it('does not reward braking hard or late', () => {
+        expect(run(engine(), stopping(10, 4))).toEqual([]);
+        expect(run(engine(), stopping(3, 1.4))).toEqual([]);
+    });
+
+    it('starts over when the driver picks speed back up', () => {
+        const surge = [fix(at(0), 50), fix(at(2), 30), fix(at(3), 40), fix(at(4), 20), fix(at(5), 0)];
+        expect(run(engine(), surge)).toEqual([]);
+    });
+});
@@ -0,0 +1,63 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { REWARD_CONFIG } from '../config';
+
+// Rewards a gradual approach to a stop: a long, gentle deceleration rather than late braking.
+// The approach starts at the highest speed seen since the driver last picked up speed.
+
+interface Approach {
+    startSpeed: number;
+    startedAt: number;
+    minSpeed: number;
+    peakDecel: number; // m/s²
+}
+
+export class SmoothBrakingDetector implements EventDetector {
+    public readonly id = 'smooth-braking';
+    private approach: Approach | null = null;
+    private awarded = 0;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        const config = REWARD_CONFIG.SMOOTH_BRAKING;
+        if (state.setupMode === 'passenger' || this.awarded >= config.MAX_PER_TRIP) return null;
+
+        if (input.type === 'motion') {
+            if (this.approach) this.approach.peakDecel = Math.max(this.approach.peakDecel, -state.motion.longitudinal);
+            return null;
+        }
+        if (input.type !== 'location' || input.location.isEstimated) return null;
+
+        const speed = input.location.speed || 0;
+        const approach = this.approach;
+
+        if (!approach || speed >= approach.startSpeed || speed > approach.minSpeed + config.REACCEL_KMH) {
+            this.approach = speed > config.STOP_SPEED_KMH ? { startSpeed: speed, startedAt: input.timestamp, minSpeed: speed, peakDecel: 0 } : null;
+            return null;
+        }
+
+        approach.minSpeed = Math.min(approach.minSpeed, speed);
+        if (speed > config.STOP_SPEED_KMH) return null;
+
+        this.approach = null;
+        const duration = input.timestamp - approach.startedAt;
+        if (approach.startSpeed < config.MIN_START_SPEED_KMH || duration < config.MIN_DURATION_MS) return null;
+        if (approach.peakDecel > config.MAX_DECEL || state.lastPenaltyAt > approach.startedAt) return null;
+
+        this.awarded++;
+        return {
+            type: 'SMOOTH_BRAKING',
+            timestamp: input.timestamp,
+            value: approach.peakDecel,
+            points: config.POINTS,
+            severityLevel: 'MINOR',
+            description: `Smooth stop from ${Math.round(approach.startSpeed)} km/h`,
+            lat: input.location.latitude,
+            lng: input.location.longitude
+        };
+    }
+
+    public reset() {
+        this.approach = null;
+        this.awarded = 0;
+    }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import { SmoothLaunchDetector } from './smoothLaunch';
+import { at, fix, motion, run } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SmoothLaunchDetector()]);
+
+// Pulling away from a standstill, 4 km/h faster each second, at `accel` m/s² throughout
+const launching = (accel: number): SensorInput[] =>
+    Array.from({ length: 13 }, (_, s) => [
+        fix(at(s), 4 * s),
+        ...Array.from({ length: 10 }, (_, i) => motion(at(s) + i * 100, { longitudinal: accel }))
+    ]).flat();
+
+describe('SmoothLaunchDetector', () => {
+    it('rewards reaching the target speed progressively', () => {
+        const events = run(engine(), launching(1.1));
+
+        // The launch starts once past the resume speed (8 km/h at 2 s) and ends at 40 km/h
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'SMOOTH_LAUNCH', timestamp: at(10), points: 2, severityLevel: 'MINOR' });
+    });
+
+    it('does not reward a hard launch', () => {
+        expect(run(engine(), launching(3.5))).toEqual([]);
+    });
+
+    it('does not reward one that reaches the target too quickly', () => {
+        expect(run(engine(), [fix(at(0), 0), fix(at(1), 20), fix(at(2), 45)])).toEqual([]);
+    });
+});
@@ -0,0 +1,68 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { REWARD_CONFIG } from '../config';
+
+// Rewards pulling away from a stop progressively: reaching TARGET_SPEED_KMH without the
+// vehicle-frame acceleration ever going past MAX_ACCEL.
+
+interface Launch {
+    startedAt: number;
+    peakAccel: number; // m/s²
+}
+
+export class SmoothLaunchDetector implements EventDetector {
+    public readonly id = 'smooth-launch';
+    private launch: Launch | null = null;
+    private wasStopped = true;
+    private awarded = 0;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        const config = REWARD_CONFIG.SMOOTH_LAUNCH;
+        if (state.setupMode === 'passenger' || this.awarded >= config.MAX_PER_TRIP) return null;
+
+        if (input.type === 'motion') {
+            if (this.launch) this.launch.peakAccel = Math.max(this.launch.peakAccel, state.motion.longitudinal);
+            return null;
+        }
+        if (input.type !== 'location') return null;
+
+        // A launch begins the moment the engine's stop hysteresis lets go
+        const leftStop = this.wasStopped && !state.isStopped;
+        this.wasStopped = state.isStopped;
+        if (state.isStopped) {
+            this.launch = null;
+            return null;
+        }
+        if (leftStop) this.launch = { startedAt: input.timestamp, peakAccel: 0 };
+
+        const launch = this.launch;
+        if (!launch) return null;
+        const duration = input.timestamp - launch.startedAt;
+        if (duration > config.MAX_DURATION_MS) {
+            this.launch = null;
+            return null;
+        }
+        if ((input.location.speed || 0) < config.TARGET_SPEED_KMH) return null;
+
+        this.launch = null;
+        if (duration < config.MIN_DURATION_MS || launch.peakAccel > config.MAX_ACCEL || state.lastPenaltyAt > launch.startedAt) return null;
+
+        this.awarded++;
+        return {
+            type: 'SMOOTH_LAUNCH',
+            timestamp: input.timestamp,
+            value: launch.peakAccel,
+            points: config.POINTS,
+            severityLevel: 'MINOR',
+            description: 'Smooth Launch',
+            lat: input.location.latitude,
+            lng: input.location.longitude
+        };
+    }
+
+    public reset() {
+        this.launch = null;
+        this.wasStopped = true;
+        this.awarded = 0;
+    }
+}
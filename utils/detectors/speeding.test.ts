@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine } from '../drivingEventEngine';
+import { SpeedingDetector } from './speeding';
+import { at, cruise, fix, road, run, schoolZone, typesOf } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SpeedingDetector()]);
+
+describe('SpeedingDetector', () => {
+    it('reports one event for a sustained stretch, when the driver drops back under the limit', () => {
+        const events = run(engine(), [road(at(0), 50), ...cruise(0, 5, 45), ...cruise(5, 15, 70), fix(at(15), 45)]);
+
+        expect(events).toHaveLength(1);
+        const [event] = events;
+        expect(event).toMatchObject({ type: 'SPEEDING', timestamp: at(15), severityLevel: 'MODERATE', points: -10, value: 70, roadSpeedLimit: 50 });
+        expect(event.episode).toMatchObject({ startTime: at(5), endTime: at(14), durationMs: 9000, peakOverSpeed: 20, meanOverSpeed: 20 });
+        expect(event.episode?.trace).toHaveLength(10);
+    });
+
+    it('lets a brief burst over the limit go', () => {
+        const events = run(engine(), [road(at(0), 50), ...cruise(0, 3, 70), fix(at(3), 45)], { flush: true });
+        expect(events).toEqual([]);
+    });
+
+    it('stays quiet within the regional tolerance', () => {
+        expect(run(engine(), [road(at(0), 50), ...cruise(0, 30, 54)], { flush: true })).toEqual([]);
+    });
+
+    it('raises severity a level for an episode longer than a minute', () => {
+        const events = run(engine(), [road(at(0), 50), ...cruise(0, 91, 62), fix(at(91), 45)]);
+
+        expect(events).toHaveLength(1);
+        // MODERATE peak (12 over) raised to SEVERE: -15 base, -12 km/h × 1.5 min
+        expect(events[0]).toMatchObject({ severityLevel: 'SEVERE', points: -33 });
+    });
+
+    it('closes the episode when the posted limit goes up', () => {
+        const events = run(engine(), [road(at(0), 50), ...cruise(0, 6, 70), road(at(6), 80), fix(at(6), 70)]);
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'SPEEDING', timestamp: at(6) });
+    });
+
+    it('hands over to the school zone rule while one is in force', () => {
+        const events = run(engine(), [road(at(0), 60), ...cruise(0, 6, 80), schoolZone(at(6), 60), ...cruise(6, 20, 80)], { flush: true });
+
+        expect(typesOf(events)).toEqual(['SPEEDING']);
+        expect(events[0]).toMatchObject({ timestamp: at(6), episode: { endTime: at(5) } });
+    });
+
+    it('reports an episode still open when the trip ends on flush', () => {
+        const events = run(engine(), [road(at(0), 50), ...cruise(0, 10, 65)], { flush: true });
+        expect(events).toHaveLength(1);
+        expect(events[0].episode).toMatchObject({ durationMs: 9000, peakOverSpeed: 15 });
+    });
+
+    it('never penalises passengers or speeds it cannot trust', () => {
+        const passenger = engine();
+        passenger.setSetupMode('passenger');
+        expect(run(passenger, [road(at(0), 50), ...cruise(0, 10, 80)], { flush: true })).toEqual([]);
+
+        const vague = Array.from({ length: 10 }, (_, s) => fix(at(s), 80, { accuracy: 60 }));
+        expect(run(engine(), [road(at(0), 50), ...vague], { flush: true })).toEqual([]);
+    });
+});
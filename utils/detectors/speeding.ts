@@ -0,0 +1,31 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { OverSpeedEpisodeTracker, ClosedEpisode, buildSpeedingEvent, scoreEpisode } from './overSpeed';
+
+// Sustained speeding against the posted limit, one event per episode when it ends. Active school
+// zones belong to SchoolZoneDetector, so entering one closes the episode here.
+export class SpeedingDetector implements EventDetector {
+    public readonly id = 'speeding';
+    private tracker = new OverSpeedEpisodeTracker();
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'location' && input.type !== 'road') return null;
+        const closed = state.road.isSchoolZoneActive
+            ? this.tracker.close()
+            : this.tracker.update(input.type === 'location', state, state.road.limitReason);
+        return closed ? this.toEvent(closed, state) : null;
+    }
+
+    public flush(state: Readonly<DrivingState>): DrivingEvent | null {
+        const closed = this.tracker.close();
+        return closed ? this.toEvent(closed, state) : null;
+    }
+
+    public reset() {
+        this.tracker.reset();
+    }
+
+    private toEvent(closed: ClosedEpisode, state: Readonly<DrivingState>): DrivingEvent {
+        return buildSpeedingEvent('SPEEDING', state, closed, scoreEpisode(closed.episode));
+    }
+}
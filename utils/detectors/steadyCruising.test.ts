@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine } from '../drivingEventEngine';
+import { SteadyCruisingDetector } from './steadyCruising';
+import { at, cruise, fix, road, run } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SteadyCruisingDetector()]);
+
+describe('SteadyCruisingDetector', () => {
+    it('rewards each two-minute window held just under the limit', () => {
+        const events = run(engine(), [road(at(0), 60), ...cruise(0, 250, 55)]);
+
+        expect(events.map(e => e.timestamp)).toEqual([at(120), at(240)]);
+        expect(events[0]).toMatchObject({ type: 'STEADY_CRUISING', points: 5, severityLevel: 'MINOR', value: 55, roadSpeedLimit: 60 });
+    });
+
+    it('does not reward a speed that wanders', () => {
+        const wandering = Array.from({ length: 150 }, (_, s) => fix(at(s), s % 20 < 10 ? 49 : 59));
+        expect(run(engine(), [road(at(0), 60), ...wandering])).toEqual([]);
+    });
+
+    it('does not reward dawdling well under the limit', () => {
+        expect(run(engine(), [road(at(0), 60), ...cruise(0, 150, 40)])).toEqual([]);
+    });
+});
@@ -0,0 +1,69 @@
+import type { DrivingEvent } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { isSpeedReliable } from '../drivingEventEngine';
+import { REWARD_CONFIG } from '../config';
+import { weatherAdjustedLimit } from './weatherSpeed';
+
+// Rewards holding a steady speed just under the (weather-adjusted) limit for a whole window.
+// Any penalty, a change of limit, or the speed wandering too far restarts the window.
+
+interface CruiseWindow {
+    startedAt: number;
+    limit: number;
+    minSpeed: number;
+    maxSpeed: number;
+}
+
+export class SteadyCruisingDetector implements EventDetector {
+    public readonly id = 'steady-cruising';
+    private window: CruiseWindow | null = null;
+    private awarded = 0;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'location') return null;
+        const config = REWARD_CONFIG.STEADY_CRUISING;
+        const { location, timestamp } = state;
+        if (state.setupMode === 'passenger' || this.awarded >= config.MAX_PER_TRIP) return null;
+
+        const limit = weatherAdjustedLimit(state.speedLimit, state.weather) ?? state.speedLimit;
+        const speed = location?.speed || 0;
+        const inBand = !!limit && !!location && isSpeedReliable(location) && speed <= limit && speed >= limit - config.BELOW_LIMIT_KMH;
+        if (!inBand) {
+            this.window = null;
+            return null;
+        }
+
+        const current = this.window;
+        if (!current || current.limit !== limit || state.lastPenaltyAt > current.startedAt) {
+            this.window = { startedAt: timestamp, limit: limit!, minSpeed: speed, maxSpeed: speed };
+            return null;
+        }
+
+        current.minSpeed = Math.min(current.minSpeed, speed);
+        current.maxSpeed = Math.max(current.maxSpeed, speed);
+        if (current.maxSpeed - current.minSpeed > config.MAX_SPEED_SPREAD_KMH) {
+            this.window = { startedAt: timestamp, limit: limit!, minSpeed: speed, maxSpeed: speed };
+            return null;
+        }
+        if (timestamp - current.startedAt < config.WINDOW_MS) return null;
+
+        this.window = { startedAt: timestamp, limit: limit!, minSpeed: speed, maxSpeed: speed };
+        this.awarded++;
+        return {
+            type: 'STEADY_CRUISING',
+            timestamp,
+            value: (current.minSpeed + current.maxSpeed) / 2,
+            points: config.POINTS,
+            severityLevel: 'MINOR',
+            description: `Steady cruising at ${Math.round(limit)} km/h`,
+            lat: location!.latitude,
+            lng: location!.longitude,
+            roadSpeedLimit: limit!
+        };
+    }
+
+    public reset() {
+        this.window = null;
+        this.awarded = 0;
+    }
+}
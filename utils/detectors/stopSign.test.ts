@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { TrafficControl } from '../../types';
+import { DrivingEventEngine, SensorInput } from '../drivingEventEngine';
+import { StopSignDetector } from './stopSign';
+import { at, fix, offset, road, run } from './__fixtures__/drive';
+
+const detector = () => new StopSignDetector();
+
+const SIGN = offset(0, 100);
+const control = (kind: TrafficControl['kind']): TrafficControl => ({ id: 1, kind, lat: SIGN.latitude, lng: SIGN.longitude });
+
+// Heading east through a control 100 m along, one fix a second: [metres east, km/h]
+const passing = (kind: TrafficControl['kind'], profile: [number, number][]): SensorInput[] => [
+    road(at(0), 50, { controls: [control(kind)] }),
+    ...profile.map(([eastM, speed], s) => fix(at(s), speed, offset(0, eastM)))
+];
+
+const FULL_STOP: [number, number][] = [[0, 40], [30, 30], [60, 20], [80, 10], [95, 0], [95, 0], [95, 0], [100, 10], [115, 20], [140, 30]];
+const ROLLING: [number, number][] = [[0, 40], [30, 30], [60, 20], [80, 12], [95, 10], [105, 12], [120, 20], [140, 30]];
+const STRAIGHT_THROUGH: [number, number][] = [[0, 40], [40, 40], [80, 40], [100, 40], [120, 40], [140, 40]];
+
+describe('StopSignDetector', () => {
+    it('rewards a full stop at a stop sign', () => {
+        const events = run(new DrivingEventEngine([detector()]), passing('stop', FULL_STOP));
+
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ type: 'CLEAN_STOP', points: 3, value: 0 });
+    });
+
+    it('penalises rolling through, and running it harder', () => {
+        const rolling = run(new DrivingEventEngine([detector()]), passing('stop', ROLLING));
+        expect(rolling).toHaveLength(1);
+        expect(rolling[0]).toMatchObject({ type: 'ROLLING_STOP', points: -8, severityLevel: 'MODERATE', value: 10 });
+
+        const ran = run(new DrivingEventEngine([detector()]), passing('stop', STRAIGHT_THROUGH));
+        expect(ran[0]).toMatchObject({ type: 'ROLLING_STOP', points: -15, severityLevel: 'SEVERE' });
+    });
+
+    it('only logs give-way signs and signals', () => {
+        const giveWay = detector();
+        expect(run(new DrivingEventEngine([giveWay]), passing('give_way', STRAIGHT_THROUGH))).toEqual([]);
+        expect(giveWay.getPassages()).toMatchObject([{ controlId: 1, kind: 'give_way', approachSpeed: 40, minSpeed: 40 }]);
+    });
+});
@@ -0,0 +1,117 @@
+import type { DrivingEvent, IntersectionPassage, TrafficControl } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { isSpeedReliable } from '../drivingEventEngine';
+import { REWARD_CONFIG, VIOLATION_CONFIG } from '../config';
+import { calculateDistance } from '../helpers';
+
+// Stop-sign compliance from the speed profile through each sign's approach: a standstill is a
+// clean stop, slowing without stopping a rolling stop, and barely slowing running it. Give-way
+// signs and signals are only logged (getPassages), since without seeing cross traffic or the
+// light there is nothing fair to score. Controls arrive with the road context and are followed
+// until the car is past them or has turned away.
+
+interface Approach {
+    control: TrafficControl;
+    closest: number; // Metres
+    approachSpeed: number | null; // km/h on entering APPROACH_M
+    minSpeed: number | null; // km/h, reliable fixes only
+    stoppedMs: number;
+    lastFixAt: number | null;
+    lastSpeed: number;
+}
+
+export class StopSignDetector implements EventDetector {
+    public readonly id = 'stop-sign';
+    private approaches = new Map<number, Approach>();
+    private passages: IntersectionPassage[] = [];
+    private cleanStops = 0;
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type === 'road') {
+            for (const control of input.road.controls ?? []) {
+                if (!this.approaches.has(control.id)) {
+                    this.approaches.set(control.id, { control, closest: Infinity, approachSpeed: null, minSpeed: null, stoppedMs: 0, lastFixAt: null, lastSpeed: 0 });
+                }
+            }
+            return null;
+        }
+        if (input.type !== 'location' || input.location.isEstimated || state.setupMode === 'passenger') return null;
+
+        const { STOP_SIGN } = VIOLATION_CONFIG;
+        const { location, timestamp } = input;
+        const speed = location.speed || 0;
+        const isReliable = isSpeedReliable(location);
+        let event: DrivingEvent | null = null;
+
+        for (const [id, approach] of this.approaches) {
+            const distance = calculateDistance(location, { latitude: approach.control.lat, longitude: approach.control.lng });
+
+            if (distance <= STOP_SIGN.APPROACH_M) {
+                if (approach.lastFixAt !== null && approach.lastSpeed <= STOP_SIGN.FULL_STOP_KMH) {
+                    approach.stoppedMs += timestamp - approach.lastFixAt;
+                }
+                approach.lastFixAt = timestamp;
+                approach.lastSpeed = speed;
+                if (isReliable) {
+                    approach.approachSpeed ??= speed;
+                    approach.minSpeed = Math.min(approach.minSpeed ?? speed, speed);
+                }
+            }
+            approach.closest = Math.min(approach.closest, distance);
+
+            const isPast = approach.closest <= STOP_SIGN.PASS_RADIUS_M && distance > STOP_SIGN.PASS_RADIUS_M && distance > approach.closest + STOP_SIGN.LEAVE_M;
+            if (isPast) {
+                this.approaches.delete(id);
+                event = this.judge(approach, timestamp) ?? event;
+            } else if (approach.closest > STOP_SIGN.PASS_RADIUS_M && distance > STOP_SIGN.DROP_M) {
+                this.approaches.delete(id);
+            }
+        }
+        return event;
+    }
+
+    // Every controlled intersection passed this trip, in order
+    public getPassages(): IntersectionPassage[] {
+        return this.passages;
+    }
+
+    public reset() {
+        this.approaches.clear();
+        this.passages = [];
+        this.cleanStops = 0;
+    }
+
+    private judge(approach: Approach, timestamp: number): DrivingEvent | null {
+        const { STOP_SIGN } = VIOLATION_CONFIG;
+        const { control, minSpeed, approachSpeed, stoppedMs } = approach;
+        // No trustworthy speed anywhere in the approach: nothing to say about it
+        if (minSpeed === null || approachSpeed === null) return null;
+
+        const passage: IntersectionPassage = {
+            controlId: control.id,
+            kind: control.kind,
+            timestamp,
+            lat: control.lat,
+            lng: control.lng,
+            approachSpeed: Math.round(approachSpeed),
+            minSpeed: Math.round(minSpeed),
+            stoppedMs
+        };
+        this.passages.push(passage);
+        if (control.kind !== 'stop') return null;
+
+        const base = { timestamp, lat: control.lat, lng: control.lng, speed: minSpeed, value: minSpeed };
+        if (minSpeed <= STOP_SIGN.FULL_STOP_KMH) {
+            passage.outcome = 'stopped';
+            if (this.cleanStops >= REWARD_CONFIG.CLEAN_STOP.MAX_PER_TRIP) return null;
+            this.cleanStops++;
+            return { ...base, type: 'CLEAN_STOP', points: REWARD_CONFIG.CLEAN_STOP.POINTS, description: 'Full stop at stop sign' };
+        }
+        if (minSpeed <= STOP_SIGN.ROLLING_MAX_KMH) {
+            passage.outcome = 'rolling';
+            return { ...base, type: 'ROLLING_STOP', points: STOP_SIGN.POINTS.ROLLING, severityLevel: 'MODERATE', description: `Rolling stop: ${Math.round(minSpeed)} km/h at stop sign` };
+        }
+        passage.outcome = 'ran';
+        return { ...base, type: 'ROLLING_STOP', points: STOP_SIGN.POINTS.RAN, severityLevel: 'SEVERE', description: `Didn't stop at stop sign: ${Math.round(minSpeed)} km/h` };
+    }
+}
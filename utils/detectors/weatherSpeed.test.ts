@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { DrivingEventEngine } from '../drivingEventEngine';
+import { SpeedingDetector } from './speeding';
+import { WeatherSpeedDetector } from './weatherSpeed';
+import { at, cruise, fix, road, run, typesOf, weather } from './__fixtures__/drive';
+
+const engine = () => new DrivingEventEngine([new SpeedingDetector(), new WeatherSpeedDetector()]);
+// Rain takes a 100 zone down to 90
+const RAINY_100 = [road(at(0), 100), weather(at(0), 'rain')];
+
+describe('WeatherSpeedDetector', () => {
+    it('reports one event for a stretch over the safe speed', () => {
+        const events = run(engine(), [...RAINY_100, ...cruise(0, 10, 98), fix(at(10), 85)]);
+
+        expect(events).toHaveLength(1);
+        // MINOR -3 and -8 km/h × 0.15 min
+        expect(events[0]).toMatchObject({
+            type: 'WEATHER_UNSAFE_SPEED', timestamp: at(10), severityLevel: 'MINOR', points: -4, roadSpeedLimit: 90,
+            description: 'Too fast for rain: up to 98 in 90 for 9s', speedLimitReason: 'Rain cuts the 100 limit to 90'
+        });
+        expect(events[0].episode).toMatchObject({ durationMs: 9000, peakOverSpeed: 8 });
+    });
+
+    it('charges a long stretch once, not every few seconds', () => {
+        const events = run(engine(), [...RAINY_100, ...cruise(0, 61, 98)], { flush: true });
+        expect(typesOf(events)).toEqual(['WEATHER_UNSAFE_SPEED']);
+        expect(events[0].episode?.durationMs).toBe(60000);
+    });
+
+    it('ends the stretch when the weather clears', () => {
+        const events = run(engine(), [...RAINY_100, ...cruise(0, 6, 98), weather(at(6), 'clear'), ...cruise(6, 20, 98)], { flush: true });
+        expect(typesOf(events)).toEqual(['WEATHER_UNSAFE_SPEED']);
+        expect(events[0]).toMatchObject({ timestamp: at(6), description: 'Too fast for rain: up to 98 in 90 for 5s' });
+    });
+
+    it('hands over to speeding above the posted limit', () => {
+        const events = run(engine(), [...RAINY_100, ...cruise(0, 5, 98), ...cruise(5, 10, 110), fix(at(10), 85)]);
+        expect(typesOf(events)).toEqual(['WEATHER_UNSAFE_SPEED', 'SPEEDING']);
+        expect(events[0].timestamp).toBe(at(5));
+    });
+
+    it('stays quiet in good weather or within tolerance', () => {
+        expect(run(engine(), [road(at(0), 100), ...cruise(0, 10, 98)], { flush: true })).toEqual([]);
+        expect(run(engine(), [...RAINY_100, ...cruise(0, 10, 94)], { flush: true })).toEqual([]);
+    });
+});
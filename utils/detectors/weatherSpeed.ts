@@ -0,0 +1,65 @@
+import type { DrivingEvent, WeatherCondition } from '../../types';
+import type { EventDetector, SensorInput, DrivingState } from '../drivingEventEngine';
+import { isSpeedReliable } from '../drivingEventEngine';
+import { VIOLATION_CONFIG } from '../config';
+import { OverSpeedEpisodeTracker, ClosedEpisode, EpisodeScale, buildSpeedingEvent, scoreEpisode } from './overSpeed';
+
+// Legal but too fast for the conditions. Only covers the band between the weather-adjusted
+// limit and the posted one; above the posted limit SpeedingDetector already has it.
+
+// Null when the weather doesn't change anything
+export const weatherAdjustedLimit = (speedLimit: number | null, weather: WeatherCondition): number | null => {
+    const rule = VIOLATION_CONFIG.WEATHER.RULES[weather];
+    if (!speedLimit || !rule) return null;
+    const adjusted = Math.min(Math.round(speedLimit * rule.factor), rule.maxSpeed);
+    return adjusted < speedLimit ? adjusted : null;
+};
+
+// Graded on the weather's own, milder scale
+const WEATHER_SCALE: EpisodeScale = {
+    classify: overSpeed => {
+        const { SEVERE_THRESHOLD, MODERATE_THRESHOLD } = VIOLATION_CONFIG.WEATHER;
+        if (overSpeed > SEVERE_THRESHOLD) return 'SEVERE';
+        if (overSpeed > MODERATE_THRESHOLD) return 'MODERATE';
+        return 'MINOR';
+    },
+    points: VIOLATION_CONFIG.WEATHER.POINTS
+};
+
+// One event per stretch over the safe speed, like SpeedingDetector. Going over the posted limit,
+// the weather clearing or the limit changing all end the stretch.
+export class WeatherSpeedDetector implements EventDetector {
+    public readonly id = 'weather-speed';
+    private tracker = new OverSpeedEpisodeTracker();
+    private weather: WeatherCondition = 'unknown'; // Of the open episode, for its description
+
+    public detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null {
+        if (input.type !== 'location' && input.type !== 'road' && input.type !== 'weather') return null;
+        const { location, weather, speedLimit } = state;
+        const safeLimit = weatherAdjustedLimit(speedLimit, weather);
+
+        const isOver = state.setupMode !== 'passenger' && safeLimit !== null && !!location && isSpeedReliable(location) &&
+            state.overSpeedSince === null && (location.speed || 0) > safeLimit + state.region.speedToleranceKmh;
+        const limitReason = isOver ? `${weather.charAt(0).toUpperCase()}${weather.slice(1)} cuts the ${speedLimit} limit to ${safeLimit}` : undefined;
+        const closed = this.tracker.updateAgainst(isOver ? safeLimit : null, input.type === 'location', state, limitReason);
+        const event = closed ? this.toEvent(closed, state) : null;
+        if (isOver) this.weather = weather;
+        return event;
+    }
+
+    public flush(state: Readonly<DrivingState>): DrivingEvent | null {
+        const closed = this.tracker.close();
+        return closed ? this.toEvent(closed, state) : null;
+    }
+
+    public reset() {
+        this.tracker.reset();
+        this.weather = 'unknown';
+    }
+
+    private toEvent(closed: ClosedEpisode, state: Readonly<DrivingState>): DrivingEvent {
+        const event = buildSpeedingEvent('WEATHER_UNSAFE_SPEED', state, closed, scoreEpisode(closed.episode, WEATHER_SCALE));
+        const { speedLimit, durationMs } = closed.episode;
+        return { ...event, description: `Too fast for ${this.weather}: up to ${Math.round(event.value!)} in ${Math.round(speedLimit)} for ${Math.round(durationMs / 1000)}s` };
+    }
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { DrivingEvent } from '../types';
+import { DrivingEventEngine, EventDetector, SensorInput } from './drivingEventEngine';
+import { createDefaultDetectors } from './detectors';
+import { at, cruise, fix, motion, road, run, schoolZone, touch, typesOf } from './detectors/__fixtures__/drive';
+
+// Raises `event` for every input of `on`
+const stub = (id: string, on: SensorInput['type'], event: Omit<DrivingEvent, 'timestamp'>): EventDetector => ({
+    id,
+    detect: input => (input.type === on ? { ...event, timestamp: input.timestamp } : null)
+});
+
+const PENALTY = { type: 'PHONE_TOUCH', points: -1, description: 'stub penalty' } as const;
+const REWARD = { type: 'SAFE_DISTANCE', points: 1, description: 'stub reward' } as const;
+
+describe('DrivingEventEngine', () => {
+    describe('shared state', () => {
+        it('starts stopped and only leaves it above the resume speed', () => {
+            const engine = new DrivingEventEngine();
+            engine.process(fix(at(0), 4));
+            expect(engine.getState().isStopped).toBe(true);
+            engine.process(fix(at(1), 6));
+            expect(engine.getState().isStopped).toBe(false);
+        });
+
+        it('counts as stopped after holding still for the safe-stop duration', () => {
+            const engine = new DrivingEventEngine();
+            run(engine, [fix(at(0), 50), fix(at(1), 0), fix(at(5), 0)]);
+            expect(engine.getState().isStopped).toBe(false);
+            engine.process(fix(at(5.5), 0));
+            expect(engine.getState().isStopped).toBe(true);
+        });
+
+        it('tracks when the driver went over limit plus tolerance', () => {
+            const engine = new DrivingEventEngine();
+            run(engine, [road(at(0), 50), fix(at(1), 54)]);
+            expect(engine.getState().overSpeedSince).toBeNull();
+            run(engine, [fix(at(2), 55), fix(at(3), 60)]);
+            expect(engine.getState().overSpeedSince).toBe(at(2));
+            engine.process(fix(at(4), 50));
+            expect(engine.getState().overSpeedSince).toBeNull();
+        });
+
+        it('enforces the regional school limit while a zone is in force', () => {
+            const engine = new DrivingEventEngine();
+            engine.process(schoolZone(at(0), 60));
+            expect(engine.getState().speedLimit).toBe(40);
+            engine.process(schoolZone(at(1), 60, false));
+            expect(engine.getState().speedLimit).toBe(60);
+        });
+
+        it('smooths motion over the recent samples', () => {
+            const engine = new DrivingEventEngine();
+            run(engine, [motion(at(0), { longitudinal: -2 }), motion(at(0.1), { longitudinal: -4 })]);
+            expect(engine.getState().motion.longitudinal).toBe(-3);
+        });
+    });
+
+    describe('detectors', () => {
+        it('runs every detector in registration order and records the last penalty', () => {
+            const engine = new DrivingEventEngine([stub('a', 'interaction', PENALTY), stub('b', 'interaction', REWARD)]);
+            const events = engine.process(touch(at(1)));
+
+            expect(events.map(e => e.description)).toEqual(['stub penalty', 'stub reward']);
+            expect(engine.getState().lastPenaltyAt).toBe(at(1));
+        });
+
+        it('does not count rewards as penalties', () => {
+            const engine = new DrivingEventEngine([stub('b', 'interaction', REWARD)]);
+            engine.process(touch(at(1)));
+            expect(engine.getState().lastPenaltyAt).toBe(0);
+        });
+
+        it('replaces a detector registered under the same id', () => {
+            const engine = new DrivingEventEngine([stub('a', 'interaction', PENALTY)]);
+            engine.register(stub('a', 'interaction', REWARD));
+            expect(engine.process(touch(at(1))).map(e => e.description)).toEqual(['stub reward']);
+
+            engine.unregister('a');
+            expect(engine.process(touch(at(2)))).toEqual([]);
+        });
+
+        it('drops anything held back on reset, so flush comes first', () => {
+            const inputs = [road(at(0), 50), ...cruise(0, 10, 70)];
+
+            const flushed = new DrivingEventEngine(createDefaultDetectors());
+            run(flushed, inputs);
+            expect(typesOf(flushed.flush())).toEqual(['SPEEDING']);
+
+            const reset = new DrivingEventEngine(createDefaultDetectors());
+            run(reset, inputs);
+            reset.reset();
+            expect(reset.flush()).toEqual([]);
+            expect(reset.getState()).toMatchObject({ isStopped: true, overSpeedSince: null, speedLimit: null, lastPenaltyAt: 0 });
+        });
+    });
+
+    describe('with the default rules', () => {
+        it('turns a short drive into the expected events', () => {
+            const inputs = [
+                road(at(0), 60),
+                ...cruise(0, 20, 50),
+                touch(at(20)),
+                ...cruise(20, 30, 75),
+                ...cruise(30, 40, 50),
+                motion(at(40), { longitudinal: -12 })
+            ];
+            const events = run(new DrivingEventEngine(createDefaultDetectors()), inputs, { flush: true });
+
+            expect(typesOf(events)).toEqual(['SAFE_DISTANCE', 'PHONE_TOUCH', 'SPEEDING', 'HARSH_BRAKING']);
+            expect(events.map(e => e.timestamp)).toEqual([at(0), at(20), at(30), at(40)]);
+        });
+
+        it('gives the same events for the same inputs', () => {
+            const inputs = [road(at(0), 50), ...cruise(0, 90, 48), ...cruise(90, 100, 70), fix(at(100), 45), touch(at(101))];
+            const first = run(new DrivingEventEngine(createDefaultDetectors()), inputs, { flush: true });
+            const second = run(new DrivingEventEngine(createDefaultDetectors()), inputs, { flush: true });
+            expect(second).toEqual(first);
+        });
+    });
+});
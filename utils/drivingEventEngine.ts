@@ -0,0 +1,219 @@
+import type { GeolocationData, DrivingEvent, LatLng, SetupMode, TrafficControl, WeatherCondition } from '../types';
+import type { VehicleMotion } from './vehicleFrame';
+import { RegionProfile, DEFAULT_REGION } from './regions';
+import { MovingAverage } from './smoothing';
+import { NAV_CONFIG, VIOLATION_CONFIG } from './config';
+
+// --- Driving Event Engine ---
+// Framework-free core of driving analytics. Callers push timestamped inputs (fixes, vehicle-frame
+// motion, phone interactions, road, weather and route context) and get back the DrivingEvents they
+// caused. The engine keeps the state several rules share (stopped / over the limit / last
+// penalty); everything that decides whether an event fires lives in an EventDetector. No clocks,
+// timers or DOM are touched, so the same input sequence always yields the same events.
+
+export interface RoadContext {
+    speedLimit: number | null; // Posted limit, km/h
+    isSchoolZone: boolean;
+    isSchoolZoneActive: boolean; // Inside a school zone during its enforced hours
+    limitReason?: string; // Why speedLimit applies (see utils/maxspeed.ts)
+    controls?: TrafficControl[]; // Stop signs and signals coming up on this road
+}
+
+export type PhoneInteraction = 'touch' | 'background';
+
+export type SensorInput =
+    | { type: 'location'; timestamp: number; location: GeolocationData }
+    | { type: 'motion'; timestamp: number; motion: VehicleMotion }
+    | { type: 'interaction'; timestamp: number; interaction: PhoneInteraction }
+    | { type: 'road'; timestamp: number; road: RoadContext }
+    | { type: 'weather'; timestamp: number; weather: WeatherCondition }
+    | { type: 'route'; timestamp: number; route: LatLng[] | null };
+
+export interface DrivingState {
+    timestamp: number;
+    setupMode: SetupMode | null;
+    isSignalLost: boolean;
+    location: GeolocationData | null;
+    motion: VehicleMotion; // Smoothed over the last ~10 samples
+    road: RoadContext;
+    weather: WeatherCondition;
+    route: LatLng[] | null; // Planned route being navigated, if any
+    region: RegionProfile; // School-zone limit and speeding tolerance
+    speedLimit: number | null; // Enforced limit (school zone limit while it applies)
+    isStopped: boolean; // Zero-speed safe mode: stopped long enough that touching the phone is fine
+    overSpeedSince: number | null; // Continuously over limit + tolerance, on a trustworthy speed
+    lastPenaltyAt: number;
+}
+
+export interface EventDetector {
+    readonly id: string;
+    detect(input: SensorInput, state: Readonly<DrivingState>): DrivingEvent | null;
+    flush?(state: Readonly<DrivingState>): DrivingEvent | null; // Trip over: report anything still being held back
+    reset?(): void;
+}
+
+const NO_ROAD: RoadContext = { speedLimit: null, isSchoolZone: false, isSchoolZoneActive: false };
+const NO_MOTION: VehicleMotion = { longitudinal: 0, lateral: 0, vertical: 0, yawRate: 0 };
+
+export const isSpeedReliable = (location: GeolocationData) =>
+    location.accuracy < NAV_CONFIG.GPS_ACCURACY_THRESHOLD_M &&
+    (location.speedConfidence ?? 1) >= NAV_CONFIG.MIN_SPEED_CONFIDENCE &&
+    !location.isEstimated;
+
+export class DrivingEventEngine {
+    private detectors: EventDetector[] = [];
+    private state: DrivingState;
+    private stopCandidateSince: number | null = null;
+    private longitudinal = new MovingAverage(10);
+    private lateral = new MovingAverage(10);
+    private vertical = new MovingAverage(10);
+    private yawRate = new MovingAverage(10);
+
+    constructor(detectors: EventDetector[] = []) {
+        detectors.forEach(d => this.register(d));
+        this.state = this.initialState(null, DEFAULT_REGION);
+    }
+
+    public register(detector: EventDetector) {
+        this.detectors = [...this.detectors.filter(d => d.id !== detector.id), detector];
+    }
+
+    public unregister(id: string) {
+        this.detectors = this.detectors.filter(d => d.id !== id);
+    }
+
+    public getDetector<T extends EventDetector>(id: string): T | undefined {
+        return this.detectors.find(d => d.id === id) as T | undefined;
+    }
+
+    public setSetupMode(setupMode: SetupMode | null) {
+        this.state = { ...this.state, setupMode };
+    }
+
+    public setSignalLost(isSignalLost: boolean) {
+        this.state = { ...this.state, isSignalLost };
+    }
+
+    public setRegion(region: RegionProfile) {
+        this.state = { ...this.state, region };
+    }
+
+    public getState(): Readonly<DrivingState> {
+        return this.state;
+    }
+
+    // Feeds one input through shared state, then every detector in registration order
+    public process(input: SensorInput): DrivingEvent[] {
+        this.updateState(input);
+
+        const events: DrivingEvent[] = [];
+        for (const detector of this.detectors) {
+            const event = detector.detect(input, this.state);
+            if (!event) continue;
+            events.push(event);
+            if (event.points < 0) this.state = { ...this.state, lastPenaltyAt: event.timestamp };
+        }
+        return events;
+    }
+
+    // Events detectors were holding until something finished (an open speeding episode, say).
+    // Call before reset() when a trip ends, or they are lost.
+    public flush(): DrivingEvent[] {
+        return this.detectors
+            .map(detector => detector.flush?.(this.state) ?? null)
+            .filter((event): event is DrivingEvent => event !== null);
+    }
+
+    public reset(setupMode: SetupMode | null = this.state.setupMode) {
+        this.state = this.initialState(setupMode, this.state.region);
+        this.stopCandidateSince = null;
+        this.longitudinal.reset();
+        this.lateral.reset();
+        this.vertical.reset();
+        this.yawRate.reset();
+        this.detectors.forEach(d => d.reset?.());
+    }
+
+    private initialState(setupMode: SetupMode | null, region: RegionProfile): DrivingState {
+        return {
+            timestamp: 0,
+            setupMode,
+            isSignalLost: false,
+            location: null,
+            motion: NO_MOTION,
+            road: NO_ROAD,
+            weather: 'unknown',
+            route: null,
+            region,
+            speedLimit: null,
+            isStopped: true,
+            overSpeedSince: null,
+            lastPenaltyAt: 0
+        };
+    }
+
+    private updateState(input: SensorInput) {
+        const next: DrivingState = { ...this.state, timestamp: input.timestamp };
+
+        switch (input.type) {
+            case 'location':
+                next.location = input.location;
+                next.isStopped = this.updateStopped(input.location, input.timestamp);
+                next.overSpeedSince = this.updateOverSpeed(next, input.timestamp);
+                break;
+            case 'motion':
+                next.motion = {
+                    longitudinal: this.longitudinal.add(input.motion.longitudinal),
+                    lateral: this.lateral.add(input.motion.lateral),
+                    vertical: this.vertical.add(input.motion.vertical),
+                    yawRate: this.yawRate.add(input.motion.yawRate)
+                };
+                break;
+            case 'road':
+                next.road = input.road;
+                next.speedLimit = input.road.isSchoolZoneActive ? next.region.schoolZone.speedLimit : input.road.speedLimit;
+                next.overSpeedSince = this.updateOverSpeed(next, input.timestamp);
+                break;
+            case 'weather':
+                next.weather = input.weather;
+                break;
+            case 'route':
+                next.route = input.route;
+                break;
+        }
+
+        this.state = next;
+    }
+
+    // Speed must stay below SAFE_STOP.SPEED_THRESHOLD for DURATION_MS to count as stopped, and
+    // only climbing past RESUME_SPEED_THRESHOLD leaves the stopped state.
+    private updateStopped(location: GeolocationData, timestamp: number): boolean {
+        const speed = location.speed || 0;
+        const { SPEED_THRESHOLD, RESUME_SPEED_THRESHOLD, DURATION_MS } = VIOLATION_CONFIG.SAFE_STOP;
+
+        if (this.state.isStopped) {
+            if (speed > RESUME_SPEED_THRESHOLD) {
+                this.stopCandidateSince = null;
+                return false;
+            }
+            return true;
+        }
+
+        if (speed >= SPEED_THRESHOLD) {
+            this.stopCandidateSince = null;
+            return false;
+        }
+        if (this.stopCandidateSince === null) this.stopCandidateSince = timestamp;
+        return timestamp - this.stopCandidateSince > DURATION_MS;
+    }
+
+    // Passengers are never speeding, and neither is anyone whose speed we can't trust
+    private updateOverSpeed(state: DrivingState, timestamp: number): number | null {
+        const { location, speedLimit, setupMode, region } = state;
+        if (setupMode === 'passenger' || !location || !speedLimit || !isSpeedReliable(location)) return null;
+
+        const isOver = (location.speed || 0) > speedLimit + region.speedToleranceKmh;
+        if (!isOver) return null;
+        return state.overSpeedSince ?? timestamp;
+    }
+}
@@ -0,0 +1,69 @@
+import type { EmergencyContact } from '../types';
+import { DEFAULT_REGION, detectRegion } from './regions';
+import { VIOLATION_CONFIG } from './config';
+
+// --- Emergency Escalation ---
+// Used once a suspected crash has gone unanswered. Everything goes through the phone's own
+// dialler and messaging apps (tel: / sms: links) so it works without our backend.
+
+// Always where the phone actually is, never the region chosen in settings: that's who answers
+export const getEmergencyNumber = (lat?: number, lng?: number): string => {
+    if (lat === undefined || lng === undefined) return DEFAULT_REGION.emergencyNumber;
+    return detectRegion(lat, lng).emergencyNumber;
+};
+
+export const buildLocationLink = (lat: number, lng: number) =>
+    `https://www.google.com/maps/search/?api=1&query=${lat.toFixed(6)},${lng.toFixed(6)}`;
+
+export const buildEmergencyMessage = (userName: string, lat?: number, lng?: number) => {
+    const where = lat !== undefined && lng !== undefined ? ` Location: ${buildLocationLink(lat, lng)}` : '';
+    return `SafeDrive: ${userName} may have been in a crash and did not respond.${where}`;
+};
+
+export const callEmergencyNumber = (number: string) => {
+    window.location.href = `tel:${number}`;
+};
+
+const dialablePhones = (contacts: EmergencyContact[]) => contacts.map(c => c.phone.replace(/[^\d+]/g, '')).filter(Boolean);
+
+// One message to every contact. Falls back to the share sheet when there is nobody to text.
+export const shareLocationWithContacts = async (contacts: EmergencyContact[], message: string) => {
+    const phones = dialablePhones(contacts);
+    if (phones.length > 0) {
+        // iOS separates the body with '&', everyone else with '?'
+        const separator = /iPad|iPhone|iPod/.test(navigator.userAgent) ? '&' : '?';
+        window.location.href = `sms:${phones.join(',')}${separator}body=${encodeURIComponent(message)}`;
+        return;
+    }
+    if (navigator.share) {
+        try {
+            await navigator.share({ title: 'SafeDrive Emergency', text: message });
+        } catch (e) {
+            console.error("Emergency share cancelled:", e);
+        }
+    }
+};
+
+// The countdown ran out: call first, since that's who can help, then text the contacts once the
+// driver is back from the dialler. Opening sms: straight away would cancel the tel: navigation.
+// The share sheet needs a tap, so with nobody to text that is left to the button on screen.
+export const escalateEmergency = (number: string, contacts: EmergencyContact[], message: string) => {
+    callEmergencyNumber(number);
+    if (dialablePhones(contacts).length === 0) return;
+
+    let leftForCall = false;
+    const textContacts = () => {
+        clearTimeout(fallback);
+        document.removeEventListener('visibilitychange', onVisibilityChange);
+        shareLocationWithContacts(contacts, message);
+    };
+    const onVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') leftForCall = true;
+        else textContacts();
+    };
+    // Where tel: doesn't leave the page (no dialler), there is no call to wait for
+    const fallback = setTimeout(() => {
+        if (!leftForCall) textContacts();
+    }, VIOLATION_CONFIG.CRASH.TEXT_CONTACTS_FALLBACK_MS);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+};
@@ -69,6 +69,68 @@ export const getSnapToRoute = (
     };
 };
 
+// Initial great-circle bearing from A to B (degrees from north, 0-360)
+export const calculateBearing = (a: LatLng, b: LatLng): number => {
+    const toRad = (v: number) => (v * Math.PI) / 180;
+    const φ1 = toRad(a.lat);
+    const φ2 = toRad(b.lat);
+    const Δλ = toRad(b.lng - a.lng);
+
+    const y = Math.sin(Δλ) * Math.cos(φ2);
+    const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+// Smallest absolute angle between two headings (0-180)
+export const headingDifference = (a: number, b: number): number => {
+    const diff = Math.abs(a - b) % 360;
+    return diff > 180 ? 360 - diff : diff;
+};
+
+// Destination point travelling `distance` metres from `origin` on a constant bearing
+export const projectPoint = (origin: LatLng, bearing: number, distance: number): LatLng => {
+    const R = 6371e3;
+    const toRad = (v: number) => (v * Math.PI) / 180;
+    const toDeg = (v: number) => (v * 180) / Math.PI;
+    const δ = distance / R;
+    const θ = toRad(bearing);
+    const φ1 = toRad(origin.lat);
+    const λ1 = toRad(origin.lng);
+
+    const φ2 = Math.asin(Math.sin(φ1) * Math.cos(δ) + Math.cos(φ1) * Math.sin(δ) * Math.cos(θ));
+    const λ2 = λ1 + Math.atan2(Math.sin(θ) * Math.sin(δ) * Math.cos(φ1), Math.cos(δ) - Math.sin(φ1) * Math.sin(φ2));
+    return { lat: toDeg(φ2), lng: ((toDeg(λ2) + 540) % 360) - 180 };
+};
+
+// Walks `distance` metres forward along the polyline, starting at `from` which lies on
+// segment [index, index + 1]. Stops at the final vertex if the route runs out.
+export const advanceAlongRoute = (
+    routeCoords: LatLng[],
+    from: LatLng,
+    index: number,
+    distance: number
+): { point: LatLng, index: number, bearing: number } => {
+    let current = from;
+    let i = Math.max(0, Math.min(index, routeCoords.length - 2));
+    let remaining = distance;
+
+    while (i < routeCoords.length - 1) {
+        const next = routeCoords[i + 1];
+        const segmentRemaining = calculateDistance(toLatLon(current), toLatLon(next));
+        const bearing = calculateBearing(routeCoords[i], next);
+
+        if (remaining <= segmentRemaining) {
+            return { point: projectPoint(current, calculateBearing(current, next), remaining), index: i, bearing };
+        }
+        remaining -= segmentRemaining;
+        current = next;
+        i++;
+    }
+
+    const last = routeCoords.length - 1;
+    return { point: routeCoords[last], index: Math.max(0, last - 1), bearing: calculateBearing(routeCoords[Math.max(0, last - 1)], routeCoords[last]) };
+};
+
 // --- DSA: Ramer-Douglas-Peucker (RDP) Algorithm ---
 // Purpose: Compress route path to save 90% storage while preserving shape.
 const perpendicularDistance = (point: LatLng, lineStart: LatLng, lineEnd: LatLng): number => {
@@ -184,4 +246,57 @@ export const encodeGeohash = (lat: number, lng: number, precision: number = 7):
     }
 
     return geohash;
-};
\ No newline at end of file
+};
+
+// Inverse of encodeGeohash: the cell's bounding box
+export const decodeGeohashBounds = (geohash: string): { south: number, west: number, north: number, east: number } => {
+    let evenBit = true;
+    let latMin = -90, latMax = 90;
+    let lonMin = -180, lonMax = 180;
+
+    for (const char of geohash) {
+        const idx = BASE32.indexOf(char);
+        for (let n = 4; n >= 0; n--) {
+            const bitN = (idx >> n) & 1;
+            if (evenBit) {
+                const lonMid = (lonMin + lonMax) / 2;
+                if (bitN === 1) lonMin = lonMid; else lonMax = lonMid;
+            } else {
+                const latMid = (latMin + latMax) / 2;
+                if (bitN === 1) latMin = latMid; else latMax = latMid;
+            }
+            evenBit = !evenBit;
+        }
+    }
+
+    return { south: latMin, west: lonMin, north: latMax, east: lonMax };
+};
+
+// The cell itself plus the eight around it, found by stepping one cell size in each direction
+export const geohashNeighbourhood = (geohash: string): string[] => {
+    const { south, west, north, east } = decodeGeohashBounds(geohash);
+    const lat = (south + north) / 2, lng = (west + east) / 2;
+    const dLat = north - south, dLng = east - west;
+    const cells = new Set<string>();
+    for (const i of [-1, 0, 1]) {
+        for (const j of [-1, 0, 1]) {
+            cells.add(encodeGeohash(lat + i * dLat, lng + j * dLng, geohash.length));
+        }
+    }
+    return [...cells];
+};
+
+// Every vertex plus interpolated points so no gap along the line exceeds `step` metres
+export const densifyPath = (points: LatLng[], step: number): LatLng[] => {
+    if (points.length < 2) return points;
+    const result: LatLng[] = [points[0]];
+    for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1], b = points[i];
+        const pieces = Math.ceil(calculateDistance(toLatLon(a), toLatLon(b)) / step);
+        for (let k = 1; k < pieces; k++) {
+            result.push({ lat: a.lat + (b.lat - a.lat) * (k / pieces), lng: a.lng + (b.lng - a.lng) * (k / pieces) });
+        }
+        result.push(b);
+    }
+    return result;
+};
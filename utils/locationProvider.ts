@@ -0,0 +1,133 @@
+import type { PositionSample, MotionSample, OrientationSample } from '../types';
+import { capacitorLocationProvider } from './capacitorLocationProvider';
+
+// --- Location Providers ---
+// useGeolocation never talks to platform APIs directly. It asks the registry below for the
+// active LocationProvider and consumes raw samples from it, so the browser, native (Capacitor),
+// simulated and replayed sources are interchangeable and tests can inject a fake.
+
+export type LocationProviderId = 'browser' | 'capacitor' | 'simulated' | 'route' | 'replay' | 'fake';
+
+export type LocationErrorCode = 'PERMISSION_DENIED' | 'POSITION_UNAVAILABLE' | 'TIMEOUT' | 'UNSUPPORTED';
+
+export interface SensorSampleHandlers {
+    onPosition: (sample: PositionSample) => void;
+    onMotion: (sample: MotionSample) => void;
+    onOrientation: (sample: OrientationSample) => void;
+}
+
+export interface LocationProviderHandlers extends SensorSampleHandlers {
+    onError: (code: LocationErrorCode) => void;
+}
+
+export interface LocationProvider {
+    readonly id: LocationProviderId;
+    isAvailable(): boolean;
+    // Begin streaming samples. Providers report failures through `onError`, never by throwing.
+    start(handlers: LocationProviderHandlers): void;
+    stop(): void;
+    // One-shot fix for the idle map. Rejects with a LocationErrorCode.
+    getCurrentPosition?(): Promise<PositionSample>;
+}
+
+const toErrorCode = (err: GeolocationPositionError): LocationErrorCode => {
+    if (err.code === err.PERMISSION_DENIED) return 'PERMISSION_DENIED';
+    if (err.code === err.TIMEOUT) return 'TIMEOUT';
+    return 'POSITION_UNAVAILABLE';
+};
+
+const toPositionSample = (position: GeolocationPosition): PositionSample => {
+    const { latitude, longitude, speed, accuracy, heading } = position.coords;
+    return { timestamp: position.timestamp, latitude, longitude, speed, accuracy, heading };
+};
+
+export class BrowserLocationProvider implements LocationProvider {
+    public readonly id = 'browser';
+    private watchId: number | null = null;
+    private handlers: LocationProviderHandlers | null = null;
+
+    public isAvailable(): boolean {
+        return typeof navigator !== 'undefined' && !!navigator.geolocation;
+    }
+
+    public start(handlers: LocationProviderHandlers) {
+        this.stop();
+        this.handlers = handlers;
+
+        this.watchId = navigator.geolocation.watchPosition(
+            position => handlers.onPosition(toPositionSample(position)),
+            err => handlers.onError(toErrorCode(err)),
+            { enableHighAccuracy: true, timeout: 5000, maximumAge: 0 }
+        );
+        window.addEventListener('devicemotion', this.handleDeviceMotion);
+        window.addEventListener('deviceorientation', this.handleDeviceOrientation);
+    }
+
+    public stop() {
+        if (this.watchId !== null) {
+            navigator.geolocation.clearWatch(this.watchId);
+            this.watchId = null;
+        }
+        window.removeEventListener('devicemotion', this.handleDeviceMotion);
+        window.removeEventListener('deviceorientation', this.handleDeviceOrientation);
+        this.handlers = null;
+    }
+
+    public getCurrentPosition(): Promise<PositionSample> {
+        return new Promise((resolve, reject) => {
+            navigator.geolocation.getCurrentPosition(
+                position => resolve(toPositionSample(position)),
+                err => reject(toErrorCode(err)),
+                { enableHighAccuracy: true, timeout: 10000, maximumAge: 0 }
+            );
+        });
+    }
+
+    // Arrow properties keep a stable identity for add/removeEventListener
+    private handleDeviceMotion = (event: DeviceMotionEvent) => {
+        this.handlers?.onMotion({
+            timestamp: Date.now(),
+            acceleration: { x: event.acceleration?.x ?? null, y: event.acceleration?.y ?? null, z: event.acceleration?.z ?? null },
+            rotationRate: { alpha: event.rotationRate?.alpha ?? null, beta: event.rotationRate?.beta ?? null, gamma: event.rotationRate?.gamma ?? null },
+            accelerationIncludingGravity: {
+                x: event.accelerationIncludingGravity?.x ?? null,
+                y: event.accelerationIncludingGravity?.y ?? null,
+                z: event.accelerationIncludingGravity?.z ?? null
+            }
+        });
+    };
+
+    // iOS Safari reports true-north heading on a non-standard field
+    private handleDeviceOrientation = (event: DeviceOrientationEvent & { webkitCompassHeading?: number }) => {
+        this.handlers?.onOrientation({
+            timestamp: Date.now(),
+            alpha: event.alpha,
+            beta: event.beta,
+            gamma: event.gamma,
+            absolute: event.absolute,
+            compassHeading: event.webkitCompassHeading ?? null
+        });
+    };
+}
+
+export const browserLocationProvider = new BrowserLocationProvider();
+
+// --- Provider Registry ---
+// Resolution order: explicit override (tests, replays, dev simulator) > native > browser.
+let overrideProvider: LocationProvider | null = null;
+
+export const locationProviders = {
+    resolve(): LocationProvider {
+        if (overrideProvider) return overrideProvider;
+        if (capacitorLocationProvider.isAvailable()) return capacitorLocationProvider;
+        return browserLocationProvider;
+    },
+
+    setOverride(provider: LocationProvider | null) {
+        overrideProvider = provider;
+    },
+
+    getOverride(): LocationProvider | null {
+        return overrideProvider;
+    }
+};
@@ -0,0 +1,292 @@
+import type { WeatherCondition } from '../types';
+import type { RegionProfile } from './regions';
+import { headingDifference } from './geometry';
+
+// --- OSM maxspeed Parser ---
+// Turns a way's maxspeed tags into the limit in force right now for a driver travelling in a
+// given direction: units, implicit country codes ("AU:urban"), none/walk, :forward/:backward,
+// :lanes and :conditional with opening-hours style times. Everything comes back in km/h
+// together with a human-readable reason, so the HUD and disputes can say why a limit applied.
+
+export type MaxspeedSource = 'conditional' | 'posted' | 'implicit' | 'unlimited' | 'default' | 'unknown';
+
+export interface EffectiveMaxspeed {
+    limit: number | null; // km/h; null when there is none (unlimited) or it can't be known
+    reason: string;
+    source: MaxspeedSource;
+}
+
+export interface MaxspeedContext {
+    at: number; // Timestamp conditions are evaluated at (local time)
+    heading?: number | null; // Driver's heading, degrees from north
+    wayBearing?: number | null; // Bearing of the way's own direction near the driver
+    weather?: WeatherCondition;
+    region?: RegionProfile; // Supplies defaults for ways with no usable tag
+}
+
+type ParsedValue =
+    | { kind: 'limit', kmh: number, label: string }
+    | { kind: 'unlimited', label: string }
+    | { kind: 'unknown', label: string };
+
+const KMH_PER_UNIT: Record<string, number> = {
+    'km/h': 1,
+    'kmh': 1,
+    'kph': 1,
+    'mph': 1.609344,
+    'knots': 1.852
+};
+
+const WALKING_PACE_KMH = 7;
+
+const mph = (speed: number) => speed * KMH_PER_UNIT.mph;
+
+// Implicit limits, "<country>:<zone>". A zone missing here still resolves if it carries its
+// number ("DE:zone30", "FR:zone:30").
+const IMPLICIT_LIMITS: Record<string, number | 'none' | 'walk'> = {
+    'AU:urban': 50, 'AU:rural': 100, 'AU:motorway': 110,
+    'NZ:urban': 50, 'NZ:rural': 100, 'NZ:motorway': 100,
+    'GB:nsl_single': mph(60), 'GB:nsl_dual': mph(70), 'GB:motorway': mph(70), 'GB:nsl_restricted': mph(30),
+    'UK:nsl_single': mph(60), 'UK:nsl_dual': mph(70), 'UK:motorway': mph(70), 'UK:nsl_restricted': mph(30),
+    'DE:urban': 50, 'DE:rural': 100, 'DE:motorway': 'none', 'DE:living_street': 'walk', 'DE:bicycle_road': 30,
+    'AT:urban': 50, 'AT:rural': 100, 'AT:motorway': 130,
+    'CH:urban': 50, 'CH:rural': 80, 'CH:motorway': 120,
+    'FR:urban': 50, 'FR:rural': 80, 'FR:motorway': 130,
+    'IT:urban': 50, 'IT:rural': 90, 'IT:motorway': 130,
+    'ES:urban': 50, 'ES:rural': 90, 'ES:motorway': 120,
+    'NL:urban': 50, 'NL:rural': 80, 'NL:motorway': 100,
+    'BE:urban': 50, 'BE:rural': 90, 'BE:motorway': 120,
+    'DK:urban': 50, 'DK:rural': 80, 'DK:motorway': 130,
+    'SE:urban': 50, 'SE:rural': 70, 'SE:motorway': 110,
+    'NO:urban': 50, 'NO:rural': 80,
+    'IE:urban': 50, 'IE:rural': 80, 'IE:motorway': 120,
+    'CA:urban': 50, 'CA:rural': 80,
+    'RU:urban': 60, 'RU:rural': 90, 'RU:motorway': 110, 'RU:living_street': 20
+};
+
+const round = (kmh: number) => Math.round(kmh * 10) / 10;
+
+export const parseMaxspeedValue = (raw: string): ParsedValue => {
+    const value = raw.trim();
+    const lower = value.toLowerCase();
+
+    if (lower === 'none') return { kind: 'unlimited', label: 'no limit' };
+    if (lower === 'walk') return { kind: 'limit', kmh: WALKING_PACE_KMH, label: 'walking pace' };
+    if (lower === 'signals' || lower === 'variable') return { kind: 'unknown', label: 'variable limit' };
+
+    const numeric = value.match(/^(\d+(?:\.\d+)?)\s*(km\/h|kmh|kph|mph|knots)?$/i);
+    if (numeric) {
+        const unit = (numeric[2] || 'km/h').toLowerCase();
+        const amount = parseFloat(numeric[1]);
+        return { kind: 'limit', kmh: round(amount * KMH_PER_UNIT[unit]), label: unit === 'km/h' ? `${amount} km/h` : `${amount} ${unit}` };
+    }
+
+    const implicit = value.match(/^([A-Z]{2}):(.+)$/i);
+    if (implicit) {
+        const code = `${implicit[1].toUpperCase()}:${implicit[2]}`;
+        const known = IMPLICIT_LIMITS[code];
+        if (known === 'none') return { kind: 'unlimited', label: code };
+        if (known === 'walk') return { kind: 'limit', kmh: WALKING_PACE_KMH, label: code };
+        if (known !== undefined) return { kind: 'limit', kmh: round(known), label: code };
+
+        const zone = implicit[2].match(/^zone:?(\d+)$/i);
+        if (zone) {
+            const unit = ['GB', 'UK', 'US'].includes(implicit[1].toUpperCase()) ? 'mph' : 'km/h';
+            return { kind: 'limit', kmh: round(parseInt(zone[1], 10) * KMH_PER_UNIT[unit]), label: code };
+        }
+        return { kind: 'unknown', label: code };
+    }
+
+    return { kind: 'unknown', label: value };
+};
+
+// --- Conditions ---
+
+const DAY_NAMES = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
+
+const toMinutes = (hhmm: string) => {
+    const [h, m] = hhmm.split(':').map(n => parseInt(n, 10));
+    return h * 60 + m;
+};
+
+// "Mo-Fr", "Sa,Su", "Mo,We-Fr"; null when it isn't a day selector at all
+const parseDays = (selector: string): Set<number> | null => {
+    const days = new Set<number>();
+    for (const part of selector.split(',')) {
+        const [from, to] = part.split('-').map(d => DAY_NAMES.indexOf(d));
+        if (from < 0 || (to !== undefined && to < 0)) return null;
+        for (let d = from; ; d = (d + 1) % 7) {
+            days.add(d);
+            if (to === undefined || d === to) break;
+        }
+    }
+    return days;
+};
+
+// "08:00-09:30,14:30-16:00"; ranges may wrap past midnight
+const parseTimes = (selector: string): [number, number][] | null => {
+    const ranges: [number, number][] = [];
+    for (const part of selector.split(',')) {
+        const match = part.match(/^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})$/);
+        if (!match) return null;
+        ranges.push([toMinutes(match[1]), toMinutes(match[2])]);
+    }
+    return ranges;
+};
+
+// One opening-hours rule: "[days] [times]". Holiday exceptions ("PH off", "SH off") can't be
+// known offline and are assumed not to apply. Returns null when the rule isn't understood.
+const evaluateTimeRule = (rule: string, date: Date): boolean | null => {
+    const tokens = rule.trim().split(/\s+/).filter(Boolean);
+    if (tokens.length === 0) return null;
+    if (/^(PH|SH)$/.test(tokens[0]) && tokens[1] === 'off') return false;
+
+    let days: Set<number> | null = null;
+    let times: [number, number][] | null = null;
+    for (const token of tokens) {
+        const asDays = parseDays(token);
+        const asTimes = asDays ? null : parseTimes(token);
+        if (asDays && !days) days = asDays;
+        else if (asTimes && !times) times = asTimes;
+        else return null;
+    }
+
+    const minutes = date.getHours() * 60 + date.getMinutes();
+    const dayMatches = !days || days.has(date.getDay());
+    const timeMatches = !times || times.some(([from, to]) => from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to);
+    return dayMatches && timeMatches;
+};
+
+const WEATHER_CONDITIONS: Record<string, WeatherCondition[]> = {
+    'wet': ['rain', 'snow'],
+    'snow': ['snow']
+};
+
+// Whether a condition holds; null when we can't evaluate it (vehicle weight, "winter", ...)
+export const evaluateCondition = (condition: string, at: number, weather?: WeatherCondition): boolean | null => {
+    const inner = condition.trim().replace(/^\((.*)\)$/, '$1').trim();
+    const lower = inner.toLowerCase();
+    if (WEATHER_CONDITIONS[lower]) return weather ? WEATHER_CONDITIONS[lower].includes(weather) : null;
+
+    const date = new Date(at);
+    let matched = false;
+    for (const rule of inner.split(';')) {
+        const result = evaluateTimeRule(rule, date);
+        if (result === null) return null;
+        if (/\boff$/.test(rule.trim())) continue;
+        matched = matched || result;
+    }
+    return matched;
+};
+
+// "40 @ (Mo-Fr 08:00-09:30); 30 @ wet" -> pairs, splitting on ';' outside parentheses
+export const parseConditional = (raw: string): { value: string, condition: string }[] => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of raw) {
+        if (ch === '(') depth++;
+        if (ch === ')') depth--;
+        if (ch === ';' && depth === 0) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    parts.push(current);
+
+    return parts
+        .map(part => part.split('@'))
+        .filter(pieces => pieces.length === 2)
+        .map(([value, condition]) => ({ value: value.trim(), condition: condition.trim() }));
+};
+
+// --- Resolution ---
+
+type Direction = 'forward' | 'backward';
+
+const travelDirection = (context: MaxspeedContext): Direction | null => {
+    if (context.heading == null || context.wayBearing == null) return null;
+    return headingDifference(context.heading, context.wayBearing) <= 90 ? 'forward' : 'backward';
+};
+
+// Lane lists ("100|100|80"): we can't tell which lane the driver is in, so the most permissive
+// lane is used rather than risk penalising a legal speed
+const fromLanes = (raw: string): ParsedValue => {
+    const limits = raw.split('|').map(parseMaxspeedValue).filter(v => v.kind === 'limit') as { kind: 'limit', kmh: number, label: string }[];
+    if (limits.length === 0) return { kind: 'unknown', label: raw };
+    const best = limits.reduce((a, b) => (b.kmh > a.kmh ? b : a));
+    return { kind: 'limit', kmh: best.kmh, label: `${best.label} (fastest lane)` };
+};
+
+const describePosted = (raw: string, parsed: ParsedValue, directionLabel: string): EffectiveMaxspeed | null => {
+    const implicit = /^[A-Z]{2}:/i.test(raw);
+    if (parsed.kind === 'limit') {
+        return implicit
+            ? { limit: parsed.kmh, source: 'implicit', reason: `Implicit ${parsed.label} limit` }
+            : { limit: parsed.kmh, source: 'posted', reason: `Posted ${parsed.label}${directionLabel}` };
+    }
+    if (parsed.kind === 'unlimited') return { limit: null, source: 'unlimited', reason: `No limit (${parsed.label})` };
+    if (parsed.label === 'variable limit') return { limit: null, source: 'unknown', reason: 'Variable limit signs' };
+    return null; // Unreadable: let the fallbacks have a go
+};
+
+export const resolveMaxspeed = (tags: Record<string, string | undefined>, context: MaxspeedContext): EffectiveMaxspeed => {
+    const direction = travelDirection(context);
+    const directionLabel = direction ? ` (${direction})` : '';
+    // Most specific key first; direction-specific keys are only usable once we know the direction
+    const keys = (suffix: string) => direction ? [`maxspeed:${direction}${suffix}`, `maxspeed${suffix}`] : [`maxspeed${suffix}`];
+
+    // 1. A conditional limit that holds right now
+    for (const key of keys(':conditional')) {
+        const raw = tags[key];
+        if (!raw) continue;
+        for (const { value, condition } of parseConditional(raw)) {
+            if (evaluateCondition(condition, context.at, context.weather) !== true) continue;
+            const parsed = parseMaxspeedValue(value);
+            if (parsed.kind === 'limit') return { limit: parsed.kmh, source: 'conditional', reason: `${parsed.label} while ${condition.replace(/^\((.*)\)$/, '$1')}${directionLabel}` };
+        }
+    }
+
+    // 2. The posted limit, per lane or for the whole carriageway
+    for (const key of keys(':lanes')) {
+        const raw = tags[key];
+        if (!raw) continue;
+        const parsed = fromLanes(raw);
+        if (parsed.kind === 'limit') return { limit: parsed.kmh, source: 'posted', reason: `Posted ${parsed.label}${directionLabel}` };
+    }
+    for (const key of keys('')) {
+        const raw = tags[key];
+        if (!raw) continue;
+        const result = describePosted(raw, parseMaxspeedValue(raw), directionLabel);
+        if (result) return result;
+    }
+
+    // Direction-only tags but no heading to pick one: the faster of the two
+    if (!direction) {
+        const limits = [tags['maxspeed:forward'], tags['maxspeed:backward']]
+            .filter((raw): raw is string => !!raw)
+            .map(parseMaxspeedValue)
+            .filter(v => v.kind === 'limit') as { kind: 'limit', kmh: number, label: string }[];
+        if (limits.length > 0) {
+            const best = limits.reduce((a, b) => (b.kmh > a.kmh ? b : a));
+            return { limit: best.kmh, source: 'posted', reason: `Posted ${best.label} (direction unknown)` };
+        }
+    }
+
+    // 3. An implicit zone recorded beside the tag instead of in it
+    const zone = tags['maxspeed:type'] || tags['source:maxspeed'] || tags['zone:traffic'];
+    if (zone) {
+        const parsed = parseMaxspeedValue(zone);
+        if (parsed.kind === 'limit') return { limit: parsed.kmh, source: 'implicit', reason: `Implicit ${parsed.label} limit` };
+        if (parsed.kind === 'unlimited') return { limit: null, source: 'unlimited', reason: `No limit (${parsed.label})` };
+    }
+
+    // 4. The region's default for this class of road
+    const highway = tags.highway;
+    const fallback = highway && context.region?.highwaySpeeds[highway];
+    if (fallback) return { limit: fallback, source: 'default', reason: `Default for ${highway.replace(/_/g, ' ')} roads in ${context.region!.name}` };
+
+    return { limit: null, source: 'unknown', reason: 'No speed limit data' };
+};
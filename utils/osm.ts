@@ -1,10 +1,25 @@
-
+import type { LatLng, TrafficControl, TrafficControlKind, WeatherCondition } from '../types';
+import { RegionProfile, detectRegion } from './regions';
+import { resolveMaxspeed } from './maxspeed';
+import { getClosestPointOnSegment, calculateBearing, headingDifference, decodeGeohashBounds, geohashNeighbourhood, densifyPath } from './geometry';
+import { calculateDistance } from './helpers';
+import { ROAD_CACHE_CONFIG } from './config';
+import { CachedWay, RoadTile, roadCache, isTileFresh, tileHash, assembleTiles } from './roadCache';
 
 // Utility to fetch real-world road data using Overpass API
 
+interface OverpassGeometryPoint {
+    lat: number;
+    lon: number;
+}
+
 interface OverpassElement {
     type: string;
     id: number;
+    lat?: number; // Nodes
+    lon?: number;
+    center?: OverpassGeometryPoint; // Ways and relations, with `out center`
+    geometry?: OverpassGeometryPoint[]; // Ways, with `out geom`
     tags?: {
         maxspeed?: string;
         highway?: string;
@@ -20,92 +35,346 @@ const OVERPASS_API_ENDPOINTS = [
     "https://z.overpass-api.de/api/interpreter"
 ];
 
-// Heuristics for speed limits in Australia/General (in km/h) if maxspeed tag is missing
-const HIGHWAY_SPEEDS: Record<string, number> = {
-    'motorway': 110,
-    'motorway_link': 80,
-    'trunk': 100,
-    'primary': 80,
-    'secondary': 60,
-    'tertiary': 60,
-    'residential': 50,
-    'living_street': 20,
-    'service': 20,
-    'unclassified': 80
+export interface RoadData {
+    maxSpeed: number | null; // km/h, the limit in force now for our direction of travel
+    speedLimitReason: string; // Why that limit applies, e.g. "Posted 30 mph" or "40 km/h while Mo-Fr 08:00-09:30"
+    roadName: string | null;
+    isSchoolZone: boolean;
+    controls: TrafficControl[]; // Stop signs, give-way signs and signals ahead on this road, for our direction
+}
+
+export interface RoadQueryOptions {
+    region?: RegionProfile; // Defaults for untagged ways; detected from the coordinates if omitted
+    heading?: number | null; // Picks maxspeed:forward / :backward, and the road we're on at junctions
+    at?: number; // When to evaluate maxspeed:conditional (defaults to now)
+    weather?: WeatherCondition; // For "wet" / "snow" conditions
+}
+
+const toLatLon = (p: LatLng) => ({ latitude: p.lat, longitude: p.lng });
+
+const CONTROL_KINDS: TrafficControlKind[] = ['stop', 'give_way', 'traffic_signals'];
+
+// Null unless the tags make the node a stop sign, give-way sign or signal
+export const toTrafficControl = (id: number, tags: Record<string, string | undefined>, at: LatLng): TrafficControl | null => {
+    const kind = CONTROL_KINDS.find(k => k === tags.highway);
+    if (!kind) return null;
+    const control: TrafficControl = { id, kind, lat: at.lat, lng: at.lng };
+    if (tags.stop === 'all') control.allWay = true;
+    const direction = tags.direction ?? tags['traffic_signals:direction'];
+    if (direction) control.direction = direction;
+    return control;
 };
 
-export const fetchRoadData = async (lat: number, lng: number): Promise<{ maxSpeed: number | null, roadName: string | null, isSchoolZone: boolean }> => {
-    // Query for ways (roads) AND schools within range
-    // Schools: Scan 80m radius (amenity=school) on nodes and ways
-    // Roads: Scan 20m radius
+// --- ROAD TILES ---
+// Roads are fetched a geohash cell at a time, in batches, and cached (see roadCache). A lookup
+// only needs the cells around the car; matching the nearest way happens on the device.
+
+const inflight = new Map<string, Promise<RoadTile[] | null>>();
+const failedAt = new Map<string, number>(); // Cells whose last fetch failed, so each fix doesn't retry
+
+const fetchTileBatch = async (hashes: string[]): Promise<RoadTile[] | null> => {
+    const boxes = hashes.map(hash => {
+        const { south, west, north, east } = decodeGeohashBounds(hash);
+        return `${south},${west},${north},${east}`;
+    });
     const query = `
-        [out:json][timeout:5];
-        (
-          way(around:20, ${lat}, ${lng})["highway"];
-          node(around:80, ${lat}, ${lng})["amenity"="school"];
-          way(around:80, ${lat}, ${lng})["amenity"="school"];
-        );
-        out tags;
+        [out:json][timeout:25];
+        (${boxes.map(box => `way["highway"~"^(${ROAD_CACHE_CONFIG.DRIVABLE_HIGHWAYS})$"](${box});`).join('')});
+        out tags geom;
+        (${boxes.map(box => `nwr["amenity"="school"](${box});`).join('')});
+        out tags center;
+        (${boxes.map(box => `node["highway"~"^(${CONTROL_KINDS.join('|')})$"](${box});`).join('')});
+        out body;
     `;
 
     for (const url of OVERPASS_API_ENDPOINTS) {
         try {
             const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 3000); // 3s timeout
+            const timeoutId = setTimeout(() => controller.abort(), ROAD_CACHE_CONFIG.QUERY_TIMEOUT_MS);
 
             const response = await fetch(url, {
                 method: 'POST',
                 body: `data=${encodeURIComponent(query)}`,
                 signal: controller.signal
             });
-            
+
             clearTimeout(timeoutId);
 
             if (!response.ok) continue;
 
             const data = await response.json();
-            
-            let maxSpeed = null;
-            let roadName = null;
-            let isSchoolZone = false;
-
-            if (data.elements && data.elements.length > 0) {
-                
-                // 1. Check for School Zone presence
-                const schoolElement = data.elements.find((el: OverpassElement) => el.tags?.amenity === 'school');
-                if (schoolElement) {
-                    isSchoolZone = true;
+            const elements: OverpassElement[] = data.elements || [];
+            const ways: CachedWay[] = [];
+            const schools: LatLng[] = [];
+            const controls: TrafficControl[] = [];
+            for (const el of elements) {
+                const control = el.type === 'node' && el.tags && el.lat !== undefined && el.lon !== undefined
+                    ? toTrafficControl(el.id, el.tags, { lat: el.lat, lng: el.lon })
+                    : null;
+                if (control) {
+                    controls.push(control);
+                } else if (el.tags?.amenity === 'school') {
+                    const at = el.center ?? (el.lat !== undefined && el.lon !== undefined ? { lat: el.lat, lon: el.lon } : null);
+                    if (at) schools.push({ lat: at.lat, lng: at.lon });
+                } else if (el.tags?.highway && el.geometry && el.geometry.length > 1) {
+                    ways.push({ id: el.id, tags: el.tags as Record<string, string>, geometry: el.geometry.map(g => ({ lat: g.lat, lng: g.lon })) });
                 }
+            }
 
-                // 2. Find Best Road
-                let bestRoad = data.elements.find((el: OverpassElement) => el.tags?.maxspeed);
-                // If no maxspeed, prioritize highways over schools in the list for speed limit logic
-                if (!bestRoad) {
-                    bestRoad = data.elements.find((el: OverpassElement) => el.tags?.highway);
-                }
+            const result = assembleTiles(ways, schools, controls, { fetchedAt: Date.now(), source: 'overpass' }, hashes);
+            await roadCache.putTiles(result);
+            return result;
+        } catch (error) {
+            console.warn(`Road lookup failed on ${url}, trying the next endpoint`, error);
+        }
+    }
+    return null;
+};
 
-                if (bestRoad && bestRoad.tags) {
-                    // Parse maxspeed tag
-                    if (bestRoad.tags.maxspeed) {
-                        const parsed = parseInt(bestRoad.tags.maxspeed, 10);
-                        if (!isNaN(parsed)) maxSpeed = parsed;
-                    } 
-                    
-                    // Fallback to heuristics
-                    if (!maxSpeed && bestRoad.tags.highway && HIGHWAY_SPEEDS[bestRoad.tags.highway]) {
-                        maxSpeed = HIGHWAY_SPEEDS[bestRoad.tags.highway];
-                    }
-
-                    roadName = bestRoad.tags.name || null;
-                }
-            }
-            
-            return { maxSpeed, roadName, isSchoolZone };
+// Fetches the given cells in as few Overpass requests as the batch limit allows. Cells already
+// being fetched are waited on rather than requested twice.
+export const fetchRoadTiles = async (hashes: string[]): Promise<RoadTile[]> => {
+    const waiting: Promise<RoadTile[] | null>[] = [];
+    const needed = [...new Set(hashes)].filter(hash => {
+        const pending = inflight.get(hash);
+        if (pending) waiting.push(pending);
+        return !pending;
+    });
+
+    for (let i = 0; i < needed.length; i += ROAD_CACHE_CONFIG.MAX_TILES_PER_QUERY) {
+        const chunk = needed.slice(i, i + ROAD_CACHE_CONFIG.MAX_TILES_PER_QUERY);
+        const request = fetchTileBatch(chunk).then(tiles => {
+            const now = Date.now();
+            chunk.forEach(hash => {
+                inflight.delete(hash);
+                if (tiles) failedAt.delete(hash);
+                else failedAt.set(hash, now);
+            });
+            return tiles;
+        });
+        chunk.forEach(hash => inflight.set(hash, request));
+        waiting.push(request);
+    }
+
+    const batches = await Promise.all(waiting);
+    const wanted = new Set(hashes);
+    return batches.flatMap(batch => batch ?? []).filter(tile => wanted.has(tile.geohash));
+};
+
+// Warms the cache for every cell a planned route passes through (plus its neighbours, so
+// lookups near a cell edge can still see the road on the other side). Returns cells fetched.
+export const prefetchRouteCorridor = async (route: LatLng[]): Promise<number> => {
+    const cells = new Set<string>();
+    for (const point of densifyPath(route, ROAD_CACHE_CONFIG.CORRIDOR_STEP_M)) {
+        geohashNeighbourhood(tileHash(point.lat, point.lng)).forEach(hash => cells.add(hash));
+    }
+
+    const cached = await roadCache.getTiles([...cells]);
+    const stale = [...cells].filter(hash => !cached.has(hash) || !isTileFresh(cached.get(hash)!));
+    if (stale.length === 0) return 0;
+    return (await fetchRoadTiles(stale)).length;
+};
+
+interface WayMatch {
+    way: CachedWay;
+    distance: number; // Metres from the point to the way
+    bearing: number; // The way's own digitised direction at that spot
+}
+
+// Nearest segment of the way to the point
+const nearestOnWay = (way: CachedWay, point: LatLng): { distance: number, bearing: number } | null => {
+    let best: { distance: number, bearing: number } | null = null;
+    for (let i = 0; i < way.geometry.length - 1; i++) {
+        const a = way.geometry[i], b = way.geometry[i + 1];
+        const closest = getClosestPointOnSegment(point, a, b);
+        const distance = calculateDistance(toLatLon(point), toLatLon(closest));
+        if (!best || distance < best.distance) best = { distance, bearing: calculateBearing(a, b) };
+    }
+    return best;
+};
+
+// The way we're most likely driving on: nearest within the match radius, with ways running
+// across our heading pushed back so the cross street at a junction doesn't win. Direction of
+// digitisation doesn't matter here, so headings are compared modulo 180.
+export const matchRoad = (ways: CachedWay[], point: LatLng, heading: number | null = null): WayMatch | null => {
+    let best: (WayMatch & { cost: number }) | null = null;
+    const seen = new Set<number>();
+    for (const way of ways) {
+        if (seen.has(way.id)) continue;
+        seen.add(way.id);
+
+        const nearest = nearestOnWay(way, point);
+        if (!nearest || nearest.distance > ROAD_CACHE_CONFIG.MATCH_RADIUS_M) continue;
+
+        let cost = nearest.distance;
+        if (heading !== null) {
+            const diff = headingDifference(heading, nearest.bearing);
+            cost += (Math.min(diff, 180 - diff) / 90) * ROAD_CACHE_CONFIG.HEADING_MISMATCH_PENALTY_M;
+        }
+        if (!best || cost < best.cost) best = { way, distance: nearest.distance, bearing: nearest.bearing, cost };
+    }
+    return best && { way: best.way, distance: best.distance, bearing: best.bearing };
+};
+
+const nearSchool = (tiles: RoadTile[], point: LatLng) => tiles.some(tile => tile.schools.some(school =>
+    calculateDistance(toLatLon(point), toLatLon(school)) <= ROAD_CACHE_CONFIG.SCHOOL_RADIUS_M
+));
+
+// Most important first; links rank with their road
+const HIGHWAY_RANK = ['motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'unclassified', 'residential', 'living_street', 'service', 'road'];
+
+const rankOf = (way: CachedWay) => {
+    const rank = HIGHWAY_RANK.indexOf(way.tags.highway?.replace(/_link$/, ''));
+    return rank < 0 ? HIGHWAY_RANK.length : rank;
+};
+
+const isOnWay = (way: CachedWay, point: LatLng) => way.geometry.some(vertex =>
+    calculateDistance(toLatLon(vertex), toLatLon(point)) <= ROAD_CACHE_CONFIG.CONTROL_ON_WAY_M
+);
+
+// Controls ahead of us on the matched way that apply in our direction. A stop or give-way sign
+// mapped on the junction node itself also sits on the crossing road; it belongs to the lesser
+// road of the two, so traffic on the major one never sees it.
+const controlsOnRoad = (tiles: RoadTile[], match: WayMatch, point: LatLng, heading: number | null): TrafficControl[] => {
+    const ways = tiles.flatMap(tile => tile.ways);
+    const ourRank = rankOf(match.way);
+    const isWithWay = heading !== null && headingDifference(heading, match.bearing) < 90;
+    const seen = new Set<number>();
+
+    return tiles.flatMap(tile => tile.controls ?? []).filter(control => {
+        if (seen.has(control.id)) return false;
+        seen.add(control.id);
+
+        if (calculateDistance(toLatLon(point), toLatLon(control)) > ROAD_CACHE_CONFIG.CONTROL_LOOKAHEAD_M) return false;
+        if (heading !== null && headingDifference(heading, calculateBearing(point, control)) > 90) return false;
+        if (!isOnWay(match.way, control)) return false;
+        if (heading !== null && control.direction === 'forward' && !isWithWay) return false;
+        if (heading !== null && control.direction === 'backward' && isWithWay) return false;
+        if (control.kind === 'traffic_signals' || control.allWay) return true;
+        return !ways.some(other => other.id !== match.way.id && rankOf(other) > ourRank && isOnWay(other, control));
+    });
+};
+
+// Null when no way is close enough to call it the road we're on
+const resolveFromTiles = (tiles: RoadTile[], lat: number, lng: number, options: RoadQueryOptions): RoadData | null => {
+    const point = { lat, lng };
+    const match = matchRoad(tiles.flatMap(tile => tile.ways), point, options.heading ?? null);
+    if (!match) return null;
+
+    const effective = resolveMaxspeed(match.way.tags, {
+        at: options.at ?? Date.now(),
+        heading: options.heading,
+        wayBearing: match.bearing,
+        weather: options.weather,
+        region: options.region ?? detectRegion(lat, lng)
+    });
+    return {
+        maxSpeed: effective.limit,
+        speedLimitReason: effective.reason,
+        roadName: match.way.tags.name || null,
+        isSchoolZone: nearSchool(tiles, point),
+        controls: controlsOnRoad(tiles, match, point, options.heading ?? null)
+    };
+};
+
+const noRoad = (tiles: RoadTile[], lat: number, lng: number): RoadData =>
+    ({ maxSpeed: null, speedLimitReason: 'No road found', roadName: null, isSchoolZone: nearSchool(tiles, { lat, lng }), controls: [] });
+
+// Answers from memory alone, or null when the cells around the point aren't loaded (or are due
+// a refresh). Imported extracts are consulted before Overpass tiles. Cheap enough to call on
+// every GPS fix.
+export const lookupCachedRoad = (lat: number, lng: number, options: RoadQueryOptions = {}): RoadData | null => {
+    const cells = geohashNeighbourhood(tileHash(lat, lng));
+    const imported = cells.map(hash => roadCache.peekImported(hash));
+    if (imported.some(tiles => !tiles)) return null;
+    const local = resolveFromTiles(imported.flat() as RoadTile[], lat, lng, options);
+    if (local) return local;
+
+    const now = Date.now();
+    const tiles = cells.map(hash => roadCache.peek(hash));
+    if (tiles.some(tile => !tile || !isTileFresh(tile, now))) return null;
+    return resolveFromTiles(tiles as RoadTile[], lat, lng, options) ?? noRoad(tiles as RoadTile[], lat, lng);
+};
+
+// Local data first: an imported extract that knows the road answers without the network. Then
+// cached Overpass cells, fetching missing or expired ones (this is the free-drive path, where no
+// corridor was prefetched). An expired tile still answers if the refresh fails.
+export const fetchRoadData = async (lat: number, lng: number, options: RoadQueryOptions = {}): Promise<RoadData> => {
+    const cells = geohashNeighbourhood(tileHash(lat, lng));
+    const local = resolveFromTiles(await roadCache.getImportedTiles(cells), lat, lng, options);
+    if (local) return local;
+
+    const tiles = await roadCache.getTiles(cells);
+    const now = Date.now();
+    const stale = cells.filter(hash => {
+        const tile = tiles.get(hash);
+        if (tile && isTileFresh(tile, now)) return false;
+        const failed = failedAt.get(hash);
+        return failed === undefined || now - failed > ROAD_CACHE_CONFIG.RETRY_AFTER_MS;
+    });
+    if (stale.length > 0) {
+        (await fetchRoadTiles(stale)).forEach(tile => tiles.set(tile.geohash, tile));
+    }
+
+    if (!tiles.has(tileHash(lat, lng))) {
+        return { maxSpeed: null, speedLimitReason: 'Road data unavailable', roadName: null, isSchoolZone: false, controls: [] };
+    }
+    const cached = [...tiles.values()];
+    return resolveFromTiles(cached, lat, lng, options) ?? noRoad(cached, lat, lng);
+};
+
+// Share of sampled trip points lying on railway track / on a road used by a bus route
+export interface TransitProximity {
+    railFraction: number;
+    busRouteFraction: number;
+    sampled: number;
+}
+
+// Evenly spaced points from the path, always including both ends
+const samplePath = (path: LatLng[], count: number): LatLng[] => {
+    if (path.length <= count) return path;
+    const step = (path.length - 1) / (count - 1);
+    return Array.from({ length: count }, (_, i) => path[Math.round(i * step)]);
+};
+
+export const fetchTransitProximity = async (path: LatLng[], samples: number, radius: number): Promise<TransitProximity | null> => {
+    const points = samplePath(path, samples);
+    if (points.length === 0) return null;
+
+    // One statistics element per point, so a single request answers every sample
+    const perPoint = points.map((p, i) => `
+        way(around:${radius}, ${p.lat}, ${p.lng})["railway"~"^(rail|light_rail|subway|tram|narrow_gauge)$"]->.rail${i};
+        way(around:${radius}, ${p.lat}, ${p.lng})["highway"]->.road${i};
+        rel(bw.road${i})["route"~"^(bus|trolleybus)$"]->.bus${i};
+        make sample index=${i}, rail=rail${i}.count(ways), bus=bus${i}.count(relations);
+        out;`).join('');
+    const query = `[out:json][timeout:10];${perPoint}`;
+
+    for (const url of OVERPASS_API_ENDPOINTS) {
+        try {
+            const controller = new AbortController();
+            const timeoutId = setTimeout(() => controller.abort(), 5000); // Heavier than a road lookup
+
+            const response = await fetch(url, {
+                method: 'POST',
+                body: `data=${encodeURIComponent(query)}`,
+                signal: controller.signal
+            });
+
+            clearTimeout(timeoutId);
+
+            if (!response.ok) continue;
+
+            const data = await response.json();
+            const stats: OverpassElement[] = (data.elements || []).filter((el: OverpassElement) => el.type === 'sample');
+            if (stats.length === 0) continue;
 
+            const onRail = stats.filter(el => parseInt(el.tags?.rail || '0', 10) > 0).length;
+            const onBusRoute = stats.filter(el => parseInt(el.tags?.bus || '0', 10) > 0).length;
+            return { railFraction: onRail / stats.length, busRouteFraction: onBusRoute / stats.length, sampled: stats.length };
         } catch (error) {
-            // Try next endpoint
-            continue;
+            console.warn(`Transit lookup failed on ${url}, trying the next endpoint`, error);
         }
     }
-    return { maxSpeed: null, roadName: null, isSchoolZone: false };
+    return null;
 };
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { detectRegion } from './regions';
+
+const regionAt = (lat: number, lng: number) => detectRegion(lat, lng).id;
+
+describe('detectRegion', () => {
+    it('keeps Canadian cities out of the US', () => {
+        expect(regionAt(43.65, -79.38)).toBe('INTL'); // Toronto
+        expect(regionAt(45.5, -73.57)).toBe('INTL'); // Montreal
+        expect(regionAt(45.42, -75.7)).toBe('INTL'); // Ottawa
+        expect(regionAt(49.28, -123.12)).toBe('INTL'); // Vancouver
+        expect(regionAt(46.81, -71.21)).toBe('INTL'); // Quebec City
+        expect(regionAt(60.72, -135.06)).toBe('INTL'); // Whitehorse
+    });
+
+    it('keeps Mexican cities out of the US', () => {
+        expect(regionAt(25.69, -100.32)).toBe('INTL'); // Monterrey
+        expect(regionAt(32.51, -117.04)).toBe('INTL'); // Tijuana
+        expect(regionAt(31.69, -106.42)).toBe('INTL'); // Ciudad Juárez
+        expect(regionAt(32.62, -115.45)).toBe('INTL'); // Mexicali
+    });
+
+    it('still finds US cities along the borders', () => {
+        expect(regionAt(47.6, -122.33)).toBe('US'); // Seattle
+        expect(regionAt(42.33, -83.05)).toBe('US'); // Detroit
+        expect(regionAt(42.89, -78.88)).toBe('US'); // Buffalo
+        expect(regionAt(32.72, -117.16)).toBe('US'); // San Diego
+        expect(regionAt(31.76, -106.49)).toBe('US'); // El Paso
+        expect(regionAt(25.9, -97.49)).toBe('US'); // Brownsville
+        expect(regionAt(58.3, -134.42)).toBe('US'); // Juneau
+    });
+
+    it('keeps the French coast out of the UK', () => {
+        expect(regionAt(50.73, 1.61)).toBe('INTL'); // Boulogne-sur-Mer
+        expect(regionAt(50.95, 1.86)).toBe('INTL'); // Calais
+        expect(regionAt(51.13, 1.31)).toBe('UK'); // Dover
+        expect(regionAt(50.91, 0.98)).toBe('UK'); // Dungeness
+        expect(regionAt(51.5, -0.12)).toBe('UK'); // London
+        expect(regionAt(54.6, -5.93)).toBe('UK'); // Belfast
+        expect(regionAt(54.95, -7.73)).toBe('INTL'); // Letterkenny
+    });
+});
@@ -0,0 +1,240 @@
+// --- Region Rule Profiles ---
+// Road rules that differ by jurisdiction: default limits for untagged roads, school zones,
+// enforcement tolerance, the emergency number and display units. Everything is stored in km/h
+// so the engine never converts; mph regions are converted once, here.
+
+export type RegionId =
+    | 'AU-NSW' | 'AU-VIC' | 'AU-QLD' | 'AU-SA' | 'AU-WA' | 'AU-TAS' | 'AU-NT' | 'AU-ACT'
+    | 'NZ' | 'UK' | 'US' | 'INTL';
+
+export type DistanceUnit = 'km' | 'mi';
+
+export interface SchoolZoneRules {
+    speedLimit: number; // km/h while in force
+    days: number[]; // 0 = Sunday
+    windows: [number, number][]; // Local decimal hours, e.g. [8, 9.5] is 8:00-9:30
+}
+
+export interface RegionProfile {
+    id: RegionId;
+    name: string;
+    bounds: [number, number, number, number][]; // south, west, north, east; any box matches
+    excludes?: [number, number, number, number][]; // Neighbouring ground the bounds take in; wins over them
+    highwaySpeeds: Record<string, number>; // km/h by OSM highway class, for ways without maxspeed
+    schoolZone: SchoolZoneRules;
+    speedToleranceKmh: number;
+    emergencyNumber: string;
+    distanceUnit: DistanceUnit;
+}
+
+const KM_PER_MILE = 1.609344;
+const mph = (speed: number) => speed * KM_PER_MILE;
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const AU_HIGHWAY_SPEEDS: Record<string, number> = {
+    'motorway': 110,
+    'motorway_link': 80,
+    'trunk': 100,
+    'primary': 80,
+    'secondary': 60,
+    'tertiary': 60,
+    'residential': 50,
+    'living_street': 10, // Shared zones
+    'service': 20,
+    'unclassified': 80
+};
+
+// Australian states share most rules; only what differs is spelled out per state
+const australia = (id: RegionId, name: string, bounds: RegionProfile['bounds'], overrides: Partial<RegionProfile> = {}): RegionProfile => ({
+    id,
+    name,
+    bounds,
+    highwaySpeeds: AU_HIGHWAY_SPEEDS,
+    schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[8, 9.5], [14.5, 16]] },
+    speedToleranceKmh: 4,
+    emergencyNumber: '000',
+    distanceUnit: 'km',
+    ...overrides
+});
+
+// Checked in order, first match wins, so small regions sit before the ones that surround them.
+// Boxes can't follow a border, so where one takes in a neighbour's towns that ground is listed in
+// `excludes`. Places right on a border river (Detroit and Windsor, El Paso and Juárez) can still
+// land on the wrong side; nothing further in is misplaced.
+
+// Southern Canada, northern Mexico and the Bahamas inside the contiguous box, and Yukon, northern
+// British Columbia and Chukotka inside Alaska's
+const US_EXCLUDES: RegionProfile['bounds'] = [
+    // Canada, west to east
+    [49, -125, 49.4, -95.15], // North of the 49th parallel
+    [48.75, -94.8, 49.4, -90], // Rainy River and Lake of the Woods, east of the Northwest Angle
+    [48.3, -90, 49.4, -84.6], // Thunder Bay and the north shore of Lake Superior
+    [46.5, -84.6, 48.3, -83.5], // Sault Ste. Marie
+    [46.1, -83.5, 49.4, -71.5], // Sudbury to Quebec's interior
+    [45, -82.4, 46.1, -71.5], // Georgian Bay, Ottawa, Montreal, the Eastern Townships
+    [42.55, -82.4, 45, -79.1], // Sarnia, London, Toronto
+    [43.75, -79.1, 45, -76.4], // Oshawa to Kingston
+    [42, -82.95, 42.35, -81.5], // Essex
+    [42.35, -82.55, 42.55, -81.5], // Chatham-Kent
+    [46.4, -71.5, 49.4, -70.1], // Quebec City
+    [47.5, -70.1, 49.4, -66.9], // Lower St. Lawrence
+    [45.95, -67.75, 49.4, -66.9], // Western New Brunswick
+    // Mexico, west to east
+    [24.4, -117.2, 32.53, -114.8], // Tijuana and Baja California
+    [32.53, -116, 32.66, -114.8], // Mexicali
+    [31.9, -114.85, 32.47, -114.4], // San Luis Río Colorado
+    [24.4, -114.8, 31.33, -108.2], // Sonora, Baja California Sur
+    [24.4, -108.2, 31.33, -106.6], // Western Chihuahua, Sinaloa
+    [31.33, -108.2, 31.78, -106.55], // South of the New Mexico line
+    [31.3, -106.55, 31.73, -106.38], // Ciudad Juárez
+    [24.4, -106.6, 31.3, -106], // Chihuahua
+    [24.4, -106, 30.6, -105],
+    [24.4, -105, 29.5, -104],
+    [24.4, -104, 28.95, -102.6], // South of Big Bend
+    [24.4, -102.6, 29.33, -100.9], // Coahuila
+    [24.4, -100.9, 28.6, -99.9], // Nuevo León, Monterrey
+    [24.4, -99.9, 27.4, -99.45],
+    [24.4, -99.45, 26.3, -98.9],
+    [24.4, -98.9, 25.88, -97.1], // Tamaulipas, Matamoros
+    // Elsewhere
+    [24.4, -79.4, 27.3, -72], // The Bahamas
+    [60, -141, 71.5, -129.9], // Yukon
+    [58, -133.4, 60, -129.9], // Atlin
+    [56.9, -131.5, 58, -129.9], // The Stikine
+    [64.2, -180, 71.5, -169] // Chukotka
+];
+
+export const REGION_PROFILES: RegionProfile[] = [
+    australia('AU-ACT', 'Australian Capital Territory', [[-35.93, 148.76, -35.12, 149.4]], {
+        schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[8, 16]] }
+    }),
+    australia('AU-TAS', 'Tasmania', [[-43.7, 143.8, -39.5, 148.5]]),
+    australia('AU-VIC', 'Victoria', [[-39.2, 140.96, -37.5, 150], [-37.5, 140.96, -36.15, 148.2], [-36.15, 140.96, -34, 144]], {
+        highwaySpeeds: { ...AU_HIGHWAY_SPEEDS, 'motorway': 100 },
+        speedToleranceKmh: 3
+    }),
+    australia('AU-QLD', 'Queensland', [[-29, 138, -10, 148.9], [-28.16, 148.9, -10, 154]], {
+        schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[7, 9], [14, 16]] }
+    }),
+    australia('AU-NSW', 'New South Wales', [[-37.6, 140.96, -28.1, 153.7]]),
+    australia('AU-SA', 'South Australia', [[-38.1, 129, -26, 140.96]], {
+        // 25 km/h "when children are present"; approximated by the school day
+        schoolZone: { speedLimit: 25, days: WEEKDAYS, windows: [[8, 16.5]] }
+    }),
+    australia('AU-WA', 'Western Australia', [[-35.2, 112.9, -13.7, 129]], {
+        schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[7.5, 9], [14.5, 16]] }
+    }),
+    australia('AU-NT', 'Northern Territory', [[-26, 129, -10.9, 138]], {
+        highwaySpeeds: { ...AU_HIGHWAY_SPEEDS, 'motorway': 130, 'trunk': 110 },
+        schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[7, 17]] }
+    }),
+    {
+        id: 'NZ',
+        name: 'New Zealand',
+        bounds: [[-47.5, 166, -34, 179]],
+        highwaySpeeds: {
+            'motorway': 100,
+            'motorway_link': 80,
+            'trunk': 100,
+            'primary': 80,
+            'secondary': 80,
+            'tertiary': 60,
+            'residential': 50,
+            'living_street': 10,
+            'service': 20,
+            'unclassified': 80
+        },
+        schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[8, 9.25], [14.5, 15.5]] },
+        speedToleranceKmh: 4,
+        emergencyNumber: '111',
+        distanceUnit: 'km'
+    },
+    {
+        id: 'UK',
+        name: 'United Kingdom',
+        // Great Britain in three boxes that keep clear of the French coast, the Scottish islands,
+        // then Northern Ireland in four that leave out Donegal and Monaghan
+        bounds: [
+            [49.8, -5.8, 51, -2], [50.55, -2, 51, 1], [51, -5.8, 60.9, 1.8],
+            [55.45, -8.7, 60.9, -5.8],
+            [54.4, -7.6, 55, -5.4], [55, -6.95, 55.31, -5.9], [54.02, -6.9, 54.4, -5.4], [54.1, -8.18, 54.5, -7]
+        ],
+        highwaySpeeds: {
+            'motorway': mph(70),
+            'motorway_link': mph(50),
+            'trunk': mph(60),
+            'primary': mph(40),
+            'secondary': mph(30),
+            'tertiary': mph(30),
+            'residential': mph(30),
+            'living_street': mph(10),
+            'service': mph(10),
+            'unclassified': mph(30)
+        },
+        schoolZone: { speedLimit: mph(20), days: WEEKDAYS, windows: [[8, 9.5], [14.5, 16]] },
+        speedToleranceKmh: mph(2),
+        emergencyNumber: '999',
+        distanceUnit: 'mi'
+    },
+    {
+        id: 'US',
+        name: 'United States',
+        bounds: [
+            [24.4, -125, 49.4, -66.9], // Contiguous
+            [51, -180, 71.5, -129.9], // Alaska
+            [18.9, -160.3, 22.3, -154.8] // Hawaii
+        ],
+        excludes: US_EXCLUDES,
+        highwaySpeeds: {
+            'motorway': mph(65),
+            'motorway_link': mph(45),
+            'trunk': mph(55),
+            'primary': mph(45),
+            'secondary': mph(35),
+            'tertiary': mph(30),
+            'residential': mph(25),
+            'living_street': mph(15),
+            'service': mph(15),
+            'unclassified': mph(35)
+        },
+        // Varies by state and is usually signposted with its own times; this is the common case
+        schoolZone: { speedLimit: mph(20), days: WEEKDAYS, windows: [[7, 9], [14, 16]] },
+        speedToleranceKmh: mph(5),
+        emergencyNumber: '911',
+        distanceUnit: 'mi'
+    }
+];
+
+// Anywhere without a profile: the old built-in defaults, and the GSM-wide emergency number
+export const DEFAULT_REGION: RegionProfile = {
+    id: 'INTL',
+    name: 'International',
+    bounds: [],
+    highwaySpeeds: AU_HIGHWAY_SPEEDS,
+    schoolZone: { speedLimit: 40, days: WEEKDAYS, windows: [[8, 9.5], [14.5, 16]] },
+    speedToleranceKmh: 4,
+    emergencyNumber: '112',
+    distanceUnit: 'km'
+};
+
+export const getRegionProfile = (id: RegionId): RegionProfile =>
+    REGION_PROFILES.find(p => p.id === id) || DEFAULT_REGION;
+
+export const detectRegion = (lat: number, lng: number): RegionProfile => {
+    const contains = ([s, w, n, e]: [number, number, number, number]) => lat >= s && lat <= n && lng >= w && lng <= e;
+    return REGION_PROFILES.find(p => p.bounds.some(contains) && !p.excludes?.some(contains)) || DEFAULT_REGION;
+};
+
+export const isSchoolZoneInForce = (region: RegionProfile, timestamp: number) => {
+    const date = new Date(timestamp);
+    const h = date.getHours() + (date.getMinutes() / 60);
+    return region.schoolZone.days.includes(date.getDay()) && region.schoolZone.windows.some(([from, to]) => h >= from && h <= to);
+};
+
+// --- Display ---
+export const displaySpeed = (kmh: number, unit: DistanceUnit) => Math.round(unit === 'mi' ? kmh / KM_PER_MILE : kmh);
+
+export const speedUnitLabel = (unit: DistanceUnit) => (unit === 'mi' ? 'mph' : 'km/h');
+
+export const displayDistance = (km: number, unit: DistanceUnit) =>
+    unit === 'mi' ? `${(km / KM_PER_MILE).toFixed(1)} mi` : `${km.toFixed(1)} km`;
@@ -0,0 +1,277 @@
+import type { LatLng, TrafficControl } from '../types';
+import { ROAD_CACHE_CONFIG } from './config';
+import { encodeGeohash, densifyPath } from './geometry';
+
+// --- ROAD TILE CACHE ---
+// OSM roads, schools and traffic controls stored per geohash cell in IndexedDB, so speed limits are resolved on
+// the device and survive reloads. A small in-memory layer keeps the tiles around the car hot.
+// Where IndexedDB is missing (private mode, tests) the memory layer is all there is.
+//
+// Two kinds of tile share the database: ones fetched from Overpass, which expire, and ones
+// imported from an OSM extract, which stay until their region is deleted. Imported tiles live
+// in their own store keyed by region, so regions can overlap and be removed independently.
+
+export interface CachedWay {
+    id: number;
+    tags: Record<string, string>;
+    geometry: LatLng[];
+}
+
+export interface RoadTile {
+    geohash: string;
+    fetchedAt: number;
+    source: 'overpass' | 'import';
+    regionId?: string; // Imported tiles only
+    ways: CachedWay[]; // Any way passing through this cell; long ways appear in several tiles
+    schools: LatLng[];
+    controls?: TrafficControl[]; // Absent on tiles cached before stop signs and signals were fetched
+}
+
+// An imported extract, as listed in settings
+export interface ImportedRoadRegion {
+    id: string;
+    name: string;
+    importedAt: number;
+    bounds: { south: number, west: number, north: number, east: number };
+    tileCount: number;
+    wayCount: number;
+    schoolCount: number;
+    sizeBytes: number; // Of the stored tiles, roughly
+}
+
+const DB_NAME = 'safedrive-roads';
+const DB_VERSION = 2;
+const TILE_STORE = 'tiles';
+const IMPORT_STORE = 'imported'; // Keyed by [regionId, geohash], indexed by geohash
+const REGION_STORE = 'regions';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memory = new Map<string, RoadTile>();
+const importedMemory = new Map<string, RoadTile[]>(); // Empty array: known to have no imported data
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(TILE_STORE)) {
+                db.createObjectStore(TILE_STORE, { keyPath: 'geohash' });
+            }
+            if (!db.objectStoreNames.contains(IMPORT_STORE)) {
+                db.createObjectStore(IMPORT_STORE, { keyPath: ['regionId', 'geohash'] }).createIndex('geohash', 'geohash');
+            }
+            if (!db.objectStoreNames.contains(REGION_STORE)) {
+                db.createObjectStore(REGION_STORE, { keyPath: 'id' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn('Road cache unavailable, keeping tiles in memory only', request.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+// Most recently used last, so the oldest entries are the first keys
+const remember = <T>(cache: Map<string, T>, key: string, value: T) => {
+    cache.delete(key);
+    cache.set(key, value);
+    while (cache.size > ROAD_CACHE_CONFIG.MEMORY_TILES) {
+        cache.delete(cache.keys().next().value!);
+    }
+};
+
+export const tileHash = (lat: number, lng: number) => encodeGeohash(lat, lng, ROAD_CACHE_CONFIG.GEOHASH_PRECISION);
+
+// Imported tiles never go stale; Overpass ones do after TTL_MS, or straight away if they were
+// fetched without traffic controls
+export const isTileFresh = (tile: RoadTile, now: number = Date.now()) =>
+    tile.source === 'import' || (!!tile.controls && now - tile.fetchedAt < ROAD_CACHE_CONFIG.TTL_MS);
+
+// Files ways, schools and controls under the cells they pass through. Long straight segments cross cells
+// without a vertex in them, so ways are walked at CORRIDOR_STEP_M. With `only`, cells outside it
+// are dropped and every cell in it gets a tile, empty or not: "no roads here" is worth caching.
+export const assembleTiles = (
+    ways: CachedWay[],
+    schools: LatLng[],
+    controls: TrafficControl[],
+    base: Pick<RoadTile, 'fetchedAt' | 'source' | 'regionId'>,
+    only?: string[]
+): RoadTile[] => {
+    const tiles = new Map<string, RoadTile>();
+    const tileFor = (hash: string) => {
+        let tile = tiles.get(hash);
+        if (!tile && (!only || only.includes(hash))) {
+            tile = { ...base, geohash: hash, ways: [], schools: [], controls: [] };
+            tiles.set(hash, tile);
+        }
+        return tile;
+    };
+    only?.forEach(tileFor);
+
+    for (const way of ways) {
+        const cells = new Set(densifyPath(way.geometry, ROAD_CACHE_CONFIG.CORRIDOR_STEP_M).map(p => tileHash(p.lat, p.lng)));
+        cells.forEach(hash => tileFor(hash)?.ways.push(way));
+    }
+    for (const school of schools) {
+        tileFor(tileHash(school.lat, school.lng))?.schools.push(school);
+    }
+    for (const control of controls) {
+        tileFor(tileHash(control.lat, control.lng))?.controls!.push(control);
+    }
+    return [...tiles.values()];
+};
+
+export const roadCache = {
+    // Synchronous peek at the memory layer, for per-fix lookups
+    peek(geohash: string): RoadTile | undefined {
+        return memory.get(geohash);
+    },
+
+    // Imported tiles for a cell from memory: undefined until loaded, empty if there are none
+    peekImported(geohash: string): RoadTile[] | undefined {
+        return importedMemory.get(geohash);
+    },
+
+    // Overpass tiles found for the given cells, expired ones included; callers decide whether to refresh
+    async getTiles(geohashes: string[]): Promise<Map<string, RoadTile>> {
+        const found = new Map<string, RoadTile>();
+        const missing: string[] = [];
+        for (const hash of geohashes) {
+            const tile = memory.get(hash);
+            if (tile) found.set(hash, tile);
+            else missing.push(hash);
+        }
+
+        const db = missing.length > 0 ? await openDb() : null;
+        if (!db) return found;
+        try {
+            const store = db.transaction(TILE_STORE, 'readonly').objectStore(TILE_STORE);
+            const tiles = await Promise.all(missing.map(hash => requestToPromise<RoadTile | undefined>(store.get(hash))));
+            for (const tile of tiles) {
+                if (!tile) continue;
+                remember(memory, tile.geohash, tile);
+                found.set(tile.geohash, tile);
+            }
+        } catch (error) {
+            console.warn('Road cache read failed', error);
+        }
+        return found;
+    },
+
+    // Every imported region's tiles for the given cells
+    async getImportedTiles(geohashes: string[]): Promise<RoadTile[]> {
+        const found: RoadTile[] = [];
+        const missing: string[] = [];
+        for (const hash of geohashes) {
+            const tiles = importedMemory.get(hash);
+            if (tiles) found.push(...tiles);
+            else missing.push(hash);
+        }
+
+        const db = missing.length > 0 ? await openDb() : null;
+        if (!db) {
+            missing.forEach(hash => remember(importedMemory, hash, []));
+            return found;
+        }
+        try {
+            const index = db.transaction(IMPORT_STORE, 'readonly').objectStore(IMPORT_STORE).index('geohash');
+            const perCell = await Promise.all(missing.map(hash => requestToPromise<RoadTile[]>(index.getAll(hash))));
+            missing.forEach((hash, i) => {
+                remember(importedMemory, hash, perCell[i]);
+                found.push(...perCell[i]);
+            });
+        } catch (error) {
+            console.warn('Road cache read failed', error);
+        }
+        return found;
+    },
+
+    async putTiles(tiles: RoadTile[]): Promise<void> {
+        tiles.forEach(tile => remember(memory, tile.geohash, tile));
+        const db = await openDb();
+        if (!db || tiles.length === 0) return;
+        try {
+            const tx = db.transaction(TILE_STORE, 'readwrite');
+            const store = tx.objectStore(TILE_STORE);
+            tiles.forEach(tile => store.put(tile));
+            await transactionDone(tx);
+        } catch (error) {
+            console.warn('Road cache write failed', error);
+        }
+    },
+
+    // Replaces any earlier import with the same id. Needs IndexedDB: an extract is too big to
+    // hold in memory alone, and would be gone on the next launch anyway.
+    async saveImportedRegion(region: ImportedRoadRegion, tiles: RoadTile[]): Promise<void> {
+        const db = await openDb();
+        if (!db) throw new Error('Offline road data needs browser storage, which is unavailable here.');
+
+        await this.deleteImportedRegion(region.id);
+        const tx = db.transaction([IMPORT_STORE, REGION_STORE], 'readwrite');
+        const store = tx.objectStore(IMPORT_STORE);
+        tiles.forEach(tile => store.put({ ...tile, source: 'import', regionId: region.id }));
+        tx.objectStore(REGION_STORE).put(region);
+        await transactionDone(tx);
+        tiles.forEach(tile => importedMemory.delete(tile.geohash));
+    },
+
+    async listImportedRegions(): Promise<ImportedRoadRegion[]> {
+        const db = await openDb();
+        if (!db) return [];
+        const regions = await requestToPromise<ImportedRoadRegion[]>(db.transaction(REGION_STORE, 'readonly').objectStore(REGION_STORE).getAll());
+        return regions.sort((a, b) => b.importedAt - a.importedAt);
+    },
+
+    async deleteImportedRegion(id: string): Promise<void> {
+        const db = await openDb();
+        if (!db) return;
+        const tx = db.transaction([IMPORT_STORE, REGION_STORE], 'readwrite');
+        tx.objectStore(IMPORT_STORE).delete(IDBKeyRange.bound([id, ''], [id, '\uffff']));
+        tx.objectStore(REGION_STORE).delete(id);
+        await transactionDone(tx);
+        importedMemory.clear(); // Cheaper than working out which cells the region covered
+    },
+
+    // Drops expired Overpass tiles from disk; returns how many went. Imports are left alone.
+    async prune(now: number = Date.now()): Promise<number> {
+        for (const [hash, tile] of memory) {
+            if (!isTileFresh(tile, now)) memory.delete(hash);
+        }
+        const db = await openDb();
+        if (!db) return 0;
+
+        let removed = 0;
+        try {
+            const tx = db.transaction(TILE_STORE, 'readwrite');
+            const request = tx.objectStore(TILE_STORE).openCursor();
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) return;
+                if (!isTileFresh(cursor.value as RoadTile, now)) {
+                    cursor.delete();
+                    removed++;
+                }
+                cursor.continue();
+            };
+            await transactionDone(tx);
+        } catch (error) {
+            console.warn('Road cache prune failed', error);
+        }
+        return removed;
+    }
+};
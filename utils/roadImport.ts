@@ -0,0 +1,154 @@
+import type { LatLng, TrafficControl } from '../types';
+import { ROAD_CACHE_CONFIG } from './config';
+import { CachedWay, ImportedRoadRegion, assembleTiles, roadCache } from './roadCache';
+import { toTrafficControl } from './osm';
+
+// --- OFFLINE ROAD IMPORT ---
+// Loads an OSM extract into the road cache so speed limits work without signal. Takes GeoJSON,
+// either a FeatureCollection or one feature per line (GeoJSONSeq), as produced from a .osm.pbf by
+// `osmium export`, `ogr2ogr` or osmtogeojson. Drivable ways, schools, stop signs and signals are
+// kept; the rest is ignored, so an unfiltered export works too, only slower.
+
+type Position = number[]; // [lng, lat], sometimes with elevation
+
+// The geometries an extract can hold; anything else is skipped
+type GeoJsonGeometry =
+    | { type: 'Point', coordinates: Position }
+    | { type: 'MultiPoint' | 'LineString', coordinates: Position[] }
+    | { type: 'MultiLineString' | 'Polygon', coordinates: Position[][] }
+    | { type: 'MultiPolygon', coordinates: Position[][][] };
+
+interface GeoJsonFeature {
+    type: 'Feature';
+    id?: string | number;
+    geometry: GeoJsonGeometry | null;
+    properties: Record<string, unknown> | null;
+}
+
+const DRIVABLE = new RegExp(`^(${ROAD_CACHE_CONFIG.DRIVABLE_HIGHWAYS})$`);
+// Opens each record of a GeoJSON text sequence (RFC 8142)
+const RECORD_SEPARATOR = String.fromCharCode(0x1e);
+
+const parseFeatures = (text: string): GeoJsonFeature[] => {
+    try {
+        const json = JSON.parse(text);
+        if (json.type === 'FeatureCollection') return json.features || [];
+        if (json.type === 'Feature') return [json];
+    } catch {
+        // Not a single document; try one feature per line
+    }
+    return text.split('\n').map(line => line.split(RECORD_SEPARATOR).join('').trim()).filter(Boolean).map(line => {
+        try {
+            return JSON.parse(line);
+        } catch {
+            throw new Error('This file is not GeoJSON. Export the extract with e.g. `osmium export region.osm.pbf -o roads.geojson`.');
+        }
+    });
+};
+
+// ogr2ogr folds tags it has no column for into an hstore string: "maxspeed:conditional"=>"30 @ (...)"
+const parseOtherTags = (value: string): Record<string, string> => {
+    const tags: Record<string, string> = {};
+    for (const match of value.matchAll(/"((?:[^"\\]|\\.)*)"=>"((?:[^"\\]|\\.)*)"/g)) {
+        tags[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    }
+    return tags;
+};
+
+// Exporters disagree on where tags go: flat properties (osmium), nested under `tags`
+// (osmtogeojson), or partly in `other_tags` (ogr2ogr)
+const tagsOf = (feature: GeoJsonFeature): Record<string, string> => {
+    const props = feature.properties || {};
+    const flat = typeof props.tags === 'object' && props.tags ? props.tags : props;
+    const tags: Record<string, string> = {};
+    for (const [key, value] of Object.entries(flat)) {
+        if (key === 'other_tags' && typeof value === 'string') Object.assign(tags, parseOtherTags(value));
+        else if (typeof value === 'string' || typeof value === 'number') tags[key] = String(value);
+    }
+    return tags;
+};
+
+// "way/123", 123, or "w123" all give 123; features without one get a negative id of their own
+const osmIdOf = (feature: GeoJsonFeature, fallback: number): number => {
+    const props = feature.properties || {};
+    const raw = feature.id ?? props['@id'] ?? props.osm_id ?? props.id;
+    const digits = raw !== undefined ? String(raw).match(/\d+/) : null;
+    return digits ? parseInt(digits[0], 10) : fallback;
+};
+
+const toLatLng = ([lng, lat]: Position): LatLng => ({ lat, lng });
+
+const centroid = (ring: Position[]): LatLng => {
+    const sum = ring.reduce((acc, [lng, lat]) => ({ lat: acc.lat + lat, lng: acc.lng + lng }), { lat: 0, lng: 0 });
+    return { lat: sum.lat / ring.length, lng: sum.lng / ring.length };
+};
+
+export const extractRoads = (text: string): { ways: CachedWay[], schools: LatLng[], controls: TrafficControl[] } => {
+    const ways: CachedWay[] = [];
+    const schools: LatLng[] = [];
+    const controls: TrafficControl[] = [];
+    let syntheticId = -1;
+
+    for (const feature of parseFeatures(text)) {
+        const geometry = feature?.geometry;
+        if (!geometry) continue;
+        const tags = tagsOf(feature);
+
+        if (tags.amenity === 'school') {
+            if (geometry.type === 'Point') schools.push(toLatLng(geometry.coordinates));
+            else if (geometry.type === 'Polygon') schools.push(centroid(geometry.coordinates[0]));
+            else if (geometry.type === 'MultiPolygon') schools.push(centroid(geometry.coordinates[0][0]));
+            continue;
+        }
+        if (geometry.type === 'Point') {
+            const control = toTrafficControl(osmIdOf(feature, syntheticId--), tags, toLatLng(geometry.coordinates));
+            if (control) controls.push(control);
+            continue;
+        }
+        if (!tags.highway || !DRIVABLE.test(tags.highway)) continue;
+
+        const lines: Position[][] = geometry.type === 'LineString' ? [geometry.coordinates]
+            : geometry.type === 'MultiLineString' ? geometry.coordinates
+            : [];
+        const id = osmIdOf(feature, syntheticId--);
+        lines.filter(line => line.length > 1).forEach((line, part) => {
+            // Matching dedupes by id, so the extra parts of a multi-line need ids of their own
+            ways.push({ id: part === 0 ? id : syntheticId--, tags, geometry: line.map(toLatLng) });
+        });
+    }
+    return { ways, schools, controls };
+};
+
+const boundsOf = (points: LatLng[]): ImportedRoadRegion['bounds'] => {
+    let south = 90, west = 180, north = -90, east = -180;
+    for (const p of points) {
+        south = Math.min(south, p.lat);
+        north = Math.max(north, p.lat);
+        west = Math.min(west, p.lng);
+        east = Math.max(east, p.lng);
+    }
+    return { south, west, north, east };
+};
+
+// Importing a file with the same name again replaces the earlier import
+export const importRoadFile = async (file: File): Promise<ImportedRoadRegion> => {
+    const { ways, schools, controls } = extractRoads(await file.text());
+    if (ways.length === 0) throw new Error('No drivable roads found in this file.');
+
+    const name = file.name.replace(/\.(geo)?json(seq|l)?$/i, '');
+    const id = name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    const tiles = assembleTiles(ways, schools, controls, { fetchedAt: Date.now(), source: 'import', regionId: id });
+
+    const region: ImportedRoadRegion = {
+        id,
+        name,
+        importedAt: Date.now(),
+        bounds: boundsOf([...ways.flatMap(w => w.geometry), ...schools]),
+        tileCount: tiles.length,
+        wayCount: ways.length,
+        schoolCount: schools.length,
+        sizeBytes: tiles.reduce((sum, tile) => sum + JSON.stringify(tile).length, 0)
+    };
+    await roadCache.saveImportedRegion(region, tiles);
+    return region;
+};
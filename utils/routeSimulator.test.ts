@@ -0,0 +1,44 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Route } from '../types';
+import { RouteDriveOptions, RouteDriveSimulator } from './routeSimulator';
+
+// Due east in a straight line for about 5 km
+const ROUTE: Route = {
+    instructions: [],
+    coordinates: [{ lat: -33.87, lng: 151.2 }, { lat: -33.87, lng: 151.254 }],
+    summary: { totalDistance: 5000, totalTime: 300 },
+    summaryText: ''
+};
+
+// Average speed (km/h) of the fixes over the first two minutes, once up to speed. Each fix
+// carries about 1 km/h of noise, so single fixes are no use.
+const averageSpeed = (options: Omit<RouteDriveOptions, 'route'>): number => {
+    const speeds: number[] = [];
+    const simulator = new RouteDriveSimulator({ route: ROUTE, gpsNoiseM: 0, ...options });
+    simulator.start({ onPosition: p => speeds.push((p.speed ?? 0) * 3.6), onMotion: () => {}, onOrientation: () => {}, onError: () => {} });
+    vi.advanceTimersByTime(120000);
+    simulator.stop();
+    const cruising = speeds.slice(30);
+    return cruising.reduce((sum, speed) => sum + speed, 0) / cruising.length;
+};
+
+describe('RouteDriveSimulator', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('keeps to the posted limit when it is below cruise', () => {
+        vi.useFakeTimers();
+        expect(averageSpeed({ cruiseSpeedKmh: 80, speedLimitAt: () => 50 })).toBeCloseTo(50, 0);
+    });
+
+    it('speeds relative to the posted limit, not the cruise speed', () => {
+        vi.useFakeTimers();
+        expect(averageSpeed({ cruiseSpeedKmh: 40, speedingPercent: 100, speedLimitAt: () => 50 })).toBeCloseTo(60, 0);
+    });
+
+    it('speeds over cruise where no limit is known', () => {
+        vi.useFakeTimers();
+        expect(averageSpeed({ cruiseSpeedKmh: 40, speedingPercent: 100, speedLimitAt: () => null })).toBeCloseTo(48, 0);
+    });
+});
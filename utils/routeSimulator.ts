@@ -0,0 +1,315 @@
+import type { Route, LatLng, PositionSample } from '../types';
+import type { LocationProvider, LocationProviderHandlers } from './locationProvider';
+import { calculateBearing, projectPoint } from './geometry';
+import { calculateDistance, clamp } from './helpers';
+import { lookupCachedRoad } from './osm';
+
+// --- Synthetic Route Drive ---
+// "Drives" a Route at the desk. A simple point-mass model follows the polyline: it cruises,
+// slows for bends using a lateral-acceleration budget, brakes to a stop at the destination,
+// keeps to the posted limit, and mixes in speeding spells over it plus occasional harsh braking,
+// launches and fast corners.
+// Output goes through the normal LocationProvider pipeline, so the Kalman filter, HUD, voice
+// guidance and scoring all see it exactly like a real phone. Randomness is seeded, so the
+// same options replay the same drive.
+
+export interface RouteDriveOptions {
+    route: Route;
+    cruiseSpeedKmh?: number;   // Defaults to the route's average speed, lifted a little for stops
+    speedingPercent?: number;  // 0-100, share of driving time spent ~20% above the posted limit
+    speedLimitAt?: (point: LatLng, heading: number) => number | null; // km/h; defaults to the cached road data
+    harshEventsPerKm?: number; // Harsh brake / launch / fast corner rate
+    gpsNoiseM?: number;        // 1σ horizontal fix error
+    dropoutsPerHour?: number;  // GPS outages of 8-25s each
+    seed?: number;
+}
+
+const MOTION_HZ = 10;
+const FIX_EVERY_TICKS = MOTION_HZ; // 1 Hz GPS
+const DT = 1 / MOTION_HZ;
+
+const COMFORT_ACCEL = 2.0;    // m/s²
+const COMFORT_DECEL = 3.0;    // m/s²
+const LATERAL_BUDGET = 2.5;   // m/s², relaxed cornering
+const AGGRESSIVE_LATERAL = 6.5; // m/s², exceeds VIOLATION_CONFIG.G_FORCE.CORNERING
+const HARSH_DECEL = 9.5;      // m/s², exceeds VIOLATION_CONFIG.G_FORCE.HARSH_BRAKING
+const HARSH_ACCEL = 9.0;
+const HARSH_DURATION_S = 1.5;
+const SPEEDING_FACTOR = 1.2;
+const SPELL_MIN_S = 20;
+const SPELL_MAX_S = 45;
+const HEADING_RESPONSE_S = 1.0; // Steering catches up with the polyline over about a second
+
+type HarshKind = 'brake' | 'accel' | 'corner';
+
+// Mulberry32: tiny deterministic PRNG
+const createRandom = (seed: number) => {
+    let a = seed >>> 0;
+    return () => {
+        a = (a + 0x6D2B79F5) >>> 0;
+        let t = a;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const toLatLon = (p: LatLng) => ({ latitude: p.lat, longitude: p.lng });
+
+export class RouteDriveSimulator implements LocationProvider {
+    public readonly id = 'route';
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private options: Required<Omit<RouteDriveOptions, 'route'>>;
+
+    // Precomputed route profile
+    private coords: LatLng[];
+    private cumulative: number[] = [];
+    private cornerLimits: number[] = []; // m/s, per vertex
+    private totalLength = 0;
+
+    // Simulation state
+    private random: () => number = Math.random;
+    private distance = 0;
+    private speed = 0;
+    private heading = 0;
+    private tick = 0;
+    private isSpeeding = false;
+    private spellEndsAt = 0;
+    private harsh: { kind: HarshKind; endsAt: number } | null = null;
+    private dropoutEndsAt = 0;
+    private nextHarshAt = 0; // metres
+    private postedLimit: number | null = null; // km/h, refreshed with each fix
+
+    constructor(options: RouteDriveOptions) {
+        const { route } = options;
+        const averageKmh = route.summary.totalTime > 0 ? (route.summary.totalDistance / route.summary.totalTime) * 3.6 : 50;
+
+        this.options = {
+            cruiseSpeedKmh: clamp(Math.round(averageKmh * 1.15), 30, 110),
+            speedingPercent: 0,
+            harshEventsPerKm: 0,
+            gpsNoiseM: 4,
+            dropoutsPerHour: 0,
+            seed: 1,
+            speedLimitAt: (point, heading) => lookupCachedRoad(point.lat, point.lng, { heading })?.maxSpeed ?? null,
+            ...options
+        };
+        this.coords = route.coordinates;
+        this.buildProfile();
+    }
+
+    public isAvailable(): boolean {
+        return this.coords.length >= 2;
+    }
+
+    public start(handlers: LocationProviderHandlers) {
+        this.stop();
+        this.reset();
+
+        this.timer = setInterval(() => {
+            const elapsed = this.tick * DT;
+            const { longitudinal, headingRate } = this.step(elapsed);
+            this.emitMotion(handlers, longitudinal, headingRate);
+
+            if (++this.tick % FIX_EVERY_TICKS === 0) {
+                this.postedLimit = this.options.speedLimitAt(this.positionAt(this.distance), this.heading);
+                this.updateDropout(elapsed);
+                if (elapsed >= this.dropoutEndsAt) this.emitPosition(handlers);
+            }
+        }, DT * 1000);
+    }
+
+    public stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    public async getCurrentPosition(): Promise<PositionSample> {
+        const start = this.coords[0];
+        return { timestamp: Date.now(), latitude: start.lat, longitude: start.lng, speed: 0, accuracy: this.options.gpsNoiseM, heading: null };
+    }
+
+    // 0-1 along the route, for the developer menu
+    public get progress(): number {
+        return this.totalLength > 0 ? this.distance / this.totalLength : 1;
+    }
+
+    private reset() {
+        this.random = createRandom(this.options.seed);
+        this.distance = 0;
+        this.speed = 0;
+        this.heading = this.coords.length >= 2 ? calculateBearing(this.coords[0], this.coords[1]) : 0;
+        this.tick = 0;
+        this.isSpeeding = false;
+        this.spellEndsAt = 0;
+        this.harsh = null;
+        this.dropoutEndsAt = 0;
+        this.nextHarshAt = this.drawHarshDistance();
+        this.postedLimit = this.options.speedLimitAt(this.coords[0], this.heading);
+    }
+
+    private buildProfile() {
+        const n = this.coords.length;
+        this.cumulative = [0];
+        for (let i = 1; i < n; i++) {
+            this.cumulative.push(this.cumulative[i - 1] + calculateDistance(toLatLon(this.coords[i - 1]), toLatLon(this.coords[i])));
+        }
+        this.totalLength = this.cumulative[n - 1] || 0;
+
+        // Treat each vertex as an arc spread over half the shorter neighbouring segment: R = L / θ
+        this.cornerLimits = this.coords.map((_, i) => {
+            if (i === 0 || i === n - 1) return Infinity;
+            const inBearing = calculateBearing(this.coords[i - 1], this.coords[i]);
+            const outBearing = calculateBearing(this.coords[i], this.coords[i + 1]);
+            const turn = Math.abs(((outBearing - inBearing + 540) % 360) - 180) * Math.PI / 180;
+            if (turn < 0.05) return Infinity;
+            const arc = Math.max(5, Math.min(this.cumulative[i] - this.cumulative[i - 1], this.cumulative[i + 1] - this.cumulative[i]) / 2);
+            return Math.sqrt(LATERAL_BUDGET * (arc / turn));
+        });
+    }
+
+    // Advances the model by one tick. Returns the accelerations the phone should feel.
+    private step(elapsed: number): { longitudinal: number; headingRate: number } {
+        const { cruiseSpeedKmh, speedingPercent } = this.options;
+
+        if (elapsed >= this.spellEndsAt) {
+            this.isSpeeding = this.random() * 100 < speedingPercent;
+            this.spellEndsAt = elapsed + SPELL_MIN_S + this.random() * (SPELL_MAX_S - SPELL_MIN_S);
+        }
+
+        if (!this.harsh && this.distance >= this.nextHarshAt && this.speed > 8) {
+            const kinds: HarshKind[] = ['brake', 'accel', 'corner'];
+            const kind = kinds[Math.floor(this.random() * kinds.length)];
+            // A fast corner needs a bend to happen in, so that mood lasts longer
+            this.harsh = { kind, endsAt: elapsed + HARSH_DURATION_S * (kind === 'corner' ? 6 : 1) };
+            this.nextHarshAt = this.distance + this.drawHarshDistance();
+        }
+        if (this.harsh && elapsed >= this.harsh.endsAt) this.harsh = null;
+
+        // Within the limit outside a spell; during one, over the limit rather than over cruise, which
+        // may already sit below it. Without a known limit, spells go over cruise instead.
+        const limit = this.postedLimit !== null ? this.postedLimit / 3.6 : null;
+        const cruise = this.isSpeeding
+            ? (limit ?? cruiseSpeedKmh / 3.6) * SPEEDING_FACTOR
+            : Math.min(cruiseSpeedKmh / 3.6, limit ?? Infinity);
+        const target = Math.min(cruise, this.lookAheadLimit());
+
+        let accel = clamp((target - this.speed) / 1.0, -COMFORT_DECEL, COMFORT_ACCEL);
+        if (this.harsh?.kind === 'brake') accel = -HARSH_DECEL;
+        else if (this.harsh?.kind === 'accel' && this.speed < cruise * SPEEDING_FACTOR) accel = HARSH_ACCEL;
+
+        const previousSpeed = this.speed;
+        // Arrival: roll the last few metres out gently instead of stopping dead on the final vertex
+        if (this.distance >= this.totalLength) accel = -COMFORT_DECEL;
+        this.speed = Math.max(0, this.speed + accel * DT);
+        this.distance = Math.min(this.totalLength, this.distance + this.speed * DT);
+
+        // Steering follows the polyline, but never harder than the lateral budget allows, so the
+        // cornering force the phone feels matches the speed the car carried into the bend
+        const lateralBudget = this.harsh?.kind === 'corner' ? AGGRESSIVE_LATERAL : LATERAL_BUDGET;
+        const maxRate = (lateralBudget / Math.max(1, this.speed)) * 180 / Math.PI;
+        const headingError = ((this.bearingAt(this.distance) - this.heading + 540) % 360) - 180;
+        const headingRate = clamp(headingError / HEADING_RESPONSE_S, -maxRate, maxRate); // deg/s, + = clockwise
+        this.heading = (this.heading + headingRate * DT + 360) % 360;
+
+        return { longitudinal: (this.speed - previousSpeed) / DT, headingRate };
+    }
+
+    // Highest speed from which the car can still slow comfortably for every bend (and the
+    // destination) within braking range
+    private lookAheadLimit(): number {
+        const budgetScale = this.harsh?.kind === 'corner' ? Math.sqrt(AGGRESSIVE_LATERAL / LATERAL_BUDGET) : 1;
+        const horizon = (this.speed * this.speed) / (2 * COMFORT_DECEL) + 50;
+        let limit = Infinity;
+
+        for (let i = this.segmentIndex(this.distance) + 1; i < this.coords.length; i++) {
+            const ahead = this.cumulative[i] - this.distance;
+            if (ahead > horizon) break;
+            const vertexLimit = i === this.coords.length - 1 ? 0 : this.cornerLimits[i] * budgetScale;
+            limit = Math.min(limit, Math.sqrt(vertexLimit * vertexLimit + 2 * COMFORT_DECEL * Math.max(0, ahead)));
+        }
+        return limit;
+    }
+
+    private drawHarshDistance(): number {
+        const rate = this.options.harshEventsPerKm;
+        if (rate <= 0) return Infinity;
+        // Exponential spacing: a Poisson process along the road
+        return (-Math.log(1 - this.random()) / rate) * 1000;
+    }
+
+    private updateDropout(elapsed: number) {
+        if (elapsed < this.dropoutEndsAt) return;
+        const perSecond = this.options.dropoutsPerHour / 3600;
+        if (this.random() < perSecond) this.dropoutEndsAt = elapsed + 8 + this.random() * 17;
+    }
+
+    private segmentIndex(distance: number): number {
+        let lo = 0;
+        let hi = this.cumulative.length - 1;
+        while (lo < hi - 1) {
+            const mid = (lo + hi) >> 1;
+            if (this.cumulative[mid] <= distance) lo = mid;
+            else hi = mid;
+        }
+        return lo;
+    }
+
+    private bearingAt(distance: number): number {
+        const i = Math.min(this.segmentIndex(distance), this.coords.length - 2);
+        return calculateBearing(this.coords[i], this.coords[i + 1]);
+    }
+
+    private positionAt(distance: number): LatLng {
+        const i = Math.min(this.segmentIndex(distance), this.coords.length - 2);
+        return projectPoint(this.coords[i], calculateBearing(this.coords[i], this.coords[i + 1]), distance - this.cumulative[i]);
+    }
+
+    private gaussian(): number {
+        // Box-Muller
+        const u = 1 - this.random();
+        const v = this.random();
+        return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+    }
+
+    private emitPosition(handlers: LocationProviderHandlers) {
+        const { gpsNoiseM } = this.options;
+        const truth = this.positionAt(this.distance);
+        const offset = Math.hypot(this.gaussian(), this.gaussian()) * gpsNoiseM;
+        const position = offset > 0 ? projectPoint(truth, this.random() * 360, offset) : truth;
+        const now = Date.now();
+
+        handlers.onPosition({
+            timestamp: now,
+            latitude: position.lat,
+            longitude: position.lng,
+            speed: Math.max(0, this.speed + this.gaussian() * 0.3),
+            accuracy: gpsNoiseM * 1.5 + this.random() * gpsNoiseM,
+            heading: this.speed > 0.5 ? this.heading : null
+        });
+        handlers.onOrientation({
+            timestamp: now,
+            alpha: (360 - this.heading) % 360,
+            beta: 0,
+            gamma: 0,
+            absolute: true,
+            compassHeading: this.heading
+        });
+    }
+
+    // Phone lies flat with its top towards the bonnet: +y forward, +x right, +z up
+    private emitMotion(handlers: LocationProviderHandlers, longitudinal: number, headingRate: number) {
+        const lateral = this.speed * headingRate * Math.PI / 180;
+        const vibration = () => this.gaussian() * (this.speed > 0.5 ? 0.08 : 0.01);
+        const x = lateral + vibration();
+        const y = longitudinal + vibration();
+        const z = vibration();
+
+        handlers.onMotion({
+            timestamp: Date.now(),
+            acceleration: { x, y, z },
+            rotationRate: { alpha: -headingRate, beta: 0, gamma: 0 },
+            accelerationIncludingGravity: { x, y, z: z + 9.81 }
+        });
+    }
+}
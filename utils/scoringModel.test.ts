@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { DrivingEvent, Trip } from '../types';
+import { SCORING_MODEL, recomputeTrips, scoreFields, tripScores } from './scoringModel';
+
+const START = Date.UTC(2026, 2, 3, 2, 0); // Midday in Sydney, so no light weighting
+
+const braking = (minute: number): DrivingEvent => ({
+    type: 'HARSH_BRAKING',
+    timestamp: START + minute * 60000,
+    points: -7,
+    severityLevel: 'MODERATE',
+    description: 'Harsh Braking'
+});
+
+// Half an hour and 20 km in town with `events`, as the given model version scored it
+const trip = (id: string, events: DrivingEvent[], scoringModelVersion?: number): Trip => ({
+    id,
+    startTime: START,
+    endTime: START + 1800000,
+    distance: 20,
+    duration: 1800,
+    points: 0,
+    maxSpeed: 60,
+    complianceScore: 100 - events.length * 5,
+    scoringModelVersion,
+    events,
+    path: [{ lat: -33.87, lng: 151.2 }],
+    startName: 'Home',
+    validity: 'VALID',
+    rewardEligible: true,
+    driverConfidence: 1,
+    modeOfTransport: 'car'
+});
+
+describe('scoringModel', () => {
+    it('weighs events against how much driving the trip contained', () => {
+        const events = [braking(5), braking(10)];
+        const short = scoreFields({ events, distance: 20, duration: 1800 });
+        const long = scoreFields({ events, distance: 200, duration: 3 * 3600 });
+
+        expect(short.scoringModelVersion).toBe(SCORING_MODEL.version);
+        expect(short.scores?.speed).toBe(100);
+        expect(long.scores!.handling).toBeGreaterThan(short.scores!.handling);
+    });
+
+    it('rescores trips an older model scored and reports the change', () => {
+        const legacy = trip('legacy', [braking(5), braking(10)]);
+        const { trips, rescored } = recomputeTrips([legacy]);
+
+        expect(trips[0]).toMatchObject(scoreFields(legacy));
+        expect(rescored).toEqual([{ id: 'legacy', before: 90, after: trips[0].complianceScore }]);
+    });
+
+    it('leaves trips the current or a newer model scored alone, in order', () => {
+        const current = { ...trip('current', [braking(5)]), ...scoreFields(trip('current', [braking(5)])) };
+        const newer = { ...trip('newer', [braking(5)], SCORING_MODEL.version + 1), complianceScore: 42 };
+        const { trips, rescored } = recomputeTrips([current, trip('legacy', []), newer]);
+
+        expect(trips.map(t => t.id)).toEqual(['current', 'legacy', 'newer']);
+        expect(trips[0]).toBe(current);
+        expect(trips[2]).toBe(newer);
+        expect(rescored.map(r => r.id)).toEqual(['legacy']);
+    });
+
+    it('shows stored scores only when no older model produced them', () => {
+        const legacy = { ...trip('legacy', [braking(5)]), scores: { overall: 1, speed: 1, handling: 1, focus: 1, eventsPer100Km: 0, eventsPerHour: 0 } };
+        expect(tripScores(legacy)).toEqual(scoreFields(legacy).scores);
+
+        const newer = { ...legacy, scoringModelVersion: SCORING_MODEL.version + 1 };
+        expect(tripScores(newer)).toBe(newer.scores);
+    });
+});
@@ -0,0 +1,135 @@
+import type { DrivingEvent, DrivingEventType, LatLng, LightPhase, SeverityLevel, Trip, TripScores } from '../types';
+import { lightPhase } from './solar';
+
+// --- SCORING MODEL ---
+// The one place a trip's safety score is decided: the overall complianceScore, the Speed /
+// Handling / Focus sub-scores shown in the trip report, and how both are normalised for how much
+// driving the trip contained. Each trip records the version that scored it; changing anything
+// below means bumping `version`, and stored trips are rescored by recomputeTrips on next launch.
+//
+// Version history
+//   1: 100 - 5 per negative event, no sub-scores (trips without scoringModelVersion)
+//   2: severity-weighted events per unit of exposure, per category, exponential falloff
+//   3: events in twilight and darkness weigh more (sun elevation at the event's time and place)
+
+export type ScoreCategory = 'speed' | 'handling' | 'focus';
+
+export const SCORING_MODEL = {
+    version: 3,
+    CATEGORIES: {
+        speed: ['SPEEDING', 'SCHOOL_ZONE_SPEEDING', 'WEATHER_UNSAFE_SPEED', 'ROLLING_STOP'],
+        handling: ['HARSH_BRAKING', 'HARSH_ACCELERATION', 'SHARP_TURN', 'UNSAFE_CORNERING', 'AGGRESSIVE_LANE_CHANGE', 'CURVE_SPEEDING'],
+        focus: ['PHONE_TOUCH', 'PHONE_DISTRACTION', 'PHONE_NOT_STABLE']
+    } as Record<ScoreCategory, DrivingEventType[]>,
+    // Share of the overall score
+    WEIGHTS: { speed: 0.4, handling: 0.3, focus: 0.3 } as Record<ScoreCategory, number>,
+    // Weighted events per exposure unit that take a category from 100 to ~37 (1/e)
+    FALLOFF: { speed: 30, handling: 40, focus: 10 } as Record<ScoreCategory, number>,
+    SEVERITY_WEIGHT: { MINOR: 1, MODERATE: 2, SEVERE: 3, CRITICAL: 4 } as Record<SeverityLevel, number>,
+    UNRATED_WEIGHT: 1.5, // Events from before severity levels existed
+    // The same mistake is likelier to end badly when the driver, and others, can see less
+    LIGHT_WEIGHT: { day: 1, twilight: 1.25, night: 1.5 } as Record<LightPhase, number>,
+    // One exposure unit is 100 km or one hour, whichever the trip has more of, so neither slow
+    // town driving nor fast motorway driving is favoured. Short trips count as this much at least.
+    MIN_EXPOSURE_UNITS: 0.1,
+    // Trips from before speeding episodes have a penalty every few seconds of one stretch;
+    // ticks this close together are counted once
+    LEGACY_SPEEDING_GAP_MS: 20000
+};
+
+const categoryOf = (type: DrivingEventType): ScoreCategory | null => {
+    for (const category of Object.keys(SCORING_MODEL.CATEGORIES) as ScoreCategory[]) {
+        if (SCORING_MODEL.CATEGORIES[category].includes(type)) return category;
+    }
+    return null;
+};
+
+const weightOf = (event: DrivingEvent) =>
+    event.severityLevel ? SCORING_MODEL.SEVERITY_WEIGHT[event.severityLevel] : SCORING_MODEL.UNRATED_WEIGHT;
+
+// Events without a position of their own are placed at the start of the trip
+const lightWeightOf = (event: DrivingEvent, fallback: LatLng | undefined) => {
+    const at = event.lat !== undefined && event.lng !== undefined ? { lat: event.lat, lng: event.lng } : fallback;
+    return at ? SCORING_MODEL.LIGHT_WEIGHT[lightPhase(at.lat, at.lng, event.timestamp)] : 1;
+};
+
+// Penalised, non-disputed events, with legacy per-tick speeding folded into one per stretch
+// (keeping the worst tick's severity)
+const scoredEvents = (events: DrivingEvent[]): DrivingEvent[] => {
+    const result: DrivingEvent[] = [];
+    const openStretch: Partial<Record<DrivingEventType, DrivingEvent>> = {};
+    const sorted = events.filter(e => e.points < 0 && !e.disputed && categoryOf(e.type)).sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const event of sorted) {
+        const isLegacyTick = categoryOf(event.type) === 'speed' && !event.episode;
+        const previous = openStretch[event.type];
+        if (isLegacyTick && previous && event.timestamp - previous.timestamp <= SCORING_MODEL.LEGACY_SPEEDING_GAP_MS) {
+            const merged = weightOf(event) > weightOf(previous) ? { ...previous, severityLevel: event.severityLevel, timestamp: event.timestamp } : { ...previous, timestamp: event.timestamp };
+            result[result.indexOf(previous)] = merged;
+            openStretch[event.type] = merged;
+            continue;
+        }
+        result.push(event);
+        if (isLegacyTick) openStretch[event.type] = event;
+    }
+    return result;
+};
+
+export const scoreTrip = (trip: Pick<Trip, 'events' | 'distance' | 'duration' | 'path'>): TripScores => {
+    const events = scoredEvents(trip.events);
+    const start = trip.path?.[0];
+    const hours = trip.duration / 3600;
+    const exposure = Math.max(SCORING_MODEL.MIN_EXPOSURE_UNITS, trip.distance / 100, hours);
+
+    const categoryScore = (category: ScoreCategory) => {
+        const weighted = events.filter(e => categoryOf(e.type) === category).reduce((sum, e) => sum + weightOf(e) * lightWeightOf(e, start), 0);
+        return Math.round(100 * Math.exp(-(weighted / exposure) / SCORING_MODEL.FALLOFF[category]));
+    };
+    const speed = categoryScore('speed');
+    const handling = categoryScore('handling');
+    const focus = categoryScore('focus');
+    const { WEIGHTS } = SCORING_MODEL;
+
+    return {
+        overall: Math.round(speed * WEIGHTS.speed + handling * WEIGHTS.handling + focus * WEIGHTS.focus),
+        speed,
+        handling,
+        focus,
+        eventsPer100Km: trip.distance > 0 ? (events.length / trip.distance) * 100 : 0,
+        eventsPerHour: hours > 0 ? events.length / hours : 0
+    };
+};
+
+// The fields a scored trip carries
+export const scoreFields = (trip: Pick<Trip, 'events' | 'distance' | 'duration' | 'path'>): Pick<Trip, 'complianceScore' | 'scores' | 'scoringModelVersion'> => {
+    const scores = scoreTrip(trip);
+    return { complianceScore: scores.overall, scores, scoringModelVersion: SCORING_MODEL.version };
+};
+
+// Scored before the model was versioned
+const versionOf = (trip: Trip): number => trip.scoringModelVersion ?? 1;
+
+// Current scores for display: the stored ones unless an older model produced them. A newer app on
+// another device may have scored the trip already, and its scores stand.
+export const tripScores = (trip: Trip): TripScores =>
+    versionOf(trip) >= SCORING_MODEL.version && trip.scores ? trip.scores : scoreTrip(trip);
+
+export interface RescoredTrip {
+    id: string;
+    before: number;
+    after: number;
+}
+
+// Rescores every trip an older model version scored; newer ones are left alone so an outdated
+// install can't roll them back. Returns the updated list (same order)
+// and what changed, for syncing and for telling the user.
+export const recomputeTrips = (trips: Trip[]): { trips: Trip[], rescored: RescoredTrip[] } => {
+    const rescored: RescoredTrip[] = [];
+    const updated = trips.map(trip => {
+        if (versionOf(trip) >= SCORING_MODEL.version) return trip;
+        const fields = scoreFields(trip);
+        rescored.push({ id: trip.id, before: trip.complianceScore, after: fields.complianceScore });
+        return { ...trip, ...fields };
+    });
+    return { trips: updated, rescored };
+};
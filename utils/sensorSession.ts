@@ -0,0 +1,254 @@
+import type { PositionSample, MotionSample, OrientationSample } from '../types';
+import { clock } from './clock';
+import { locationProviders, LocationProvider, SensorSampleHandlers } from './locationProvider';
+
+// --- Sensor Session Recording & Replay ---
+// Format: NDJSON. Line 1 is a header object, every following line is a compact array
+// with a time offset (ms since `startedAt`) so a 1h drive stays in the low MBs:
+//   ["p", dt, lat, lng, speed|null, accuracy, heading|null]
+//   ["m", dt, ax, ay, az, rAlpha, rBeta, rGamma, gx?, gy?, gz?]  (g* = including gravity, when reported)
+//   ["o", dt, alpha, beta, gamma, absolute(0|1), compassHeading|null]
+
+const SESSION_FORMAT = 'safedrive-sensors';
+const SESSION_VERSION = 1;
+
+export interface SensorSessionHeader {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    startedAt: number;
+    userAgent?: string;
+}
+
+export type SensorSample =
+    | { kind: 'position'; sample: PositionSample }
+    | { kind: 'motion'; sample: MotionSample }
+    | { kind: 'orientation'; sample: OrientationSample };
+
+export interface SensorSession {
+    header: SensorSessionHeader;
+    samples: SensorSample[];
+}
+
+// Rounding keeps files compact: 7dp ≈ 1cm for coordinates, 3dp for everything else
+const round = (value: number | null, dp: number = 3): number | null => {
+    if (value === null || value === undefined || isNaN(value)) return null;
+    const f = Math.pow(10, dp);
+    return Math.round(value * f) / f;
+};
+
+export class SensorRecorder {
+    private lines: string[] = [];
+    private readonly header: SensorSessionHeader;
+
+    constructor(startedAt: number = clock.now()) {
+        this.header = {
+            format: SESSION_FORMAT,
+            version: SESSION_VERSION,
+            startedAt,
+            userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined
+        };
+    }
+
+    public recordPosition(s: PositionSample) {
+        this.push(['p', this.offset(s.timestamp), round(s.latitude, 7), round(s.longitude, 7), round(s.speed), round(s.accuracy, 1), round(s.heading, 1)]);
+    }
+
+    public recordMotion(s: MotionSample) {
+        const { acceleration: a, rotationRate: r, accelerationIncludingGravity: g } = s;
+        const row = ['m', this.offset(s.timestamp), round(a.x), round(a.y), round(a.z), round(r.alpha), round(r.beta), round(r.gamma)];
+        if (g) row.push(round(g.x), round(g.y), round(g.z));
+        this.push(row);
+    }
+
+    public recordOrientation(s: OrientationSample) {
+        this.push(['o', this.offset(s.timestamp), round(s.alpha, 2), round(s.beta, 2), round(s.gamma, 2), s.absolute ? 1 : 0, round(s.compassHeading, 1)]);
+    }
+
+    public get sampleCount(): number {
+        return this.lines.length;
+    }
+
+    public toNDJSON(): string {
+        return [JSON.stringify(this.header), ...this.lines].join('\n') + '\n';
+    }
+
+    private offset(timestamp: number): number {
+        return Math.max(0, Math.round(timestamp - this.header.startedAt));
+    }
+
+    private push(row: (string | number | null)[]) {
+        this.lines.push(JSON.stringify(row));
+    }
+}
+
+export const parseSensorSession = (ndjson: string): SensorSession => {
+    const lines = ndjson.split('\n').filter(line => line.trim().length > 0);
+    if (lines.length === 0) throw new Error('Sensor session is empty');
+
+    const header = JSON.parse(lines[0]) as SensorSessionHeader;
+    if (header.format !== SESSION_FORMAT) throw new Error('Not a SafeDrive sensor session');
+    if (header.version > SESSION_VERSION) throw new Error(`Unsupported sensor session version ${header.version}`);
+
+    const samples: SensorSample[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        const row = JSON.parse(lines[i]) as [string, number, ...(number | null)[]];
+        const timestamp = header.startedAt + row[1];
+
+        switch (row[0]) {
+            case 'p':
+                samples.push({ kind: 'position', sample: {
+                    timestamp, latitude: row[2] as number, longitude: row[3] as number,
+                    speed: row[4], accuracy: row[5] as number, heading: row[6]
+                } });
+                break;
+            case 'm':
+                samples.push({ kind: 'motion', sample: {
+                    timestamp,
+                    acceleration: { x: row[2], y: row[3], z: row[4] },
+                    rotationRate: { alpha: row[5], beta: row[6], gamma: row[7] },
+                    accelerationIncludingGravity: row.length > 8 ? { x: row[8], y: row[9], z: row[10] } : undefined
+                } });
+                break;
+            case 'o':
+                samples.push({ kind: 'orientation', sample: {
+                    timestamp, alpha: row[2], beta: row[3], gamma: row[4],
+                    absolute: row[5] === 1, compassHeading: row[6]
+                } });
+                break;
+            default:
+                // Unknown stream types from newer recorders are skipped, not fatal
+                break;
+        }
+    }
+
+    // Streams are written as they arrive; a stable sort guarantees a single timeline
+    samples.sort((a, b) => a.sample.timestamp - b.sample.timestamp);
+    return { header, samples };
+};
+
+// Feeds a recorded session back at `speed`x real time (Infinity = manual stepping only).
+// While running it owns the shared clock, so every Date-dependent decision downstream
+// sees the recorded timestamps and the resulting Trip/DrivingEvents are reproducible.
+export class SensorReplay implements LocationProvider {
+    public readonly id = 'replay';
+    private index = 0;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private handlers: SensorSampleHandlers | null = null;
+    private onComplete: (() => void) | null = null;
+    private currentTime: number;
+
+    constructor(private session: SensorSession, private speed: number = 1) {
+        this.currentTime = session.samples[0]?.sample.timestamp ?? session.header.startedAt;
+    }
+
+    public isAvailable(): boolean {
+        return true;
+    }
+
+    public start(handlers: SensorSampleHandlers, onComplete?: () => void) {
+        this.stop();
+        this.handlers = handlers;
+        this.onComplete = onComplete || null;
+        clock.setSource(() => this.currentTime);
+        if (isFinite(this.speed) && this.speed > 0) this.scheduleNext();
+    }
+
+    // Dispatches exactly one sample synchronously. Headless tests drive the replay with this.
+    public step(): boolean {
+        const next = this.session.samples[this.index];
+        if (!next || !this.handlers) return false;
+
+        this.index++;
+        this.currentTime = next.sample.timestamp;
+
+        if (next.kind === 'position') this.handlers.onPosition(next.sample);
+        else if (next.kind === 'motion') this.handlers.onMotion(next.sample);
+        else this.handlers.onOrientation(next.sample);
+
+        if (this.isFinished) this.onComplete?.();
+        return true;
+    }
+
+    public stop() {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.handlers = null;
+        clock.setSource(null);
+    }
+
+    // Rewind so the same instance can be replayed again from the first sample
+    public rewind() {
+        this.stop();
+        this.index = 0;
+        this.currentTime = this.session.samples[0]?.sample.timestamp ?? this.session.header.startedAt;
+    }
+
+    public get isFinished(): boolean {
+        return this.index >= this.session.samples.length;
+    }
+
+    public get progress(): number {
+        return this.session.samples.length === 0 ? 1 : this.index / this.session.samples.length;
+    }
+
+    private scheduleNext() {
+        const next = this.session.samples[this.index];
+        if (!next) return;
+
+        const delay = Math.max(0, (next.sample.timestamp - this.currentTime) / this.speed);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            if (this.step()) this.scheduleNext();
+        }, delay);
+    }
+}
+
+// --- Dev Session Registry ---
+// A loaded replay becomes the location provider override, and an active recorder
+// receives every raw sample useGeolocation handles, whichever provider produced it.
+let activeRecorder: SensorRecorder | null = null;
+let activeReplay: SensorReplay | null = null;
+
+export const sensorSession = {
+    startRecording(): SensorRecorder {
+        activeRecorder = new SensorRecorder();
+        return activeRecorder;
+    },
+
+    stopRecording(): SensorRecorder | null {
+        const recorder = activeRecorder;
+        activeRecorder = null;
+        return recorder;
+    },
+
+    getRecorder(): SensorRecorder | null {
+        return activeRecorder;
+    },
+
+    loadReplay(ndjson: string, speed: number = 1): SensorReplay {
+        activeReplay?.stop();
+        activeReplay = new SensorReplay(parseSensorSession(ndjson), speed);
+        locationProviders.setOverride(activeReplay);
+        return activeReplay;
+    },
+
+    clearReplay() {
+        activeReplay?.stop();
+        if (activeReplay && locationProviders.getOverride() === activeReplay) locationProviders.setOverride(null);
+        activeReplay = null;
+    },
+
+    getReplay(): SensorReplay | null {
+        return activeReplay;
+    },
+
+    download(recorder: SensorRecorder, filename: string = `safedrive-session-${Date.now()}.ndjson`) {
+        const blob = new Blob([recorder.toNDJSON()], { type: 'application/x-ndjson' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+};
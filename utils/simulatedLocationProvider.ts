@@ -0,0 +1,93 @@
+import type { LatLng } from '../types';
+import type { LocationProvider, LocationProviderHandlers } from './locationProvider';
+
+// Desk-testing provider: drives a constant-speed arc from `origin` and emits matching
+// GPS fixes and accelerometer samples (centripetal force while turning).
+
+export interface SimulatedDriveOptions {
+    origin: LatLng;
+    speedKmh?: number;
+    heading?: number; // Initial course, degrees from north
+    turnRateDegPerSec?: number; // 0 = straight line
+    intervalMs?: number; // GPS fix interval
+    accuracy?: number; // Reported fix accuracy (m)
+}
+
+const EARTH_RADIUS_M = 6371e3;
+const DEG_TO_RAD = Math.PI / 180;
+const MOTION_SAMPLES_PER_FIX = 5;
+
+export class SimulatedLocationProvider implements LocationProvider {
+    public readonly id = 'simulated';
+    private timer: ReturnType<typeof setInterval> | null = null;
+    private position: LatLng;
+    private heading: number;
+    private tick = 0;
+    private options: Required<SimulatedDriveOptions>;
+
+    constructor(options: SimulatedDriveOptions) {
+        this.options = { speedKmh: 50, heading: 0, turnRateDegPerSec: 0, intervalMs: 1000, accuracy: 5, ...options };
+        this.position = { ...options.origin };
+        this.heading = this.options.heading;
+    }
+
+    public isAvailable(): boolean {
+        return true;
+    }
+
+    public start(handlers: LocationProviderHandlers) {
+        this.stop();
+        const { intervalMs } = this.options;
+
+        this.timer = setInterval(() => {
+            this.emitMotion(handlers);
+            if (++this.tick % MOTION_SAMPLES_PER_FIX === 0) {
+                this.advance(intervalMs / 1000);
+                this.emitPosition(handlers);
+            }
+        }, intervalMs / MOTION_SAMPLES_PER_FIX);
+    }
+
+    public stop() {
+        if (this.timer) clearInterval(this.timer);
+        this.timer = null;
+    }
+
+    public async getCurrentPosition() {
+        return { timestamp: Date.now(), latitude: this.position.lat, longitude: this.position.lng, speed: 0, accuracy: this.options.accuracy, heading: null };
+    }
+
+    private advance(dt: number) {
+        const { speedKmh, turnRateDegPerSec } = this.options;
+        const distance = (speedKmh / 3.6) * dt;
+        const rad = this.heading * DEG_TO_RAD;
+
+        this.position = {
+            lat: this.position.lat + (distance * Math.cos(rad)) / EARTH_RADIUS_M / DEG_TO_RAD,
+            lng: this.position.lng + (distance * Math.sin(rad)) / (EARTH_RADIUS_M * Math.cos(this.position.lat * DEG_TO_RAD)) / DEG_TO_RAD
+        };
+        this.heading = (this.heading + turnRateDegPerSec * dt + 360) % 360;
+    }
+
+    private emitPosition(handlers: LocationProviderHandlers) {
+        handlers.onPosition({
+            timestamp: Date.now(),
+            latitude: this.position.lat,
+            longitude: this.position.lng,
+            speed: this.options.speedKmh / 3.6,
+            accuracy: this.options.accuracy,
+            heading: this.heading
+        });
+    }
+
+    private emitMotion(handlers: LocationProviderHandlers) {
+        const { speedKmh, turnRateDegPerSec } = this.options;
+        // a = v·ω, positive x = towards the right of the phone for a right-hand (clockwise) turn
+        const lateral = (speedKmh / 3.6) * turnRateDegPerSec * DEG_TO_RAD;
+        handlers.onMotion({
+            timestamp: Date.now(),
+            acceleration: { x: lateral, y: 0, z: 0 },
+            rotationRate: { alpha: -turnRateDegPerSec, beta: 0, gamma: 0 }
+        });
+    }
+}
@@ -1,5 +1,5 @@
 
-import { calculateDistance } from './helpers';
+import { clamp } from './helpers';
 
 // Helper: Linear Interpolation
 export const lerp = (start: number, end: number, t: number) => {
@@ -60,65 +60,210 @@ export class MovingAverage {
   }
 }
 
-export class SpeedEstimator {
-    private smoothedSpeed: number = 0;
-    private lastPos: { lat: number; lng: number; time: number } | null = null;
-    private alpha: number;
+// --- Sensor Fusion: Kalman Filter (Position + Velocity) ---
+// State per axis: [position (m), velocity (m/s)] on a local East/North tangent plane
+// anchored at the first fix. Longitudinal acceleration from the accelerometer enters
+// as the control input; GPS fixes correct the state with `accuracy` as measurement noise.
+// Axes are filtered independently (2x2 covariance each), which is exact while the
+// process noise is isotropic and keeps each step O(1) with no matrix allocations.
+const EARTH_RADIUS_M = 6371e3;
+const DEG_TO_RAD = Math.PI / 180;
 
-    constructor(smoothingFactor: number = 0.3) {
-        this.alpha = smoothingFactor;
+interface AxisState {
+    pos: number;
+    vel: number;
+    p00: number; // Position variance (m²)
+    p01: number; // Position/velocity covariance
+    p11: number; // Velocity variance (m²/s²)
+}
+
+export interface KalmanEstimate {
+    latitude: number;
+    longitude: number;
+    speedKmh: number;
+    speedConfidence: number; // 0.0 - 1.0
+}
+
+const createAxis = (pos: number, vel: number, posVar: number, velVar: number): AxisState => ({
+    pos, vel, p00: posVar, p01: 0, p11: velVar
+});
+
+// Constant-acceleration prediction: x' = F·x + B·u, P' = F·P·Fᵀ + Q
+const predictAxis = (s: AxisState, dt: number, accel: number, accelVar: number) => {
+    const dt2 = dt * dt;
+    s.pos += s.vel * dt + 0.5 * accel * dt2;
+    s.vel += accel * dt;
+
+    s.p00 += 2 * dt * s.p01 + dt2 * s.p11 + accelVar * dt2 * dt2 / 4;
+    s.p01 += dt * s.p11 + accelVar * dt2 * dt / 2;
+    s.p11 += accelVar * dt2;
+};
+
+const correctPosition = (s: AxisState, z: number, r: number) => {
+    const innovationVar = s.p00 + r;
+    const k0 = s.p00 / innovationVar;
+    const k1 = s.p01 / innovationVar;
+    const residual = z - s.pos;
+
+    s.pos += k0 * residual;
+    s.vel += k1 * residual;
+    s.p11 -= k1 * s.p01;
+    s.p00 *= 1 - k0;
+    s.p01 *= 1 - k0;
+};
+
+const correctVelocity = (s: AxisState, z: number, r: number) => {
+    const innovationVar = s.p11 + r;
+    const k0 = s.p01 / innovationVar;
+    const k1 = s.p11 / innovationVar;
+    const residual = z - s.vel;
+
+    s.pos += k0 * residual;
+    s.vel += k1 * residual;
+    s.p00 -= k0 * s.p01;
+    s.p01 *= 1 - k1;
+    s.p11 *= 1 - k1;
+};
+
+export class KalmanPositionFilter {
+    private origin: { lat: number; lng: number; cosLat: number } | null = null;
+    private east: AxisState = createAxis(0, 0, 0, 0);
+    private north: AxisState = createAxis(0, 0, 0, 0);
+    private lastTime: number = 0;
+    private lastHeading: number | null = null;
+    private accelVar: number;
+    private longitudinalAccel = new MovingAverage(10);
+
+    // Beyond this velocity std-dev (m/s) the speed is considered untrustworthy (confidence 0)
+    private static readonly MAX_SPEED_SIGMA = 3.0;
+    // Gaps longer than this re-initialise the filter instead of predicting across them
+    private static readonly MAX_PREDICT_GAP_S = 30;
+    private static readonly MAX_CONTROL_ACCEL = 10; // m/s², clamp for bumps & phone handling
+
+    constructor(accelNoise: number = 1.5) {
+        this.accelVar = accelNoise * accelNoise;
     }
 
-    public update(lat: number, lng: number, rawSpeedMps: number | null, accuracy: number): number {
-        const now = Date.now();
-        let computedSpeedKmh = 0;
-        let gpsSpeedKmh = (rawSpeedMps || 0) * 3.6;
-
-        // 1. Calculate Computed Speed (Distance / Time)
-        if (this.lastPos) {
-            const dt = (now - this.lastPos.time) / 1000; // seconds
-            if (dt > 0.5) { 
-                const distMeters = calculateDistance(
-                    { latitude: this.lastPos.lat, longitude: this.lastPos.lng },
-                    { latitude: lat, longitude: lng }
-                );
-                computedSpeedKmh = (distMeters / dt) * 3.6;
-            }
-        }
+    // Feed the latest longitudinal acceleration (m/s², positive = forward) from DeviceMotion.
+    // It is smoothed here and applied during the next prediction step.
+    public setControlInput(longitudinalAccel: number | null) {
+        if (longitudinalAccel === null || isNaN(longitudinalAccel)) return;
+        const limit = KalmanPositionFilter.MAX_CONTROL_ACCEL;
+        this.longitudinalAccel.add(clamp(longitudinalAccel, -limit, limit));
+    }
 
-        // 2. Sensor Fusion logic
-        let targetSpeed = 0;
+    public update(
+        lat: number,
+        lng: number,
+        rawSpeedMps: number | null,
+        accuracy: number,
+        heading: number | null,
+        timestamp: number = Date.now()
+    ): KalmanEstimate {
+        const hasHeading = heading !== null && !isNaN(heading);
+        if (hasHeading) this.lastHeading = heading;
 
-        // If GPS reports speed and is accurate, trust it heavily
-        if (rawSpeedMps !== null && accuracy < 20) {
-            targetSpeed = gpsSpeedKmh;
-        } 
-        // Fallback: If GPS speed is 0 but we moved > 10m, it's likely drift or sudden start
-        else if (gpsSpeedKmh < 3 && computedSpeedKmh > 15) {
-            targetSpeed = 0; // Filter jumps
+        const dt = (timestamp - this.lastTime) / 1000;
+        if (!this.origin || dt > KalmanPositionFilter.MAX_PREDICT_GAP_S || dt < 0) {
+            this.initialise(lat, lng, rawSpeedMps, accuracy, heading);
+            this.lastTime = timestamp;
+            return this.getEstimate();
         }
-        else {
-            // Blend based on reliability
-            const weight = accuracy < 50 ? 0.7 : 0.3;
-            targetSpeed = (gpsSpeedKmh * weight) + (computedSpeedKmh * (1 - weight));
+
+        // 1. Predict
+        if (dt > 0) {
+            const { east: accelE, north: accelN } = this.getControlVector();
+            predictAxis(this.east, dt, accelE, this.accelVar);
+            predictAxis(this.north, dt, accelN, this.accelVar);
+            this.lastTime = timestamp;
         }
 
-        this.lastPos = { lat, lng, time: now };
+        // 2. Correct with GPS position (accuracy is the 1-sigma radius in metres)
+        const { east: zE, north: zN } = this.toLocal(lat, lng);
+        const posVar = Math.max(1, accuracy * accuracy);
+        correctPosition(this.east, zE, posVar);
+        correctPosition(this.north, zN, posVar);
 
-        // 3. Low Pass Filter (EMA)
-        if (Math.abs(targetSpeed - this.smoothedSpeed) > 30) {
-            this.smoothedSpeed = targetSpeed; // Snap on huge delta
-        } else {
-            this.smoothedSpeed = this.smoothedSpeed + this.alpha * (targetSpeed - this.smoothedSpeed);
+        // 3. Correct with GPS Doppler velocity when it can be decomposed into E/N
+        const velocity = this.toVelocityVector(rawSpeedMps, hasHeading ? heading : null);
+        if (velocity) {
+            const velVar = this.getVelocityMeasurementVariance(accuracy);
+            correctVelocity(this.east, velocity.east, velVar);
+            correctVelocity(this.north, velocity.north, velVar);
         }
 
-        // Hard clamp low speeds to 0 to prevent UI creep
-        return this.smoothedSpeed < 2.0 ? 0 : this.smoothedSpeed;
+        return this.getEstimate();
     }
-    
+
+    public getSpeedConfidence(): number {
+        if (!this.origin) return 0;
+        const sigma = Math.sqrt((this.east.p11 + this.north.p11) / 2);
+        return clamp(1 - sigma / KalmanPositionFilter.MAX_SPEED_SIGMA, 0, 1);
+    }
+
     public reset() {
-        this.smoothedSpeed = 0;
-        this.lastPos = null;
+        this.origin = null;
+        this.east = createAxis(0, 0, 0, 0);
+        this.north = createAxis(0, 0, 0, 0);
+        this.lastTime = 0;
+        this.lastHeading = null;
+        this.longitudinalAccel.reset();
+    }
+
+    private initialise(lat: number, lng: number, rawSpeedMps: number | null, accuracy: number, heading: number | null) {
+        this.origin = { lat, lng, cosLat: Math.cos(lat * DEG_TO_RAD) };
+        this.longitudinalAccel.reset();
+
+        const posVar = Math.max(1, accuracy * accuracy);
+        const velocity = this.toVelocityVector(rawSpeedMps, heading);
+        // Without a usable velocity we start at rest with a wide (10 m/s) prior
+        const velVar = velocity ? this.getVelocityMeasurementVariance(accuracy) : 100;
+
+        this.east = createAxis(0, velocity?.east ?? 0, posVar, velVar);
+        this.north = createAxis(0, velocity?.north ?? 0, posVar, velVar);
+    }
+
+    // Doppler speed degrades with fix quality; never trust it below 0.5 m/s std-dev
+    private getVelocityMeasurementVariance(accuracy: number): number {
+        const sigma = Math.max(0.5, accuracy / 10);
+        return sigma * sigma;
+    }
+
+    private toVelocityVector(speedMps: number | null, heading: number | null): { east: number; north: number } | null {
+        if (speedMps === null || isNaN(speedMps) || speedMps < 0) return null;
+        // Browsers report a null/NaN heading while stationary, so a zero speed is still usable
+        if (heading === null) return speedMps < 0.5 ? { east: 0, north: 0 } : null;
+        const rad = heading * DEG_TO_RAD;
+        return { east: speedMps * Math.sin(rad), north: speedMps * Math.cos(rad) };
+    }
+
+    private getControlVector(): { east: number; north: number } {
+        const speed = Math.hypot(this.east.vel, this.north.vel);
+        // Below walking pace the accelerometer mostly measures the phone being handled
+        if (speed < 1 || this.lastHeading === null) return { east: 0, north: 0 };
+        const accel = this.longitudinalAccel.getAverage();
+        const rad = this.lastHeading * DEG_TO_RAD;
+        return { east: accel * Math.sin(rad), north: accel * Math.cos(rad) };
+    }
+
+    private toLocal(lat: number, lng: number): { east: number; north: number } {
+        const o = this.origin!;
+        return {
+            east: (lng - o.lng) * DEG_TO_RAD * EARTH_RADIUS_M * o.cosLat,
+            north: (lat - o.lat) * DEG_TO_RAD * EARTH_RADIUS_M
+        };
+    }
+
+    private getEstimate(): KalmanEstimate {
+        const o = this.origin!;
+        const speedKmh = Math.hypot(this.east.vel, this.north.vel) * 3.6;
+        return {
+            latitude: o.lat + this.north.pos / EARTH_RADIUS_M / DEG_TO_RAD,
+            longitude: o.lng + this.east.pos / (EARTH_RADIUS_M * o.cosLat) / DEG_TO_RAD,
+            // Hard clamp low speeds to 0 to prevent UI creep
+            speedKmh: speedKmh < 2.0 ? 0 : speedKmh,
+            speedConfidence: this.getSpeedConfidence()
+        };
     }
 }
 
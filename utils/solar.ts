@@ -0,0 +1,60 @@
+import type { LightPhase, LightSplit } from '../types';
+
+// --- SOLAR POSITION ---
+// Where the sun is, worked out on the device from the date and coordinates (the low-precision
+// almanac formulas, good to about a minute of sunrise / sunset), so day and night are known
+// without a network lookup.
+
+const DEG_TO_RAD = Math.PI / 180;
+const J2000_MS = Date.UTC(2000, 0, 1, 12); // Epoch of the formulas below
+
+// Sunrise and sunset: the upper limb on the horizon, allowing for refraction
+const SUNRISE_ELEVATION_DEG = -0.833;
+// End of civil twilight: below this it's dark enough for headlights
+const CIVIL_DUSK_ELEVATION_DEG = -6;
+
+const normalise = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// Sun's elevation above the horizon in degrees, negative below it
+export const solarElevation = (lat: number, lng: number, at: number): number => {
+    const days = (at - J2000_MS) / 86400000;
+
+    const meanAnomaly = normalise(357.529 + 0.98560028 * days) * DEG_TO_RAD;
+    const meanLongitude = normalise(280.459 + 0.98564736 * days);
+    const eclipticLongitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * DEG_TO_RAD;
+    const obliquity = (23.439 - 0.00000036 * days) * DEG_TO_RAD;
+
+    const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(eclipticLongitude), Math.cos(eclipticLongitude)) / DEG_TO_RAD;
+    const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+
+    const siderealDegrees = normalise(280.46061837 + 360.98564736629 * days + lng);
+    const hourAngle = (siderealDegrees - rightAscension) * DEG_TO_RAD;
+    const latRad = lat * DEG_TO_RAD;
+
+    return Math.asin(
+        Math.sin(latRad) * Math.sin(declination) + Math.cos(latRad) * Math.cos(declination) * Math.cos(hourAngle)
+    ) / DEG_TO_RAD;
+};
+
+export const lightPhase = (lat: number, lng: number, at: number): LightPhase => {
+    const elevation = solarElevation(lat, lng, at);
+    if (elevation > SUNRISE_ELEVATION_DEG) return 'day';
+    if (elevation > CIVIL_DUSK_ELEVATION_DEG) return 'twilight';
+    return 'night';
+};
+
+export const LIGHT_PHASES: LightPhase[] = ['day', 'twilight', 'night'];
+
+export const emptyLightSplit = (): LightSplit => ({
+    day: { distance: 0, duration: 0 },
+    twilight: { distance: 0, duration: 0 },
+    night: { distance: 0, duration: 0 }
+});
+
+export const addLightSplits = (a: LightSplit, b: LightSplit): LightSplit => {
+    const sum = emptyLightSplit();
+    for (const phase of LIGHT_PHASES) {
+        sum[phase] = { distance: a[phase].distance + b[phase].distance, duration: a[phase].duration + b[phase].duration };
+    }
+    return sum;
+};
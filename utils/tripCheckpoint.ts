@@ -0,0 +1,81 @@
+import type { DrivingEvent, IntersectionPassage, LatLng, LightSplit, RecordingGap, TripSegment, WeatherCondition } from '../types';
+import type { SpeedSample } from './tripClassifier';
+
+// --- TRIP CHECKPOINT ---
+// Everything useTrip keeps about the trip in progress, saved to IndexedDB every few seconds so a
+// reload, an OOM kill or a closed tab mid-drive can be picked up on the next launch. There is only
+// ever one: it is overwritten while the trip runs and deleted when the trip ends.
+// Where IndexedDB is missing there is nothing to come back to, and nothing is saved.
+
+export interface TripCheckpoint {
+    savedAt: number;
+    startTime: number;
+    autoRecorded: boolean;
+    distance: number; // km
+    points: number; // Accumulated so far, before the end-of-trip adjustments
+    rewardEligible: boolean;
+    driverConfidence: number;
+    maxSpeed: number;
+    distractionCount: number;
+    events: DrivingEvent[];
+    path: LatLng[]; // Uncompressed
+    recordingGaps: RecordingGap[]; // Indices into `path`
+    segments: TripSegment[]; // The open one closed at savedAt
+    speedTrace: SpeedSample[];
+    weatherSeconds: Partial<Record<WeatherCondition, number>>; // Spans closed at savedAt
+    lightSplit: LightSplit; // Likewise
+    intersections: IntersectionPassage[];
+}
+
+const DB_NAME = 'safedrive-trip';
+const DB_VERSION = 1;
+const STORE = 'checkpoint';
+const KEY = 'active';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            console.warn('Trip checkpoints unavailable', request.error);
+            resolve(null);
+        };
+    });
+    return dbPromise;
+};
+
+// One readwrite or readonly request against the store; failures are logged, never thrown, so a
+// full disk can't take the trip down with it
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | null> => {
+    const db = await openDb();
+    if (!db) return null;
+    try {
+        const request = action(db.transaction(STORE, mode).objectStore(STORE));
+        return await new Promise<T>((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } catch (e) {
+        console.warn('Trip checkpoint failed', e);
+        return null;
+    }
+};
+
+export const tripCheckpoint = {
+    async save(checkpoint: TripCheckpoint): Promise<void> {
+        await run('readwrite', store => store.put(checkpoint, KEY));
+    },
+
+    async load(): Promise<TripCheckpoint | null> {
+        return (await run<TripCheckpoint | undefined>('readonly', store => store.get(KEY))) ?? null;
+    },
+
+    async clear(): Promise<void> {
+        await run('readwrite', store => store.delete(KEY));
+    }
+};
@@ -0,0 +1,175 @@
+import type { DrivingEvent, ModeOfTransport, TripValidity } from '../types';
+import type { TransitProximity } from './osm';
+import { TRIP_CLASSIFIER_CONFIG } from './config';
+import { calculateDistance, clamp } from './helpers';
+
+// --- TRIP CLASSIFIER ---
+// Decides after the fact what kind of journey a recording was. Each non-driving explanation
+// (train, bus, passenger) gets a 0-1 score from the whole trip; the strongest one over the
+// threshold wins, otherwise it was a drive. Pure: the caller gathers samples and transit data.
+
+export interface SpeedSample {
+    timestamp: number;
+    speed: number; // km/h
+    lat: number;
+    lng: number;
+}
+
+export interface TripClassifierInput {
+    samples: SpeedSample[];
+    events: DrivingEvent[];
+    maxSpeed: number; // km/h
+    distanceKm: number;
+    driverConfidence: number;
+    rewardEligible: boolean; // False once phone use has invalidated the trip
+    transit: TransitProximity | null; // Null when Overpass was unreachable or the trip too short
+}
+
+export interface TripClassificationResult {
+    mode: ModeOfTransport;
+    validity: TripValidity;
+    confidence: number;
+    reasons: string[];
+    passengerDetected: boolean;
+}
+
+interface Stop {
+    start: number;
+    end: number;
+    lat: number;
+    lng: number;
+}
+
+// Calls the user can contest from trip history. Handheld use is a violation, not a classification.
+export const CONTESTABLE_VALIDITIES: TripValidity[] = ['INVALID_TRAIN', 'INVALID_BUS', 'INVALID_PASSENGER'];
+
+const pct = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// Contiguous runs below the stopped speed
+export const findStops = (samples: SpeedSample[]): Stop[] => {
+    const stops: Stop[] = [];
+    let current: Stop | null = null;
+    for (const s of samples) {
+        if (s.speed <= TRIP_CLASSIFIER_CONFIG.STOPS.STOPPED_SPEED_KMH) {
+            if (!current) current = { start: s.timestamp, end: s.timestamp, lat: s.lat, lng: s.lng };
+            else current.end = s.timestamp;
+        } else if (current) {
+            stops.push(current);
+            current = null;
+        }
+    }
+    if (current) stops.push(current);
+    return stops;
+};
+
+// Boarding stops: short dwells at regular, close spacing. Traffic lights produce some of these
+// too, which is why the pattern alone can't reach the decision threshold (see scoreBus).
+const scoreStopPattern = (samples: SpeedSample[], distanceKm: number): { score: number, count: number } => {
+    const config = TRIP_CLASSIFIER_CONFIG.STOPS;
+    const dwellStops = findStops(samples).filter(s => {
+        const dwell = s.end - s.start;
+        return dwell >= config.MIN_DWELL_MS && dwell <= config.MAX_DWELL_MS;
+    });
+    if (dwellStops.length < config.MIN_COUNT || distanceKm <= 0) return { score: 0, count: dwellStops.length };
+
+    const spacings = dwellStops.slice(1).map((s, i) =>
+        calculateDistance({ latitude: dwellStops[i].lat, longitude: dwellStops[i].lng }, { latitude: s.lat, longitude: s.lng })
+    );
+    const regular = spacings.filter(d => d >= config.MIN_SPACING_M && d <= config.MAX_SPACING_M).length / spacings.length;
+    const density = clamp((dwellStops.length / distanceKm) / config.BUS_STOPS_PER_KM, 0, 1);
+    return { score: density * regular, count: dwellStops.length };
+};
+
+// Touches the engine penalised while the vehicle held a steady speed. Drivers touch the phone
+// when it's quiet too, but only passengers keep doing it without the speed wavering.
+export const countSteadySpeedTouches = (events: DrivingEvent[], samples: SpeedSample[]): number => {
+    const config = TRIP_CLASSIFIER_CONFIG.STEADY_TOUCH;
+    return events.filter(e => e.type === 'PHONE_TOUCH').filter(touch => {
+        const around = samples.filter(s => Math.abs(s.timestamp - touch.timestamp) <= config.WINDOW_MS);
+        if (around.length < 2) return false;
+        const speeds = around.map(s => s.speed);
+        const min = Math.min(...speeds);
+        return min >= config.MIN_SPEED_KMH && Math.max(...speeds) - min <= config.MAX_SPREAD_KMH;
+    }).length;
+};
+
+const scoreTrain = (input: TripClassifierInput, reasons: string[]): number => {
+    if (input.maxSpeed > TRIP_CLASSIFIER_CONFIG.TRAIN_MIN_SPEED_KMH) {
+        reasons.push(`Top speed of ${Math.round(input.maxSpeed)} km/h`);
+        return 0.95;
+    }
+    if (!input.transit || input.transit.railFraction === 0) return 0;
+    reasons.push(`${pct(input.transit.railFraction)} of the route follows railway track`);
+    return input.transit.railFraction * TRIP_CLASSIFIER_CONFIG.TRANSIT.RAIL_WEIGHT;
+};
+
+const scoreBus = (input: TripClassifierInput, reasons: string[]): number => {
+    const pattern = scoreStopPattern(input.samples, input.distanceKm);
+    if (pattern.score > 0) reasons.push(`${pattern.count} short stops spaced like bus stops`);
+
+    // Without route geometry the stop pattern is capped below the threshold
+    if (!input.transit) return pattern.score * 0.5;
+    if (input.transit.busRouteFraction > 0) reasons.push(`${pct(input.transit.busRouteFraction)} of the route is on a bus line`);
+    return (pattern.score + input.transit.busRouteFraction) / 2;
+};
+
+const scorePassenger = (input: TripClassifierInput, reasons: string[]): number => {
+    const config = TRIP_CLASSIFIER_CONFIG;
+    let score = 0;
+
+    const steadyTouches = countSteadySpeedTouches(input.events, input.samples);
+    if (steadyTouches >= config.STEADY_TOUCH.MIN_COUNT) {
+        reasons.push(`Phone used ${steadyTouches} times while cruising steadily`);
+        score = Math.min(0.9, 0.5 + 0.1 * steadyTouches);
+    }
+    if (input.driverConfidence < config.PASSENGER_CONFIDENCE) {
+        reasons.push('Phone setup and use point to a passenger');
+        score = Math.max(score, 1 - input.driverConfidence);
+    }
+    return score;
+};
+
+export const classifyTrip = (input: TripClassifierInput): TripClassificationResult => {
+    const config = TRIP_CLASSIFIER_CONFIG;
+
+    if (input.maxSpeed < config.WALK_MAX_SPEED_KMH) {
+        return {
+            mode: 'walk',
+            validity: input.rewardEligible ? 'VALID' : 'INVALID_HANDHELD',
+            confidence: 0.8,
+            reasons: [`Never faster than ${config.WALK_MAX_SPEED_KMH} km/h`],
+            passengerDetected: false
+        };
+    }
+
+    const trainReasons: string[] = [];
+    const busReasons: string[] = [];
+    const passengerReasons: string[] = [];
+    const candidates = [
+        { mode: 'train' as const, validity: 'INVALID_TRAIN' as const, score: scoreTrain(input, trainReasons), reasons: trainReasons },
+        { mode: 'bus' as const, validity: 'INVALID_BUS' as const, score: scoreBus(input, busReasons), reasons: busReasons },
+        { mode: 'car' as const, validity: 'INVALID_PASSENGER' as const, score: scorePassenger(input, passengerReasons), reasons: passengerReasons }
+    ];
+    const best = candidates.reduce((a, b) => (b.score > a.score ? b : a));
+
+    // Riding something explains the phone use better than a handheld violation does
+    if (best.score >= config.DECISION_THRESHOLD) {
+        return {
+            mode: best.mode,
+            validity: best.validity,
+            confidence: best.score,
+            reasons: best.reasons,
+            passengerDetected: best.validity === 'INVALID_PASSENGER'
+        };
+    }
+
+    const reasons = input.transit ? ['Route matches normal road driving'] : ['No transit route data; judged on speed and stops only'];
+    if (!input.rewardEligible) reasons.push('Repeated handheld phone use');
+    return {
+        mode: 'car',
+        validity: input.rewardEligible ? 'VALID' : 'INVALID_HANDHELD',
+        confidence: 1 - best.score,
+        reasons,
+        passengerDetected: false
+    };
+};
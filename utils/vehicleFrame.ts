@@ -0,0 +1,223 @@
+import type { DeviceMotionData, DeviceOrientationData, SetupMode } from '../types';
+import { clock } from './clock';
+
+// --- Phone-to-Vehicle Frame Alignment ---
+// The phone can sit at any angle in a mount, a cup holder or a pocket, so its raw x/y axes say
+// nothing about "forward" or "sideways" for the car. The aligner works out two axes in the
+// phone's own coordinates:
+//   up      - opposite to gravity, low-passed from accelerationIncludingGravity (or derived
+//             from beta/gamma when the platform only reports orientation)
+//   forward - horizontal direction the phone feels pushed along whenever GPS says the car is
+//             clearly speeding up or slowing down in a straight line
+// Every motion sample is then projected onto forward / right / up. The learned axes are
+// persisted per vehicle and mount so the next trip starts aligned.
+
+export type Vec3 = [number, number, number];
+
+export interface VehicleFrameCalibration {
+    up: Vec3;
+    forward: Vec3;
+    weight: number; // Accumulated evidence behind `forward`, in m/s² of observed speed change
+    updatedAt: number;
+}
+
+export interface VehicleMotion {
+    longitudinal: number; // m/s², positive = accelerating forward
+    lateral: number;      // m/s², positive = pushed towards the right (right-hand turn)
+    vertical: number;     // m/s², positive = upwards
+    yawRate: number;      // deg/s, positive = turning left (counter-clockwise seen from above)
+}
+
+const GRAVITY = 9.81;
+const DEG_TO_RAD = Math.PI / 180;
+
+const GRAVITY_SMOOTHING = 0.02;       // Low-pass factor per motion sample (~1s at 60Hz)
+const MIN_SPEED_CHANGE = 1.0;         // m/s², GPS-derived dv/dt needed before a window teaches us anything
+const MIN_HORIZONTAL_ACCEL = 0.5;     // m/s², phone must actually feel the push
+const MAX_TURN_RATE = 5;              // deg/s, cornering windows mix in centripetal force
+const MIN_FIX_INTERVAL_S = 0.5;
+const MAX_FIX_INTERVAL_S = 3;
+const MIN_LEARNED_WEIGHT = 5;         // Below this the mount-based prior is used instead
+const MAX_LEARNED_WEIGHT = 60;        // Cap so the estimate keeps adapting to slow mount creep
+const REMOUNT_ANGLE_DEG = 25;         // Gravity moving this far means the phone was re-positioned
+
+// --- Vector helpers ---
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const scale = (a: Vec3, k: number): Vec3 => [a[0] * k, a[1] * k, a[2] * k];
+const add = (a: Vec3, b: Vec3): Vec3 => [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const normalize = (a: Vec3): Vec3 | null => {
+    const len = length(a);
+    return len > 1e-6 ? scale(a, 1 / len) : null;
+};
+// Component of `a` perpendicular to unit vector `n`
+const horizontal = (a: Vec3, n: Vec3): Vec3 => sub(a, scale(n, dot(a, n)));
+
+const toVec = (v: { x: number | null; y: number | null; z: number | null } | undefined): Vec3 | null => {
+    if (!v || v.x === null || v.y === null || v.z === null) return null;
+    if (isNaN(v.x) || isNaN(v.y) || isNaN(v.z)) return null;
+    return [v.x, v.y, v.z];
+};
+
+// W3C device orientation: beta tilts about x, gamma about y. Gravity "up" in device axes.
+export const upFromOrientation = (orientation: DeviceOrientationData | null): Vec3 | null => {
+    if (!orientation || orientation.beta === null || orientation.gamma === null) return null;
+    const b = orientation.beta * DEG_TO_RAD;
+    const g = orientation.gamma * DEG_TO_RAD;
+    return normalize([-Math.sin(g) * Math.cos(b), Math.sin(b), Math.cos(b) * Math.cos(g)]);
+};
+
+export const calibrationKey = (vehicleId: string | null | undefined, setupMode: SetupMode | null) =>
+    `${vehicleId || 'default'}:${setupMode || 'mount'}`;
+
+export class VehicleFrameAligner {
+    private up: Vec3 = [0, 0, 1]; // Flat on its back until told otherwise
+    private hasGravity = false;
+    private forwardSum: Vec3 = [0, 0, 0];
+    private learnedWeight = 0;
+
+    // Linear acceleration accumulated between two GPS fixes
+    private windowSum: Vec3 = [0, 0, 0];
+    private windowCount = 0;
+    private lastFix: { speedMps: number; heading: number | null; time: number } | null = null;
+
+    constructor(calibration: VehicleFrameCalibration | null = null) {
+        if (calibration) this.load(calibration);
+    }
+
+    public load(calibration: VehicleFrameCalibration) {
+        const up = normalize(calibration.up);
+        const forward = normalize(calibration.forward);
+        if (!up || !forward) return;
+        this.up = up;
+        this.forwardSum = scale(forward, calibration.weight);
+        this.learnedWeight = calibration.weight;
+    }
+
+    // Gravity from beta/gamma: the setup-time reading seeds the estimate, and live readings keep
+    // it current on platforms that withhold accelerationIncludingGravity. Ignored once real
+    // gravity samples arrive.
+    public seedOrientation(orientation: DeviceOrientationData | null) {
+        if (this.hasGravity) return;
+        const up = upFromOrientation(orientation);
+        if (up) this.setUp(up);
+    }
+
+    public addMotion(motion: DeviceMotionData): VehicleMotion | null {
+        const withGravity = toVec(motion.accelerationIncludingGravity);
+        if (withGravity) {
+            const measuredUp = normalize(withGravity);
+            if (measuredUp) {
+                const blended = this.hasGravity ? normalize(add(scale(this.up, 1 - GRAVITY_SMOOTHING), scale(measuredUp, GRAVITY_SMOOTHING))) : measuredUp;
+                if (blended) this.setUp(blended);
+                this.hasGravity = true;
+            }
+        }
+
+        const linear = toVec(motion.acceleration) ?? (withGravity ? sub(withGravity, scale(this.up, GRAVITY)) : null);
+        if (!linear) return null;
+
+        this.windowSum = add(this.windowSum, horizontal(linear, this.up));
+        this.windowCount++;
+
+        const forward = this.getForward();
+        const right = normalize(cross(forward, this.up)) ?? [1, 0, 0];
+        const r = motion.rotationRate;
+        const rotation: Vec3 = [r.beta || 0, r.gamma || 0, r.alpha || 0];
+
+        return {
+            longitudinal: dot(linear, forward),
+            lateral: dot(linear, right),
+            vertical: dot(linear, this.up),
+            yawRate: dot(rotation, this.up)
+        };
+    }
+
+    // Fed with every GPS fix. A straight-line speed change tells us which way the push was.
+    public addSpeed(speedKmh: number, heading: number | null, timestamp: number) {
+        const speedMps = speedKmh / 3.6;
+        const previous = this.lastFix;
+        const windowSum = this.windowSum;
+        const windowCount = this.windowCount;
+
+        this.lastFix = { speedMps, heading, time: timestamp };
+        this.windowSum = [0, 0, 0];
+        this.windowCount = 0;
+
+        if (!previous || windowCount === 0) return;
+        const dt = (timestamp - previous.time) / 1000;
+        if (dt < MIN_FIX_INTERVAL_S || dt > MAX_FIX_INTERVAL_S) return;
+
+        if (heading !== null && previous.heading !== null) {
+            let turn = Math.abs(heading - previous.heading);
+            if (turn > 180) turn = 360 - turn;
+            if (turn / dt > MAX_TURN_RATE) return;
+        }
+
+        const speedChange = (speedMps - previous.speedMps) / dt;
+        if (Math.abs(speedChange) < MIN_SPEED_CHANGE) return;
+
+        const felt = scale(windowSum, 1 / windowCount);
+        if (length(felt) < MIN_HORIZONTAL_ACCEL) return;
+
+        const direction = normalize(felt);
+        if (!direction) return;
+
+        const weight = Math.abs(speedChange);
+        this.forwardSum = add(this.forwardSum, scale(direction, Math.sign(speedChange) * weight));
+        this.learnedWeight += weight;
+
+        if (this.learnedWeight > MAX_LEARNED_WEIGHT) {
+            const k = MAX_LEARNED_WEIGHT / this.learnedWeight;
+            this.forwardSum = scale(this.forwardSum, k);
+            this.learnedWeight = MAX_LEARNED_WEIGHT;
+        }
+    }
+
+    // 0 = running on the mount-based guess, 1 = forward axis fully learned
+    public get confidence(): number {
+        return Math.min(1, this.learnedWeight / MAX_LEARNED_WEIGHT);
+    }
+
+    public getCalibration(): VehicleFrameCalibration | null {
+        if (this.learnedWeight < MIN_LEARNED_WEIGHT) return null;
+        return { up: this.up, forward: this.getForward(), weight: this.learnedWeight, updatedAt: clock.now() };
+    }
+
+    public reset() {
+        this.up = [0, 0, 1];
+        this.hasGravity = false;
+        this.forwardSum = [0, 0, 0];
+        this.learnedWeight = 0;
+        this.windowSum = [0, 0, 0];
+        this.windowCount = 0;
+        this.lastFix = null;
+    }
+
+    private setUp(up: Vec3) {
+        // A large jump in gravity means the phone moved in its holder; the old forward axis is void
+        if (this.learnedWeight > 0 && Math.acos(Math.max(-1, Math.min(1, dot(up, this.up)))) > REMOUNT_ANGLE_DEG * DEG_TO_RAD) {
+            this.forwardSum = [0, 0, 0];
+            this.learnedWeight = 0;
+        }
+        this.up = up;
+    }
+
+    private getForward(): Vec3 {
+        if (this.learnedWeight >= MIN_LEARNED_WEIGHT) {
+            const learned = normalize(horizontal(this.forwardSum, this.up));
+            if (learned) return learned;
+        }
+        return this.priorForward();
+    }
+
+    // Before any evidence: a phone lying flat points its top (+y) forward, an upright phone in a
+    // dash mount faces the driver so its back (-z) points forward.
+    private priorForward(): Vec3 {
+        const isFlat = Math.abs(this.up[2]) > 0.7;
+        const axis: Vec3 = isFlat ? [0, 1, 0] : [0, 0, -1];
+        return normalize(horizontal(axis, this.up)) ?? [0, 1, 0];
+    }
+}